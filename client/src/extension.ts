@@ -24,6 +24,7 @@ import { setupConfigurationWatcher } from "./configuration/watcher";
 import { getUpdateConfiguration } from "./configuration/settings";
 import { registerFormatting } from "./features/formatting/formatter";
 import { replService } from "./features/repl";
+import { registerNotebookFeatures } from "./features/notebook";
 import { registerGradleFeatures } from "./features/gradle";
 import { registerTestingFeatures } from "./features/testing";
 import {
@@ -82,8 +83,8 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize REPL
     replService.initialize(context);
 
-    // Register features that depend on the client
-    registerFormatting(context);
+    // Register Groovy notebooks (cells run through the REPL)
+    registerNotebookFeatures(context);
 
     // Register testing features
     const testOutputChannel = vscode.window.createOutputChannel("Groovy Tests");
@@ -94,13 +95,15 @@ export async function activate(context: vscode.ExtensionContext) {
     registerAstFeatures(context);
 
     // Register Spock Test Scaffolding
-    context.subscriptions.push(new TestFeature());
+    context.subscriptions.push(new TestFeature(context.workspaceState));
 
     // Start the Language Server
     // We start this LAST so that all features (modifiers, providers) are registered
     // and can potentially function (or be ready) even if the server fails to start immediately.
     await startClient(serverOutputChannel);
 
+    // Register features that depend on the client
+    registerFormatting(context);
     registerGradleFeatures(context);
     registerTestingFeatures(context, testOutputChannel);
 
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { getClient } from "../../server/client";
+import { getNonce } from "../../ui/webview";
 
 export function registerAstFeatures(context: vscode.ExtensionContext) {
   context.subscriptions.push(
@@ -293,13 +294,3 @@ class AstProvider {
             </html>`;
   }
 }
-
-function getNonce() {
-  let text = "";
-  const possible =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-  for (let i = 0; i < 32; i++) {
-    text += possible.charAt(Math.floor(Math.random() * possible.length));
-  }
-  return text;
-}
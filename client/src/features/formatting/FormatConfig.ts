@@ -0,0 +1,107 @@
+/**
+ * Project-level formatter configuration read from a `.groovy-format` file.
+ *
+ * The settings are sent to the server as extra `FormattingOptions` properties
+ * prefixed with `groovy.format.`, next to the editor's tab settings.
+ */
+
+export const FORMAT_CONFIG_FILENAME = ".groovy-format";
+
+/** Prefix for the config keys in `FormattingOptions`. */
+export const FORMAT_OPTION_PREFIX = "groovy.format.";
+
+export interface GroovyFormatConfig {
+  /** Where opening braces go */
+  braceStyle?: "same-line" | "next-line";
+  /** Import groups in order, e.g. ["java", "javax", "groovy", "*", "static"] */
+  importOrder?: string[];
+  /** Spaces around closure parameters: `{ a, b -> }` vs `{a, b->}` */
+  closureParameterSpacing?: boolean;
+  maxLineLength?: number;
+  /** Preferred quotes for strings without interpolation */
+  gstringQuotes?: "single" | "double" | "preserve";
+}
+
+export interface FormatConfigParseResult {
+  config: GroovyFormatConfig;
+  errors: string[];
+}
+
+type Validator = (value: unknown) => string | undefined;
+
+const oneOf =
+  (...allowed: string[]): Validator =>
+  (value) =>
+    typeof value === "string" && allowed.includes(value)
+      ? undefined
+      : `must be one of ${allowed.map((a) => `"${a}"`).join(", ")}`;
+
+const VALIDATORS: Record<keyof GroovyFormatConfig, Validator> = {
+  braceStyle: oneOf("same-line", "next-line"),
+  importOrder: (value) =>
+    Array.isArray(value) && value.every((v) => typeof v === "string")
+      ? undefined
+      : "must be an array of strings",
+  closureParameterSpacing: (value) =>
+    typeof value === "boolean" ? undefined : "must be a boolean",
+  maxLineLength: (value) =>
+    Number.isInteger(value) && (value as number) > 0
+      ? undefined
+      : "must be a positive integer",
+  gstringQuotes: oneOf("single", "double", "preserve"),
+};
+
+/**
+ * Parse and validate the contents of a `.groovy-format` file.
+ * Invalid entries are reported and left out; valid ones are still applied.
+ */
+export function parseFormatConfig(text: string): FormatConfigParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { config: {}, errors: [`Invalid JSON: ${message}`] };
+  }
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return { config: {}, errors: ["Expected a JSON object"] };
+  }
+
+  const config: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "$schema") {
+      continue;
+    }
+    if (!(key in VALIDATORS)) {
+      errors.push(`Unknown setting "${key}"`);
+      continue;
+    }
+    const error = VALIDATORS[key as keyof GroovyFormatConfig](value);
+    if (error) {
+      errors.push(`"${key}" ${error}`);
+      continue;
+    }
+    config[key] = value;
+  }
+  return { config: config as GroovyFormatConfig, errors };
+}
+
+/**
+ * Convert the config into `FormattingOptions` properties.
+ * Lists are joined with commas because option values must be scalars.
+ */
+export function toFormattingOptions(
+  config: GroovyFormatConfig,
+): Record<string, boolean | number | string> {
+  const options: Record<string, boolean | number | string> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) {
+      continue;
+    }
+    options[FORMAT_OPTION_PREFIX + key] = Array.isArray(value)
+      ? value.join(",")
+      : (value as boolean | number | string);
+  }
+  return options;
+}
@@ -0,0 +1,108 @@
+import * as vscode from "vscode";
+import {
+  FORMAT_CONFIG_FILENAME,
+  GroovyFormatConfig,
+  parseFormatConfig,
+  toFormattingOptions,
+} from "./FormatConfig";
+
+/**
+ * Finds the nearest `.groovy-format` file for a document, searching from the
+ * document's folder up to its workspace folder. Results are cached until a
+ * config file is created, changed or deleted.
+ */
+export class FormatConfigLoader implements vscode.Disposable {
+  private readonly cache = new Map<string, Promise<GroovyFormatConfig>>();
+  private readonly watcher: vscode.FileSystemWatcher;
+
+  constructor() {
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      `**/${FORMAT_CONFIG_FILENAME}`,
+    );
+    const invalidate = () => this.cache.clear();
+    this.watcher.onDidCreate(invalidate);
+    this.watcher.onDidChange(invalidate);
+    this.watcher.onDidDelete(invalidate);
+  }
+
+  public getConfig(documentUri: vscode.Uri): Promise<GroovyFormatConfig> {
+    const folder = vscode.workspace.getWorkspaceFolder(documentUri);
+    if (!folder) {
+      return Promise.resolve({});
+    }
+
+    const directory = vscode.Uri.joinPath(documentUri, "..");
+    const key = directory.toString();
+    let config = this.cache.get(key);
+    if (!config) {
+      config = this.findConfig(directory, folder.uri);
+      this.cache.set(key, config);
+    }
+    return config;
+  }
+
+  /**
+   * Editor options of a document with its `.groovy-format` settings added.
+   */
+  public async resolveOptions(
+    documentUri: vscode.Uri,
+    options: vscode.FormattingOptions,
+  ): Promise<vscode.FormattingOptions> {
+    const config = await this.getConfig(documentUri);
+    return { ...options, ...toFormattingOptions(config) };
+  }
+
+  public dispose(): void {
+    this.watcher.dispose();
+    this.cache.clear();
+  }
+
+  private async findConfig(
+    directory: vscode.Uri,
+    root: vscode.Uri,
+  ): Promise<GroovyFormatConfig> {
+    let current = directory;
+    // Compare whole path segments: /ws/app-old is not inside /ws/app
+    while (
+      current.path === root.path ||
+      current.path.startsWith(`${root.path}/`)
+    ) {
+      const candidate = vscode.Uri.joinPath(current, FORMAT_CONFIG_FILENAME);
+      const content = await this.tryRead(candidate);
+      if (content !== undefined) {
+        return this.load(candidate, content);
+      }
+      if (current.path === root.path) {
+        break;
+      }
+      current = vscode.Uri.joinPath(current, "..");
+    }
+    return {};
+  }
+
+  private async tryRead(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      return new TextDecoder().decode(bytes);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private load(uri: vscode.Uri, content: string): GroovyFormatConfig {
+    const { config, errors } = parseFormatConfig(content);
+    if (errors.length > 0) {
+      vscode.window
+        .showWarningMessage(
+          `Ignoring invalid settings in ${vscode.workspace.asRelativePath(uri)}: ${errors.join("; ")}`,
+          "Open",
+        )
+        .then((selection) => {
+          if (selection === "Open") {
+            vscode.window.showTextDocument(uri);
+          }
+        });
+    }
+    return config;
+  }
+}
@@ -0,0 +1,62 @@
+import { FormattingOptions, TextDocument, workspace } from "vscode";
+import type { Middleware } from "vscode-languageclient/node";
+import type { FormatConfigLoader } from "./FormatConfigLoader";
+
+let configLoader: FormatConfigLoader | undefined;
+
+/**
+ * Set the loader whose `.groovy-format` settings are added to formatting requests.
+ */
+export function setFormatConfigLoader(loader: FormatConfigLoader | undefined) {
+  configLoader = loader;
+}
+
+/**
+ * Middleware for the document, range and on-type formatting providers that the
+ * language client registers from the server's capabilities. Those providers are
+ * the only Groovy formatters, so settings are applied here.
+ */
+export const formattingMiddleware: Middleware = {
+  provideDocumentFormattingEdits: async (document, options, token, next) =>
+    isFormattingEnabled()
+      ? next(document, await resolveOptions(document, options), token)
+      : [],
+  provideDocumentRangeFormattingEdits: async (
+    document,
+    range,
+    options,
+    token,
+    next,
+  ) =>
+    isFormattingEnabled()
+      ? next(document, range, await resolveOptions(document, options), token)
+      : [],
+  provideOnTypeFormattingEdits: async (
+    document,
+    position,
+    ch,
+    options,
+    token,
+    next,
+  ) =>
+    isFormattingEnabled()
+      ? next(
+          document,
+          position,
+          ch,
+          await resolveOptions(document, options),
+          token,
+        )
+      : [],
+};
+
+function isFormattingEnabled(): boolean {
+  return workspace.getConfiguration("groovy").get("format.enable", true);
+}
+
+async function resolveOptions(
+  document: TextDocument,
+  options: FormattingOptions,
+): Promise<FormattingOptions> {
+  return (await configLoader?.resolveOptions(document.uri, options)) ?? options;
+}
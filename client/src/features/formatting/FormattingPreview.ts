@@ -0,0 +1,133 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { GroovyFormattingProvider } from "./GroovyFormattingProvider";
+
+export const PREVIEW_SCHEME = "groovy-format-preview";
+
+export interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * Apply non-overlapping edits, given as offsets into the original text.
+ */
+export function applyOffsetEdits(text: string, edits: OffsetEdit[]): string {
+  // Apply from the end so earlier offsets stay valid
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = text;
+  for (const edit of sorted) {
+    result =
+      result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * "Groovy: Preview Formatting": shows a diff of the formatted file and applies it on confirmation.
+ */
+export class FormattingPreview
+  implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly provider: GroovyFormattingProvider) {}
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? "";
+  }
+
+  public async preview(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (
+      !editor ||
+      !["groovy", "jenkinsfile"].includes(editor.document.languageId)
+    ) {
+      vscode.window.showInformationMessage(
+        "Open a Groovy file or Jenkinsfile to preview formatting.",
+      );
+      return;
+    }
+
+    const document = editor.document;
+    const version = document.version;
+    const tokenSource = new vscode.CancellationTokenSource();
+    let edits: vscode.TextEdit[];
+    try {
+      edits = await this.provider.provideDocumentFormattingEdits(
+        document,
+        {
+          tabSize: editor.options.tabSize as number,
+          insertSpaces: editor.options.insertSpaces as boolean,
+        },
+        tokenSource.token,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Formatting failed: ${message}`);
+      return;
+    } finally {
+      tokenSource.dispose();
+    }
+
+    const original = document.getText();
+    const formatted = applyOffsetEdits(
+      original,
+      edits.map((edit) => ({
+        start: document.offsetAt(edit.range.start),
+        end: document.offsetAt(edit.range.end),
+        newText: edit.newText,
+      })),
+    );
+    if (formatted === original) {
+      vscode.window.showInformationMessage("File is already formatted.");
+      return;
+    }
+
+    const previewUri = vscode.Uri.from({
+      scheme: PREVIEW_SCHEME,
+      path: document.uri.path,
+      query: `v=${version}`,
+    });
+    // Only the latest preview is kept
+    this.contents.clear();
+    this.contents.set(previewUri.toString(), formatted);
+    this.changeEmitter.fire(previewUri);
+
+    const name = path.basename(document.uri.path);
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      document.uri,
+      previewUri,
+      `${name} ↔ Formatted`,
+      { preview: true },
+    );
+
+    const choice = await vscode.window.showInformationMessage(
+      `Apply formatting to ${name}?`,
+      "Apply",
+      "Cancel",
+    );
+    if (choice !== "Apply") {
+      return;
+    }
+    if (document.version !== version) {
+      vscode.window.showWarningMessage(
+        `${name} changed since the preview was created. Run the preview again.`,
+      );
+      return;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.set(document.uri, edits);
+    await vscode.workspace.applyEdit(workspaceEdit);
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+    this.contents.clear();
+  }
+}
@@ -1,8 +1,12 @@
 import { LanguageClient } from "vscode-languageclient/node";
 import {
   DocumentFormattingRequest,
+  DocumentRangeFormattingRequest,
+  DocumentOnTypeFormattingRequest,
   TextEdit,
   FormattingOptions,
+  Range,
+  Position,
 } from "vscode-languageserver-protocol";
 
 export class GroovyFormatter {
@@ -19,4 +23,40 @@ export class GroovyFormatter {
 
     return this.client.sendRequest(DocumentFormattingRequest.type, params);
   }
+
+  async formatRange(
+    documentUri: string,
+    range: Range,
+    options: FormattingOptions,
+  ): Promise<TextEdit[] | null> {
+    const params = {
+      textDocument: { uri: documentUri },
+      range: range,
+      options: options,
+    };
+
+    return this.client.sendRequest(DocumentRangeFormattingRequest.type, params);
+  }
+
+  /**
+   * @param ch The character that was typed (`}` or `\n`)
+   */
+  async formatOnType(
+    documentUri: string,
+    position: Position,
+    ch: string,
+    options: FormattingOptions,
+  ): Promise<TextEdit[] | null> {
+    const params = {
+      textDocument: { uri: documentUri },
+      position: position,
+      ch: ch,
+      options: options,
+    };
+
+    return this.client.sendRequest(
+      DocumentOnTypeFormattingRequest.type,
+      params,
+    );
+  }
 }
@@ -4,29 +4,50 @@ import {
   FormattingOptions,
   CancellationToken,
   TextEdit,
-  ProviderResult,
 } from "vscode";
 import { LanguageClient } from "vscode-languageclient/node";
+import { TextEdit as LspTextEdit } from "vscode-languageserver-protocol";
 import { GroovyFormatter } from "./GroovyFormatter";
+import { FormatConfigLoader } from "./FormatConfigLoader";
 
 export class GroovyFormattingProvider implements DocumentFormattingEditProvider {
   private readonly formatter: GroovyFormatter;
 
-  constructor(client: LanguageClient) {
+  /**
+   * @param configLoader Supplies `.groovy-format` settings sent along with the editor options
+   */
+  constructor(
+    private readonly client: LanguageClient,
+    private readonly configLoader?: FormatConfigLoader,
+  ) {
     this.formatter = new GroovyFormatter(client);
   }
 
-  provideDocumentFormattingEdits(
+  async provideDocumentFormattingEdits(
     document: TextDocument,
     options: FormattingOptions,
     token: CancellationToken,
-  ): ProviderResult<TextEdit[]> {
+  ): Promise<TextEdit[]> {
     if (token.isCancellationRequested) {
       return [];
     }
-    return this.formatter.formatDocument(
+    const edits = await this.formatter.formatDocument(
       document.uri.toString(),
-      options,
-    ) as Promise<TextEdit[]>;
+      (await this.configLoader?.resolveOptions(document.uri, options)) ??
+        options,
+    );
+    return this.toCodeEdits(edits, token);
+  }
+
+  private async toCodeEdits(
+    edits: LspTextEdit[] | null,
+    token: CancellationToken,
+  ): Promise<TextEdit[]> {
+    if (!edits || token.isCancellationRequested) {
+      return [];
+    }
+    return (
+      (await this.client.protocol2CodeConverter.asTextEdits(edits, token)) ?? []
+    );
   }
 }
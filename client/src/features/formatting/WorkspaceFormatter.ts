@@ -0,0 +1,260 @@
+import * as vscode from "vscode";
+import { EXCLUDED_FILES_GLOB } from "../../utils/globs";
+import { GroovyFormattingProvider } from "./GroovyFormattingProvider";
+
+/** Groovy sources, Gradle scripts and Jenkinsfiles. */
+export const FORMATTABLE_FILES_GLOB =
+  "**/{*.groovy,*.gvy,*.gy,*.gsh,*.gradle,Jenkinsfile,Jenkinsfile.*,*.jenkinsfile}";
+
+export type WorkspaceFormatMode = "format" | "check";
+
+export interface WorkspaceFormatSummary {
+  mode: WorkspaceFormatMode;
+  total: number;
+  processed: number;
+  /** Files that were reformatted, or that need formatting in check mode */
+  changed: string[];
+  failed: string[];
+  cancelled: boolean;
+}
+
+/**
+ * Build the message shown when a workspace format or check finishes.
+ */
+export function describeSummary(summary: WorkspaceFormatSummary): string {
+  const { mode, total, processed, changed, failed, cancelled } = summary;
+  const files = (n: number) => `${n} file${n === 1 ? "" : "s"}`;
+
+  let message =
+    mode === "format"
+      ? `Formatted ${files(changed.length)} (${files(processed)} checked).`
+      : changed.length === 0
+        ? `All ${files(processed)} are formatted.`
+        : `${files(changed.length)} of ${processed} need formatting.`;
+  if (failed.length > 0) {
+    message += ` ${files(failed.length)} could not be formatted.`;
+  }
+  if (cancelled) {
+    message += ` Cancelled after ${processed} of ${total}.`;
+  }
+  return message;
+}
+
+/**
+ * Formats, or checks the formatting of, every Groovy file in the workspace or a folder.
+ */
+export class WorkspaceFormatter implements vscode.Disposable {
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly provider: GroovyFormattingProvider) {
+    this.diagnostics =
+      vscode.languages.createDiagnosticCollection("groovy-format");
+    this.disposables.push(
+      this.diagnostics,
+      // A check result is stale as soon as the file is edited
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (
+          event.contentChanges.length > 0 &&
+          this.diagnostics.has(event.document.uri)
+        ) {
+          this.diagnostics.delete(event.document.uri);
+        }
+      }),
+    );
+  }
+
+  /**
+   * @param folder Folder selected in the explorer; the whole workspace if omitted
+   */
+  public async run(
+    mode: WorkspaceFormatMode,
+    folder?: vscode.Uri,
+  ): Promise<WorkspaceFormatSummary | undefined> {
+    const files = await this.findFiles(folder);
+    if (files.length === 0) {
+      vscode.window.showInformationMessage(
+        "No Groovy, Gradle or Jenkinsfile files found.",
+      );
+      return undefined;
+    }
+
+    if (mode === "check") {
+      this.clearDiagnostics(folder);
+    }
+
+    const summary = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title:
+          mode === "format"
+            ? "Formatting Groovy files"
+            : "Checking Groovy formatting",
+        cancellable: true,
+      },
+      (progress, token) => this.processFiles(mode, files, progress, token),
+    );
+
+    this.showSummary(summary);
+    return summary;
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private async findFiles(folder?: vscode.Uri): Promise<vscode.Uri[]> {
+    const include = folder
+      ? new vscode.RelativePattern(folder, FORMATTABLE_FILES_GLOB)
+      : FORMATTABLE_FILES_GLOB;
+    const files = await vscode.workspace.findFiles(
+      include,
+      EXCLUDED_FILES_GLOB,
+    );
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private async processFiles(
+    mode: WorkspaceFormatMode,
+    files: vscode.Uri[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken,
+  ): Promise<WorkspaceFormatSummary> {
+    const summary: WorkspaceFormatSummary = {
+      mode,
+      total: files.length,
+      processed: 0,
+      changed: [],
+      failed: [],
+      cancelled: false,
+    };
+
+    for (const uri of files) {
+      if (token.isCancellationRequested) {
+        summary.cancelled = true;
+        break;
+      }
+      const relativePath = vscode.workspace.asRelativePath(uri);
+      progress.report({
+        message: relativePath,
+        increment: 100 / files.length,
+      });
+
+      try {
+        const changed =
+          mode === "format"
+            ? await this.formatFile(uri, token)
+            : await this.checkFile(uri, token);
+        if (changed) {
+          summary.changed.push(relativePath);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[WorkspaceFormatter] ${relativePath}: ${message}`);
+        summary.failed.push(relativePath);
+      }
+      summary.processed++;
+    }
+    return summary;
+  }
+
+  private async computeEdits(
+    uri: vscode.Uri,
+    token: vscode.CancellationToken,
+  ): Promise<{ document: vscode.TextDocument; edits: vscode.TextEdit[] }> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const editorConfig = vscode.workspace.getConfiguration("editor", document);
+    const edits = await this.provider.provideDocumentFormattingEdits(
+      document,
+      {
+        tabSize: editorConfig.get<number>("tabSize", 4),
+        insertSpaces: editorConfig.get<boolean>("insertSpaces", true),
+      },
+      token,
+    );
+    // Servers may return edits that rewrite text unchanged; those are not drift
+    return {
+      document,
+      edits: edits.filter(
+        (edit) => document.getText(edit.range) !== edit.newText,
+      ),
+    };
+  }
+
+  private async formatFile(
+    uri: vscode.Uri,
+    token: vscode.CancellationToken,
+  ): Promise<boolean> {
+    const { document, edits } = await this.computeEdits(uri, token);
+    if (edits.length === 0 || token.isCancellationRequested) {
+      return false;
+    }
+
+    const wasDirty = document.isDirty;
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.set(uri, edits);
+    if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+      throw new Error("Could not apply formatting edits");
+    }
+    // Leave files with unsaved user changes for the user to save
+    if (!wasDirty) {
+      await document.save();
+    }
+    this.diagnostics.delete(uri);
+    return true;
+  }
+
+  private async checkFile(
+    uri: vscode.Uri,
+    token: vscode.CancellationToken,
+  ): Promise<boolean> {
+    const { edits } = await this.computeEdits(uri, token);
+    if (edits.length === 0) {
+      return false;
+    }
+
+    const first = edits.reduce((a, b) =>
+      b.range.start.isBefore(a.range.start) ? b : a,
+    );
+    const diagnostic = new vscode.Diagnostic(
+      first.range,
+      `File is not formatted (${edits.length} change${edits.length === 1 ? "" : "s"} needed). Run "Format Document" to fix.`,
+      vscode.DiagnosticSeverity.Warning,
+    );
+    diagnostic.source = "groovy-format";
+    this.diagnostics.set(uri, [diagnostic]);
+    return true;
+  }
+
+  private clearDiagnostics(folder?: vscode.Uri): void {
+    if (!folder) {
+      this.diagnostics.clear();
+      return;
+    }
+    const prefix = folder.path.endsWith("/") ? folder.path : `${folder.path}/`;
+    const stale: vscode.Uri[] = [];
+    this.diagnostics.forEach((uri) => {
+      if (uri.path.startsWith(prefix)) {
+        stale.push(uri);
+      }
+    });
+    stale.forEach((uri) => this.diagnostics.delete(uri));
+  }
+
+  private showSummary(summary: WorkspaceFormatSummary): void {
+    const message = describeSummary(summary);
+    if (summary.mode === "check" && summary.changed.length > 0) {
+      vscode.window
+        .showWarningMessage(message, "Show Problems")
+        .then((selection) => {
+          if (selection === "Show Problems") {
+            vscode.commands.executeCommand("workbench.actions.view.problems");
+          }
+        });
+    } else if (summary.failed.length > 0) {
+      vscode.window.showWarningMessage(message);
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+  }
+}
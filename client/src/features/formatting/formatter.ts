@@ -1,6 +1,10 @@
-import { languages, ExtensionContext, workspace } from "vscode";
+import { commands, ExtensionContext, Uri, workspace } from "vscode";
 import { getClient } from "../../server/client";
 import { GroovyFormattingProvider } from "./GroovyFormattingProvider";
+import { FormatConfigLoader } from "./FormatConfigLoader";
+import { FormattingPreview, PREVIEW_SCHEME } from "./FormattingPreview";
+import { setFormatConfigLoader } from "./FormattingMiddleware";
+import { WorkspaceFormatter } from "./WorkspaceFormatter";
 
 export function registerFormatting(context: ExtensionContext) {
   const config = workspace.getConfiguration("groovy");
@@ -10,21 +14,31 @@ export function registerFormatting(context: ExtensionContext) {
 
   const client = getClient();
   if (!client) {
-    // Client not ready yet. Ideally we should wait or listen for client start.
-    // For now, we assume this is called after client start or client is singleton.
-    // But wait, extension.ts calls startClient() at the end.
-    // We should probably register this AFTER startClient.
+    // Called after startClient(); the server failed to start
     console.warn("Groovy Formatting Provider: Language Client not found.");
     return;
   }
 
-  const provider = new GroovyFormattingProvider(client);
-  const selector = [
-    { language: "groovy", scheme: "file" },
-    { language: "jenkinsfile", scheme: "file" },
-  ];
+  // Editor formatting goes through the language client's providers (see
+  // FormattingMiddleware); the provider here backs the preview and batch formatting
+  const configLoader = new FormatConfigLoader();
+  setFormatConfigLoader(configLoader);
+  const provider = new GroovyFormattingProvider(client, configLoader);
+  const preview = new FormattingPreview(provider);
+  const workspaceFormatter = new WorkspaceFormatter(provider);
 
   context.subscriptions.push(
-    languages.registerDocumentFormattingEditProvider(selector, provider),
+    configLoader,
+    { dispose: () => setFormatConfigLoader(undefined) },
+    preview,
+    workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, preview),
+    commands.registerCommand("groovy.format.preview", () => preview.preview()),
+    workspaceFormatter,
+    commands.registerCommand("groovy.format.workspace", (folder?: Uri) =>
+      workspaceFormatter.run("format", folder),
+    ),
+    commands.registerCommand("groovy.format.check", (folder?: Uri) =>
+      workspaceFormatter.run("check", folder),
+    ),
   );
 }
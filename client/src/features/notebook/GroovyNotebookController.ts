@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import { randomUUID } from "crypto";
+import { GroovyReplClient } from "../repl/GroovyReplClient";
+import { getClient } from "../../server/client";
+import { NOTEBOOK_TYPE } from "./GroovyNotebookSerializer";
+import { parseResultTable, renderHtmlTable } from "./ResultTable";
+
+/**
+ * Runs notebook cells through `groovy/execute`.
+ * Each open notebook gets its own REPL session, so variables are shared between its cells.
+ */
+export class GroovyNotebookController implements vscode.Disposable {
+  private readonly controller: vscode.NotebookController;
+  private readonly sessions = new Map<string, GroovyReplClient>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private executionOrder = 0;
+
+  constructor() {
+    this.controller = vscode.notebooks.createNotebookController(
+      "groovy-notebook-kernel",
+      NOTEBOOK_TYPE,
+      "Groovy",
+    );
+    this.controller.supportedLanguages = ["groovy"];
+    this.controller.supportsExecutionOrder = true;
+    this.controller.description = "Groovy Language Server REPL";
+    this.controller.executeHandler = (cells, notebook) =>
+      this.executeCells(cells, notebook);
+
+    this.disposables.push(
+      this.controller,
+      vscode.workspace.onDidCloseNotebookDocument((notebook) =>
+        this.closeSession(notebook.uri.toString()),
+      ),
+    );
+  }
+
+  /**
+   * Drop the notebook's session so the next run starts with fresh bindings.
+   */
+  public restartSession(notebook: vscode.NotebookDocument): void {
+    this.closeSession(notebook.uri.toString());
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    [...this.sessions.keys()].forEach((key) => this.closeSession(key));
+  }
+
+  /**
+   * Forget a notebook's session and end it on the server.
+   */
+  private closeSession(key: string): void {
+    const session = this.sessions.get(key);
+    this.sessions.delete(key);
+    session?.close().catch((error) => {
+      console.warn("[Notebook] Could not close REPL session:", error);
+    });
+  }
+
+  private async executeCells(
+    cells: vscode.NotebookCell[],
+    notebook: vscode.NotebookDocument,
+  ): Promise<void> {
+    const replClient = this.getSession(notebook);
+    for (const cell of cells) {
+      const execution = this.controller.createNotebookCellExecution(cell);
+      if (!replClient) {
+        execution.start(Date.now());
+        execution.replaceOutput(
+          new vscode.NotebookCellOutput([
+            vscode.NotebookCellOutputItem.error(
+              new Error("Groovy Language Server is not ready."),
+            ),
+          ]),
+        );
+        execution.end(false, Date.now());
+        continue;
+      }
+      const success = await this.executeCell(execution, replClient);
+      if (!success && execution.token.isCancellationRequested) {
+        // Do not keep running the remaining cells after the user cancelled
+        break;
+      }
+    }
+  }
+
+  private async executeCell(
+    execution: vscode.NotebookCellExecution,
+    replClient: GroovyReplClient,
+  ): Promise<boolean> {
+    execution.executionOrder = ++this.executionOrder;
+    execution.start(Date.now());
+    await execution.clearOutput();
+
+    try {
+      const result = await replClient.evaluate(
+        execution.cell.document.getText(),
+        execution.token,
+      );
+      const outputs: vscode.NotebookCellOutput[] = [];
+      if (result.output) {
+        outputs.push(
+          new vscode.NotebookCellOutput([
+            vscode.NotebookCellOutputItem.stdout(result.output),
+          ]),
+        );
+      }
+      if (result.result && result.result !== "null") {
+        outputs.push(
+          new vscode.NotebookCellOutput(renderResult(result.result)),
+        );
+      }
+      await execution.replaceOutput(outputs);
+      execution.end(true, Date.now());
+      return true;
+    } catch (error) {
+      const failure = execution.token.isCancellationRequested
+        ? new Error("Evaluation cancelled.")
+        : error instanceof Error
+          ? error
+          : new Error(String(error));
+      await execution.replaceOutput(
+        new vscode.NotebookCellOutput([
+          vscode.NotebookCellOutputItem.error(failure),
+        ]),
+      );
+      execution.end(false, Date.now());
+      return false;
+    }
+  }
+
+  private getSession(
+    notebook: vscode.NotebookDocument,
+  ): GroovyReplClient | undefined {
+    const key = notebook.uri.toString();
+    const existing = this.sessions.get(key);
+    if (existing) {
+      return existing;
+    }
+    const client = getClient();
+    if (!client) {
+      return undefined;
+    }
+    const session = new GroovyReplClient(client, `notebook-${randomUUID()}`);
+    this.sessions.set(key, session);
+    return session;
+  }
+}
+
+/**
+ * Render a REPL result, adding an HTML table for lists of maps.
+ * The plain text item is kept so the raw value is still available.
+ */
+function renderResult(result: string): vscode.NotebookCellOutputItem[] {
+  const items = [vscode.NotebookCellOutputItem.text(result)];
+  const table = parseResultTable(result);
+  if (table) {
+    items.unshift(
+      vscode.NotebookCellOutputItem.text(renderHtmlTable(table), "text/html"),
+    );
+  }
+  return items;
+}
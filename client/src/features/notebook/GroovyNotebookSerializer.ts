@@ -0,0 +1,107 @@
+import * as vscode from "vscode";
+
+export const NOTEBOOK_TYPE = "groovy-notebook";
+
+/**
+ * On-disk format of a .groovynb file. Plain JSON so notebooks diff well in version control.
+ */
+export interface RawNotebook {
+  version: number;
+  cells: RawNotebookCell[];
+}
+
+export interface RawNotebookCell {
+  kind: "code" | "markdown";
+  language: string;
+  source: string;
+  executionOrder?: number;
+  outputs?: RawCellOutput[];
+}
+
+export interface RawCellOutput {
+  items: { mime: string; data: string }[];
+}
+
+const FORMAT_VERSION = 1;
+
+export class GroovyNotebookSerializer implements vscode.NotebookSerializer {
+  private readonly decoder = new TextDecoder();
+  private readonly encoder = new TextEncoder();
+
+  deserializeNotebook(
+    content: Uint8Array,
+    _token: vscode.CancellationToken,
+  ): vscode.NotebookData {
+    const text = this.decoder.decode(content);
+    if (!text.trim()) {
+      return new vscode.NotebookData([]);
+    }
+
+    let raw: RawNotebook;
+    try {
+      raw = JSON.parse(text) as RawNotebook;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid Groovy notebook: ${message}`);
+    }
+
+    const cells = (raw.cells ?? []).map((cell) => {
+      const data = new vscode.NotebookCellData(
+        cell.kind === "markdown"
+          ? vscode.NotebookCellKind.Markup
+          : vscode.NotebookCellKind.Code,
+        cell.source ?? "",
+        cell.language ?? (cell.kind === "markdown" ? "markdown" : "groovy"),
+      );
+      data.outputs = (cell.outputs ?? []).map(
+        (output) =>
+          new vscode.NotebookCellOutput(
+            (output.items ?? []).map(
+              (item) =>
+                new vscode.NotebookCellOutputItem(
+                  this.encoder.encode(item.data),
+                  item.mime,
+                ),
+            ),
+          ),
+      );
+      if (cell.executionOrder !== undefined) {
+        data.executionSummary = { executionOrder: cell.executionOrder };
+      }
+      return data;
+    });
+
+    return new vscode.NotebookData(cells);
+  }
+
+  serializeNotebook(
+    data: vscode.NotebookData,
+    _token: vscode.CancellationToken,
+  ): Uint8Array {
+    const raw: RawNotebook = {
+      version: FORMAT_VERSION,
+      cells: data.cells.map((cell) => {
+        const rawCell: RawNotebookCell = {
+          kind:
+            cell.kind === vscode.NotebookCellKind.Markup ? "markdown" : "code",
+          language: cell.languageId,
+          source: cell.value,
+        };
+        if (cell.executionSummary?.executionOrder !== undefined) {
+          rawCell.executionOrder = cell.executionSummary.executionOrder;
+        }
+        if (cell.outputs && cell.outputs.length > 0) {
+          rawCell.outputs = cell.outputs.map((output) => ({
+            items: output.items.map((item) => ({
+              mime: item.mime,
+              data: this.decoder.decode(item.data),
+            })),
+          }));
+        }
+        return rawCell;
+      }),
+    };
+
+    return this.encoder.encode(JSON.stringify(raw, null, 2) + "\n");
+  }
+}
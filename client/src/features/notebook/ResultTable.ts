@@ -0,0 +1,134 @@
+import { escapeHtml } from "../../ui/webview";
+
+/**
+ * Detects REPL results that are lists of maps and renders them as HTML tables.
+ *
+ * `groovy/execute` returns results as strings, either JSON or Groovy's
+ * `toString()` form (`[[name:Alice, age:30], [name:Bob, age:25]]`).
+ */
+
+export interface ResultTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Parse a REPL result into a table, or return undefined if it is not a non-empty list of maps.
+ */
+export function parseResultTable(result: string): ResultTable | undefined {
+  const trimmed = result.trim();
+  if (!trimmed.startsWith("[")) {
+    return undefined;
+  }
+  const rows = parseJsonRows(trimmed) ?? parseGroovyRows(trimmed);
+  if (!rows || rows.length === 0) {
+    return undefined;
+  }
+
+  // Union of keys, in order of first appearance
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+  return { columns, rows };
+}
+
+export function renderHtmlTable(table: ResultTable): string {
+  const header = table.columns
+    .map((column) => `<th>${escapeHtml(column)}</th>`)
+    .join("");
+  const body = table.rows
+    .map((row) => {
+      const cells = table.columns
+        .map((column) => `<td>${escapeHtml(row[column] ?? "")}</td>`)
+        .join("");
+      return `<tr>${cells}</tr>`;
+    })
+    .join("");
+  return `<table><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function parseJsonRows(text: string): Record<string, string>[] | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const rows: Record<string, string>[] = [];
+  for (const item of value) {
+    if (item === null || typeof item !== "object" || Array.isArray(item)) {
+      return undefined;
+    }
+    const row: Record<string, string> = {};
+    for (const [key, cell] of Object.entries(item)) {
+      row[key] =
+        typeof cell === "string" ? cell : (JSON.stringify(cell) ?? "null");
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseGroovyRows(text: string): Record<string, string>[] | undefined {
+  if (!text.endsWith("]")) {
+    return undefined;
+  }
+
+  const rows: Record<string, string>[] = [];
+  for (const element of splitTopLevel(text.slice(1, -1))) {
+    if (!element.startsWith("[") || !element.endsWith("]")) {
+      return undefined;
+    }
+    const inner = element.slice(1, -1);
+    if (inner === ":") {
+      rows.push({});
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    for (const entry of splitTopLevel(inner)) {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) {
+        // Not a map entry, so this is a list of lists rather than a list of maps
+        return undefined;
+      }
+      row[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Split on commas that are not nested inside brackets.
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "[" || ch === "{" || ch === "(") {
+      depth++;
+    } else if (ch === "]" || ch === "}" || ch === ")") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = text.slice(start).trim();
+  if (last || parts.length > 0) {
+    parts.push(last);
+  }
+  return parts;
+}
@@ -0,0 +1,38 @@
+import * as vscode from "vscode";
+import {
+  GroovyNotebookSerializer,
+  NOTEBOOK_TYPE,
+} from "./GroovyNotebookSerializer";
+import { GroovyNotebookController } from "./GroovyNotebookController";
+
+export function registerNotebookFeatures(context: vscode.ExtensionContext) {
+  const controller = new GroovyNotebookController();
+
+  context.subscriptions.push(
+    vscode.workspace.registerNotebookSerializer(
+      NOTEBOOK_TYPE,
+      new GroovyNotebookSerializer(),
+    ),
+    controller,
+    vscode.commands.registerCommand("groovy.notebook.new", async () => {
+      const data = new vscode.NotebookData([
+        new vscode.NotebookCellData(vscode.NotebookCellKind.Code, "", "groovy"),
+      ]);
+      const notebook = await vscode.workspace.openNotebookDocument(
+        NOTEBOOK_TYPE,
+        data,
+      );
+      await vscode.window.showNotebookDocument(notebook);
+    }),
+    vscode.commands.registerCommand("groovy.notebook.restartSession", () => {
+      const notebook = vscode.window.activeNotebookEditor?.notebook;
+      if (notebook?.notebookType !== NOTEBOOK_TYPE) {
+        return;
+      }
+      controller.restartSession(notebook);
+      vscode.window.showInformationMessage(
+        "Groovy notebook session restarted. Variables will be cleared on the next run.",
+      );
+    }),
+  );
+}
@@ -1,4 +1,5 @@
 import { LanguageClient } from "vscode-languageclient/node";
+import type { CancellationToken } from "vscode";
 
 export interface ReplResult {
   result: string;
@@ -6,9 +7,34 @@ export interface ReplResult {
 }
 
 export class GroovyReplClient {
-  constructor(private readonly client: LanguageClient) {}
+  /**
+   * @param sessionId Server-side session whose bindings are used for evaluation
+   */
+  constructor(
+    private readonly client: LanguageClient,
+    public readonly sessionId: string,
+  ) {}
 
-  async evaluate(expression: string): Promise<ReplResult> {
-    return this.client.sendRequest("groovy/execute", { expression });
+  /**
+   * Evaluate an expression. Cancelling the token sends `$/cancelRequest` to the server.
+   */
+  async evaluate(
+    expression: string,
+    token?: CancellationToken,
+  ): Promise<ReplResult> {
+    return this.client.sendRequest(
+      "groovy/execute",
+      { expression, sessionId: this.sessionId },
+      token,
+    );
+  }
+
+  /**
+   * End the server-side session and release its bindings.
+   */
+  async close(): Promise<void> {
+    await this.client.sendRequest("groovy/closeSession", {
+      sessionId: this.sessionId,
+    });
   }
 }
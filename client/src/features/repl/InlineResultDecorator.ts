@@ -0,0 +1,211 @@
+import * as vscode from "vscode";
+import {
+  keepUnedited,
+  linesOverlap,
+  MAX_INLINE_LENGTH,
+  truncateInline,
+} from "../../ui/inlineDecorations";
+import type { ReplResult } from "./GroovyReplClient";
+
+interface InlineResult {
+  /** The evaluated range */
+  range: vscode.Range;
+  text: string;
+  hover: string;
+  isError: boolean;
+}
+
+/**
+ * Build the text shown after an evaluated range: the result if there is one,
+ * otherwise the first line of printed output.
+ */
+export function formatInlineResult(result: ReplResult): string {
+  if (result.result && result.result !== "null") {
+    return truncate(`=> ${firstLine(result.result)}`, result.result);
+  }
+  const output = result.output?.trim();
+  if (output) {
+    return truncate(firstLine(output), output);
+  }
+  return "=> null";
+}
+
+export function formatInlineError(message: string): string {
+  return truncate(`✖ ${firstLine(message)}`, message);
+}
+
+function firstLine(text: string): string {
+  return text.split(/\r?\n/, 1)[0];
+}
+
+function truncate(inline: string, full: string): string {
+  if (inline.length > MAX_INLINE_LENGTH) {
+    return truncateInline(inline);
+  }
+  // More lines are available in the hover
+  return full.trim().includes("\n") ? `${inline} …` : inline;
+}
+
+/**
+ * Shows "Send to REPL" results as after-text decorations next to the evaluated code.
+ * Errors are also reported as diagnostics. A result is dropped when its lines are edited.
+ */
+export class InlineResultDecorator implements vscode.Disposable {
+  private readonly resultDecoration: vscode.TextEditorDecorationType;
+  private readonly errorDecoration: vscode.TextEditorDecorationType;
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  private readonly results = new Map<string, InlineResult[]>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.resultDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        margin: "0 0 0 2em",
+        color: new vscode.ThemeColor("editorCodeLens.foreground"),
+        fontStyle: "italic",
+      },
+    });
+    this.errorDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        margin: "0 0 0 2em",
+        color: new vscode.ThemeColor("errorForeground"),
+      },
+    });
+    this.diagnostics =
+      vscode.languages.createDiagnosticCollection("groovy-repl");
+
+    this.disposables.push(
+      this.resultDecoration,
+      this.errorDecoration,
+      this.diagnostics,
+      vscode.window.onDidChangeVisibleTextEditors((editors) =>
+        editors.forEach((editor) => this.apply(editor)),
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.onDocumentChanged(event),
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.clearDocument(document.uri),
+      ),
+    );
+  }
+
+  public showResult(
+    editor: vscode.TextEditor,
+    range: vscode.Range,
+    result: ReplResult,
+  ): void {
+    const hover = [result.output?.trimEnd(), result.result]
+      .filter((part) => part && part !== "null")
+      .join("\n");
+    this.add(editor, {
+      range,
+      text: formatInlineResult(result),
+      hover: hover || "null",
+      isError: false,
+    });
+  }
+
+  public showError(
+    editor: vscode.TextEditor,
+    range: vscode.Range,
+    message: string,
+  ): void {
+    this.add(editor, {
+      range,
+      text: formatInlineError(message),
+      hover: message,
+      isError: true,
+    });
+  }
+
+  /**
+   * Remove all inline results and REPL diagnostics.
+   */
+  public clear(): void {
+    this.results.clear();
+    this.diagnostics.clear();
+    vscode.window.visibleTextEditors.forEach((editor) => this.apply(editor));
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.results.clear();
+  }
+
+  private add(editor: vscode.TextEditor, inline: InlineResult): void {
+    const key = editor.document.uri.toString();
+    // A new evaluation of overlapping code replaces the old result
+    const kept = (this.results.get(key) ?? []).filter(
+      (existing) => !linesOverlap(existing.range, inline.range),
+    );
+    kept.push(inline);
+    this.results.set(key, kept);
+    this.update(editor.document.uri);
+  }
+
+  private onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
+    const key = event.document.uri.toString();
+    const existing = this.results.get(key);
+    if (!existing || event.contentChanges.length === 0) {
+      return;
+    }
+    const kept = keepUnedited(existing, event.contentChanges);
+    if (kept.length !== existing.length) {
+      this.results.set(key, kept);
+      this.update(event.document.uri);
+    }
+  }
+
+  private clearDocument(uri: vscode.Uri): void {
+    if (this.results.delete(uri.toString())) {
+      this.diagnostics.delete(uri);
+    }
+  }
+
+  private update(uri: vscode.Uri): void {
+    const inlineResults = this.results.get(uri.toString()) ?? [];
+    this.diagnostics.set(
+      uri,
+      inlineResults
+        .filter((inline) => inline.isError)
+        .map((inline) => {
+          const diagnostic = new vscode.Diagnostic(
+            inline.range,
+            inline.hover,
+            vscode.DiagnosticSeverity.Error,
+          );
+          diagnostic.source = "Groovy REPL";
+          return diagnostic;
+        }),
+    );
+    vscode.window.visibleTextEditors
+      .filter((editor) => editor.document.uri.toString() === uri.toString())
+      .forEach((editor) => this.apply(editor));
+  }
+
+  private apply(editor: vscode.TextEditor): void {
+    const inlineResults = (
+      this.results.get(editor.document.uri.toString()) ?? []
+    ).filter((inline) => inline.range.end.line < editor.document.lineCount);
+    const toOptions = (inline: InlineResult): vscode.DecorationOptions => {
+      const line = editor.document.lineAt(inline.range.end.line);
+      const hover = new vscode.MarkdownString();
+      hover.appendCodeblock(inline.hover, "groovy");
+      return {
+        range: new vscode.Range(line.range.end, line.range.end),
+        hoverMessage: hover,
+        renderOptions: { after: { contentText: inline.text } },
+      };
+    };
+
+    editor.setDecorations(
+      this.resultDecoration,
+      inlineResults.filter((inline) => !inline.isError).map(toOptions),
+    );
+    editor.setDecorations(
+      this.errorDecoration,
+      inlineResults.filter((inline) => inline.isError).map(toOptions),
+    );
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Line editing for the interactive REPL pseudoterminal.
+ *
+ * Kept free of VS Code APIs so the editing logic can be unit tested directly.
+ */
+
+export const PROMPT = "groovy> ";
+export const CONTINUATION_PROMPT = "   ...> ";
+
+/** Maximum number of history entries kept per workspace. */
+export const MAX_HISTORY = 500;
+
+const KEY_UP = "\x1b[A";
+const KEY_DOWN = "\x1b[B";
+const KEY_RIGHT = "\x1b[C";
+const KEY_LEFT = "\x1b[D";
+const KEY_DELETE = "\x1b[3~";
+const HOME_SEQUENCES = ["\x1b[H", "\x1bOH", "\x1b[1~"];
+const END_SEQUENCES = ["\x1b[F", "\x1bOF", "\x1b[4~"];
+
+const CTRL_A = "\x01";
+const CTRL_C = "\x03";
+const CTRL_E = "\x05";
+const CTRL_U = "\x15";
+const BACKSPACE = "\x7f";
+const BACKSPACE_ALT = "\b";
+
+export interface ReplLineEditorCallbacks {
+  /** Write raw terminal output. */
+  write(data: string): void;
+  /** Called with the complete (possibly multi-line) snippet to evaluate. */
+  onSubmit(code: string): void;
+  /** Called when Ctrl+C is pressed while an evaluation is running. */
+  onInterrupt(): void;
+  /** Called whenever the history changes so it can be persisted. */
+  onHistoryChanged?(history: string[]): void;
+}
+
+/**
+ * Checks whether a Groovy snippet still has open brackets, closures,
+ * triple-quoted strings or block comments and therefore needs more input.
+ */
+export function isIncomplete(code: string): boolean {
+  let depth = 0;
+  let i = 0;
+
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+
+    // Line comment: skip to end of line
+    if (ch === "/" && next === "/") {
+      const end = code.indexOf("\n", i);
+      if (end === -1) break;
+      i = end + 1;
+      continue;
+    }
+
+    // Block comment: incomplete until closed
+    if (ch === "/" && next === "*") {
+      const end = code.indexOf("*/", i + 2);
+      if (end === -1) return true;
+      i = end + 2;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const triple = ch.repeat(3);
+      if (code.startsWith(triple, i)) {
+        const end = findClosingQuote(code, i + 3, triple);
+        if (end === -1) return true;
+        i = end + 3;
+        continue;
+      }
+      const end = findClosingQuote(code, i + 1, ch);
+      // An unterminated single-line string is a syntax error, not a continuation
+      i = end === -1 ? code.length : end + 1;
+      continue;
+    }
+
+    if (ch === "{" || ch === "(" || ch === "[") {
+      depth++;
+    } else if (ch === "}" || ch === ")" || ch === "]") {
+      depth--;
+    }
+    i++;
+  }
+
+  // Explicit line continuation
+  if (code.trimEnd().endsWith("\\")) {
+    return true;
+  }
+
+  return depth > 0;
+}
+
+function findClosingQuote(code: string, from: number, quote: string): number {
+  let i = from;
+  while (i < code.length) {
+    if (code[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (code.startsWith(quote, i)) {
+      return i;
+    }
+    // Single-quoted strings cannot span lines
+    if (quote.length === 1 && code[i] === "\n") {
+      return -1;
+    }
+    i++;
+  }
+  return -1;
+}
+
+/**
+ * Minimal readline-style editor: cursor movement, history and multi-line input.
+ */
+export class ReplLineEditor {
+  private buffer = "";
+  private cursor = 0;
+  private pendingLines: string[] = [];
+  private history: string[];
+  private historyIndex: number;
+  private draft = "";
+  private busy = false;
+
+  constructor(
+    private readonly callbacks: ReplLineEditorCallbacks,
+    history: string[] = [],
+  ) {
+    this.history = history.slice(-MAX_HISTORY);
+    this.historyIndex = this.history.length;
+  }
+
+  public getHistory(): string[] {
+    return [...this.history];
+  }
+
+  /**
+   * Mark an evaluation as running. While busy only Ctrl+C is handled.
+   */
+  public setBusy(busy: boolean): void {
+    this.busy = busy;
+  }
+
+  public isBusy(): boolean {
+    return this.busy;
+  }
+
+  /**
+   * Write the prompt followed by the current buffer.
+   */
+  public prompt(): void {
+    this.render();
+  }
+
+  /**
+   * Erase the prompt line so output can be written in its place.
+   */
+  public clearPromptLine(): void {
+    this.callbacks.write("\r\x1b[K");
+  }
+
+  public handleInput(data: string): void {
+    let i = 0;
+    while (i < data.length) {
+      const sequence = this.matchSequence(data, i);
+      if (sequence) {
+        this.handleSequence(sequence);
+        i += sequence.length;
+        continue;
+      }
+
+      const ch = data[i];
+      i++;
+
+      if (ch === CTRL_C) {
+        this.interrupt();
+        continue;
+      }
+      if (this.busy) {
+        continue;
+      }
+
+      switch (ch) {
+        case "\r":
+          // Treat CRLF from pasted text as a single line break
+          if (data[i] === "\n") i++;
+          this.submitLine();
+          break;
+        case "\n":
+          this.submitLine();
+          break;
+        case BACKSPACE:
+        case BACKSPACE_ALT:
+          if (this.cursor > 0) {
+            this.buffer =
+              this.buffer.slice(0, this.cursor - 1) +
+              this.buffer.slice(this.cursor);
+            this.cursor--;
+            this.render();
+          }
+          break;
+        case CTRL_A:
+          this.cursor = 0;
+          this.render();
+          break;
+        case CTRL_E:
+          this.cursor = this.buffer.length;
+          this.render();
+          break;
+        case CTRL_U:
+          this.buffer = this.buffer.slice(this.cursor);
+          this.cursor = 0;
+          this.render();
+          break;
+        default:
+          if (ch >= " " || ch === "\t") {
+            this.insert(ch);
+          }
+          break;
+      }
+    }
+  }
+
+  private matchSequence(data: string, index: number): string | undefined {
+    if (data[index] !== "\x1b") {
+      return undefined;
+    }
+    const candidates = [
+      KEY_UP,
+      KEY_DOWN,
+      KEY_RIGHT,
+      KEY_LEFT,
+      KEY_DELETE,
+      ...HOME_SEQUENCES,
+      ...END_SEQUENCES,
+    ];
+    const match = candidates.find((seq) => data.startsWith(seq, index));
+    if (match) {
+      return match;
+    }
+    // Swallow unknown CSI sequences (e.g. function keys) instead of inserting them
+    const unknown = /^\[[0-9;]*[~A-Za-z]/.exec(data.slice(index + 1));
+    return unknown ? `\x1b${unknown[0]}` : "\x1b";
+  }
+
+  private handleSequence(sequence: string): void {
+    if (this.busy) {
+      return;
+    }
+    if (sequence === KEY_UP) {
+      this.recallHistory(-1);
+    } else if (sequence === KEY_DOWN) {
+      this.recallHistory(1);
+    } else if (sequence === KEY_LEFT) {
+      if (this.cursor > 0) {
+        this.cursor--;
+        this.render();
+      }
+    } else if (sequence === KEY_RIGHT) {
+      if (this.cursor < this.buffer.length) {
+        this.cursor++;
+        this.render();
+      }
+    } else if (sequence === KEY_DELETE) {
+      if (this.cursor < this.buffer.length) {
+        this.buffer =
+          this.buffer.slice(0, this.cursor) +
+          this.buffer.slice(this.cursor + 1);
+        this.render();
+      }
+    } else if (HOME_SEQUENCES.includes(sequence)) {
+      this.cursor = 0;
+      this.render();
+    } else if (END_SEQUENCES.includes(sequence)) {
+      this.cursor = this.buffer.length;
+      this.render();
+    }
+  }
+
+  private insert(text: string): void {
+    this.buffer =
+      this.buffer.slice(0, this.cursor) + text + this.buffer.slice(this.cursor);
+    this.cursor += text.length;
+    this.render();
+  }
+
+  private interrupt(): void {
+    if (this.busy) {
+      this.callbacks.onInterrupt();
+      return;
+    }
+    // Nothing running: discard the current input, like a shell does
+    this.callbacks.write("^C\r\n");
+    this.resetInput();
+    this.render();
+  }
+
+  private submitLine(): void {
+    const line = this.buffer;
+    this.callbacks.write("\r\n");
+    this.addToHistory(line);
+    this.pendingLines.push(line);
+
+    const code = this.pendingLines.join("\n");
+    if (isIncomplete(code)) {
+      this.buffer = "";
+      this.cursor = 0;
+      this.render();
+      return;
+    }
+
+    this.resetInput();
+    if (code.trim() === "") {
+      this.render();
+      return;
+    }
+    this.callbacks.onSubmit(code);
+  }
+
+  private resetInput(): void {
+    this.buffer = "";
+    this.cursor = 0;
+    this.pendingLines = [];
+    this.historyIndex = this.history.length;
+    this.draft = "";
+  }
+
+  private addToHistory(line: string): void {
+    if (line.trim() === "" || this.history[this.history.length - 1] === line) {
+      this.historyIndex = this.history.length;
+      return;
+    }
+    this.history.push(line);
+    if (this.history.length > MAX_HISTORY) {
+      this.history.splice(0, this.history.length - MAX_HISTORY);
+    }
+    this.historyIndex = this.history.length;
+    this.callbacks.onHistoryChanged?.(this.getHistory());
+  }
+
+  private recallHistory(direction: -1 | 1): void {
+    const target = this.historyIndex + direction;
+    if (target < 0 || target > this.history.length) {
+      return;
+    }
+    if (this.historyIndex === this.history.length) {
+      // Leaving the line being typed: keep it so Down can restore it
+      this.draft = this.buffer;
+    }
+    this.historyIndex = target;
+    this.buffer =
+      target === this.history.length ? this.draft : this.history[target];
+    this.cursor = this.buffer.length;
+    this.render();
+  }
+
+  private render(): void {
+    const prompt = this.pendingLines.length > 0 ? CONTINUATION_PROMPT : PROMPT;
+    let output = `\r\x1b[K${prompt}${this.buffer}`;
+    const offset = this.buffer.length - this.cursor;
+    if (offset > 0) {
+      output += `\x1b[${offset}D`;
+    }
+    this.callbacks.write(output);
+  }
+}
@@ -0,0 +1,169 @@
+import * as vscode from "vscode";
+import { GroovyReplClient, ReplResult } from "./GroovyReplClient";
+import { ReplLineEditor } from "./ReplLineEditor";
+
+export interface ReplSessionCallbacks {
+  /** Called whenever the input history changes so it can be persisted. */
+  onHistoryChanged(history: string[]): void;
+  /** Called when the session's terminal is closed by the user. */
+  onClosed(session: ReplSession): void;
+}
+
+/**
+ * How an evaluation ended, for callers that show results outside the terminal.
+ */
+export type ReplEvaluationOutcome =
+  | { kind: "success"; result: ReplResult }
+  | { kind: "error"; message: string }
+  | { kind: "cancelled" };
+
+/**
+ * A named REPL session: its own terminal, line editor and server-side binding state.
+ */
+export class ReplSession implements vscode.Disposable {
+  public readonly terminal: vscode.Terminal;
+  private readonly lineEditor: ReplLineEditor;
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  private evaluationTokenSource: vscode.CancellationTokenSource | undefined;
+  private disposed = false;
+
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    private readonly replClient: GroovyReplClient,
+    history: string[],
+    private readonly callbacks: ReplSessionCallbacks,
+  ) {
+    this.lineEditor = new ReplLineEditor(
+      {
+        write: (data) => this.writeEmitter.fire(data),
+        onSubmit: (code) => {
+          void this.evaluate(code, false);
+        },
+        onInterrupt: () => this.cancelEvaluation(),
+        onHistoryChanged: (h) => this.callbacks.onHistoryChanged(h),
+      },
+      history,
+    );
+
+    const pty: vscode.Pseudoterminal = {
+      onDidWrite: this.writeEmitter.event,
+      onDidClose: this.closeEmitter.event,
+      open: () => {
+        this.writeEmitter.fire(`Welcome to Groovy REPL (session: ${name})\r\n`);
+        this.writeEmitter.fire(
+          "Type Groovy code and press Enter to evaluate. Unclosed braces continue on the next line.\r\n",
+        );
+        this.writeEmitter.fire(
+          'Up/Down browse history, Ctrl+C cancels a running evaluation. "Send to REPL" commands work too.\r\n\r\n',
+        );
+        this.lineEditor.prompt();
+      },
+      close: () => {
+        // This is called when the terminal is closed by the user (e.g. clicking the trash icon)
+        this.callbacks.onClosed(this);
+      },
+      handleInput: (data: string) => this.lineEditor.handleInput(data),
+    };
+
+    this.terminal = vscode.window.createTerminal({
+      name: `Groovy REPL: ${name}`,
+      pty,
+    });
+  }
+
+  public show(preserveFocus?: boolean): void {
+    this.terminal.show(preserveFocus);
+  }
+
+  public clear(): void {
+    // We can use a special sequence to clear the terminal
+    this.writeEmitter.fire("\x1b[2J\x1b[3J\x1b[;H");
+    this.lineEditor.prompt();
+  }
+
+  public dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.evaluationTokenSource?.cancel();
+    // The server keeps a session's bindings until it is told to drop them
+    this.replClient.close().catch((error) => {
+      console.warn(`[REPL] Could not close session '${this.name}':`, error);
+    });
+    this.terminal.dispose();
+    this.writeEmitter.dispose();
+    this.closeEmitter.dispose();
+  }
+
+  private cancelEvaluation(): void {
+    if (this.evaluationTokenSource) {
+      this.writeEmitter.fire("^C\r\n");
+      this.evaluationTokenSource.cancel();
+    }
+  }
+
+  /**
+   * Evaluate code in this session and print the result.
+   * @param echo Whether to print the code first (false for input typed into the terminal).
+   * @returns The outcome, or undefined if another evaluation is still running
+   */
+  public async evaluate(
+    code: string,
+    echo = true,
+  ): Promise<ReplEvaluationOutcome | undefined> {
+    if (this.evaluationTokenSource) {
+      vscode.window.showWarningMessage(
+        `REPL session '${this.name}' is still evaluating. Press Ctrl+C in its terminal to cancel.`,
+      );
+      return undefined;
+    }
+
+    if (echo) {
+      // Replace the idle prompt with the echoed code
+      this.lineEditor.clearPromptLine();
+      this.writeEmitter.fire(`> ${code.replaceAll("\n", "\r\n> ")}\r\n`);
+    }
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    this.evaluationTokenSource = tokenSource;
+    this.lineEditor.setBusy(true);
+
+    let outcome: ReplEvaluationOutcome;
+    try {
+      const result = await this.replClient.evaluate(code, tokenSource.token);
+      if (result.output) {
+        const output = result.output.replaceAll("\n", "\r\n");
+        this.writeEmitter.fire(
+          output.endsWith("\r\n") ? output : `${output}\r\n`,
+        );
+      }
+      if (result.result && result.result !== "null") {
+        this.writeEmitter.fire(`<= ${result.result}\r\n`);
+      }
+      outcome = { kind: "success", result };
+    } catch (error) {
+      if (tokenSource.token.isCancellationRequested) {
+        this.writeEmitter.fire("Evaluation cancelled.\r\n");
+        outcome = { kind: "cancelled" };
+      } else {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.writeEmitter.fire(`Error: ${errorMessage}\r\n`);
+        outcome = { kind: "error", message: errorMessage };
+      }
+    } finally {
+      tokenSource.dispose();
+      this.evaluationTokenSource = undefined;
+      this.lineEditor.setBusy(false);
+    }
+
+    if (!this.disposed) {
+      this.writeEmitter.fire("\r\n");
+      this.lineEditor.prompt();
+    }
+    return outcome;
+  }
+}
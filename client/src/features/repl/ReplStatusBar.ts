@@ -11,12 +11,25 @@ export interface StatusBarState {
  * Contains the pure, testable logic for determining the state of the status bar.
  */
 export class ReplStatusBarLogic {
-  public getState(isRunning: boolean): StatusBarState {
+  /**
+   * @param sessionName Name of the session that "Send to REPL" commands target
+   * @param sessionCount Number of open sessions
+   */
+  public getState(
+    isRunning: boolean,
+    sessionName?: string,
+    sessionCount = 1,
+  ): StatusBarState {
     if (isRunning) {
+      const multiple = sessionCount > 1;
       return {
-        text: "$(terminal) REPL",
-        tooltip: "Groovy REPL is running. Click to show.",
-        command: "groovy.repl.show",
+        text: sessionName
+          ? `$(terminal) REPL: ${sessionName}`
+          : "$(terminal) REPL",
+        tooltip: multiple
+          ? `Groovy REPL is running (${sessionCount} sessions). Click to switch session.`
+          : "Groovy REPL is running. Click to show.",
+        command: multiple ? "groovy.repl.selectSession" : "groovy.repl.show",
         color: new vscode.ThemeColor("statusBarItem.activeBackground"),
       };
     } else {
@@ -47,8 +60,12 @@ export class ReplStatusBar implements vscode.Disposable {
     this.item.show();
   }
 
-  public update(isRunning: boolean): void {
-    const state = this.logic.getState(isRunning);
+  public update(
+    isRunning: boolean,
+    sessionName?: string,
+    sessionCount?: number,
+  ): void {
+    const state = this.logic.getState(isRunning, sessionName, sessionCount);
 
     this.item.text = state.text;
     this.item.tooltip = state.tooltip;
@@ -1,13 +1,21 @@
 import * as vscode from "vscode";
+import { randomUUID } from "crypto";
 import { GroovyReplClient } from "./GroovyReplClient";
 import { getClient } from "../../server/client";
 import { ReplStatusBar } from "./ReplStatusBar";
+import { ReplSession } from "./ReplSession";
+import { InlineResultDecorator } from "./InlineResultDecorator";
+
+/** Workspace state key for the interactive REPL input history, by session name. */
+const HISTORY_STATE_KEY = "groovy.repl.history";
+
+const DEFAULT_SESSION_NAME = "default";
 
 export class ReplService implements vscode.Disposable {
-  private replClient: GroovyReplClient | undefined;
-  private terminal: vscode.Terminal | undefined;
-  private readonly writeEmitter = new vscode.EventEmitter<string>();
-  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  private readonly sessions = new Map<string, ReplSession>();
+  private activeSessionId: string | undefined;
+  private workspaceState: vscode.Memento | undefined;
+  private inlineResults: InlineResultDecorator | undefined;
   private readonly statusBar: ReplStatusBar;
 
   constructor() {
@@ -15,11 +23,19 @@ export class ReplService implements vscode.Disposable {
   }
 
   public initialize(context: vscode.ExtensionContext) {
+    this.workspaceState = context.workspaceState;
+    this.inlineResults = new InlineResultDecorator();
     this.statusBar.update(false); // Initial state
     context.subscriptions.push(
       vscode.commands.registerCommand("groovy.repl.start", () =>
         this.startRepl(),
       ),
+      vscode.commands.registerCommand("groovy.repl.newSession", () =>
+        this.newSession(),
+      ),
+      vscode.commands.registerCommand("groovy.repl.selectSession", () =>
+        this.selectSession(),
+      ),
       vscode.commands.registerCommand("groovy.repl.sendLine", () =>
         this.sendLine(),
       ),
@@ -35,24 +51,64 @@ export class ReplService implements vscode.Disposable {
       vscode.commands.registerCommand("groovy.repl.stop", () => this.stop()),
       vscode.commands.registerCommand("groovy.repl.clear", () => this.clear()),
       vscode.commands.registerCommand("groovy.repl.show", () => this.show()),
+      vscode.commands.registerCommand("groovy.repl.clearInlineResults", () =>
+        this.inlineResults?.clear(),
+      ),
+      // Focusing a session's terminal makes it the target for "Send to REPL"
+      vscode.window.onDidChangeActiveTerminal((terminal) => {
+        const session = [...this.sessions.values()].find(
+          (s) => s.terminal === terminal,
+        );
+        if (session) {
+          this.setActiveSession(session);
+        }
+      }),
       this,
       this.statusBar,
+      this.inlineResults,
     );
   }
 
   public dispose() {
-    this.stop();
-    this.writeEmitter.dispose();
-    this.closeEmitter.dispose();
+    for (const session of this.sessions.values()) {
+      session.dispose();
+    }
+    this.sessions.clear();
+    this.activeSessionId = undefined;
   }
 
-  public getStatus(): { isRunning: boolean } {
-    return { isRunning: !!this.terminal };
+  public getStatus(): {
+    isRunning: boolean;
+    activeSession?: string;
+    sessionCount: number;
+  } {
+    return {
+      isRunning: this.sessions.size > 0,
+      activeSession: this.getActiveSession()?.name,
+      sessionCount: this.sessions.size,
+    };
+  }
+
+  private getActiveSession(): ReplSession | undefined {
+    return this.activeSessionId
+      ? this.sessions.get(this.activeSessionId)
+      : undefined;
+  }
+
+  private setActiveSession(session: ReplSession | undefined): void {
+    this.activeSessionId = session?.id;
+    this.updateStatusBar();
+  }
+
+  private updateStatusBar(): void {
+    const active = this.getActiveSession();
+    this.statusBar.update(!!active, active?.name, this.sessions.size);
   }
 
   private show(): void {
-    if (this.terminal) {
-      this.terminal.show();
+    const session = this.getActiveSession();
+    if (session) {
+      session.show();
     } else {
       vscode.window.showInformationMessage(
         'REPL is not running. Use "Groovy: Start REPL" to begin.',
@@ -61,26 +117,40 @@ export class ReplService implements vscode.Disposable {
   }
 
   private clear(): void {
-    if (!this.terminal) {
+    const session = this.getActiveSession();
+    if (!session) {
       vscode.window.showInformationMessage("REPL is not running.");
       return;
     }
-    // We can use a special sequence to clear the terminal
-    this.writeEmitter.fire("\x1b[2J\x1b[3J\x1b[;H");
+    session.clear();
   }
 
+  /**
+   * Stop the active session. Another open session, if any, becomes active.
+   */
   private stop(): void {
-    if (this.terminal) {
-      this.terminal.dispose();
-      this.terminal = undefined;
-      this.replClient = undefined;
-      this.statusBar.update(false);
+    const session = this.getActiveSession();
+    if (session) {
+      this.removeSession(session);
+    }
+  }
+
+  private removeSession(session: ReplSession): void {
+    if (!this.sessions.delete(session.id)) {
+      return;
+    }
+    session.dispose();
+    if (this.activeSessionId === session.id) {
+      this.setActiveSession([...this.sessions.values()].pop());
+    } else {
+      this.updateStatusBar();
     }
   }
 
   private async restart(): Promise<void> {
+    const name = this.getActiveSession()?.name ?? DEFAULT_SESSION_NAME;
     this.stop();
-    await this.startRepl();
+    await this.createSession(name);
   }
 
   private async sendFile(): Promise<void> {
@@ -94,48 +164,125 @@ export class ReplService implements vscode.Disposable {
     }
   }
 
-  private async startRepl() {
+  private async startRepl(): Promise<ReplSession | undefined> {
+    const session = this.getActiveSession();
+    if (session) {
+      session.show();
+      return session;
+    }
+    return this.createSession(DEFAULT_SESSION_NAME);
+  }
+
+  private async newSession(): Promise<ReplSession | undefined> {
+    const names = new Set(
+      [...this.sessions.values()].map((session) => session.name),
+    );
+    let suggestion = `session-${this.sessions.size + 1}`;
+    for (let i = this.sessions.size + 2; names.has(suggestion); i++) {
+      suggestion = `session-${i}`;
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Name for the new REPL session",
+      value: suggestion,
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return "Session name cannot be empty";
+        }
+        return names.has(value.trim())
+          ? `A session named '${value.trim()}' already exists`
+          : undefined;
+      },
+    });
+    if (!name) {
+      return undefined;
+    }
+    return this.createSession(name.trim());
+  }
+
+  private async selectSession(): Promise<void> {
+    const newSessionItem: vscode.QuickPickItem = {
+      label: "$(add) New Session...",
+    };
+    const sessionItems = [...this.sessions.values()].map((session) => ({
+      label: session.name,
+      description: session.id === this.activeSessionId ? "active" : undefined,
+      session,
+    }));
+
+    const picked = await vscode.window.showQuickPick<vscode.QuickPickItem>(
+      [...sessionItems, newSessionItem],
+      { placeHolder: "Select the REPL session to send code to" },
+    );
+    if (!picked) {
+      return;
+    }
+    if (picked === newSessionItem) {
+      await this.newSession();
+      return;
+    }
+
+    const { session } = picked as (typeof sessionItems)[number];
+    this.setActiveSession(session);
+    session.show();
+  }
+
+  private async createSession(name: string): Promise<ReplSession | undefined> {
     const client = getClient();
     if (!client) {
       vscode.window.showErrorMessage("Groovy Language Server is not ready.");
-      this.statusBar.update(false);
-      return;
+      this.updateStatusBar();
+      return undefined;
     }
 
-    this.replClient = new GroovyReplClient(client);
-
-    if (this.terminal) {
-      this.terminal.show();
-      this.statusBar.update(true);
-      return;
+    const maxSessions = vscode.workspace
+      .getConfiguration("groovy")
+      .get<number>("repl.maxSessions", 10);
+    if (this.sessions.size >= maxSessions) {
+      vscode.window.showWarningMessage(
+        `Cannot open more than ${maxSessions} REPL sessions. Stop a session or raise "groovy.repl.maxSessions".`,
+      );
+      return undefined;
     }
 
-    const pty: vscode.Pseudoterminal = {
-      onDidWrite: this.writeEmitter.event,
-      onDidClose: this.closeEmitter.event,
-      open: () => {
-        this.writeEmitter.fire("Welcome to Groovy REPL\r\n");
-        this.writeEmitter.fire(
-          'Type your code in the editor and use "Send to REPL" commands.\r\n\r\n',
-        );
-      },
-      close: () => {
-        // This is called when the terminal is closed by the user (e.g. clicking the trash icon)
-        this.stop();
+    const id = randomUUID();
+    const session = new ReplSession(
+      id,
+      name,
+      new GroovyReplClient(client, id),
+      this.getHistory(name),
+      {
+        onHistoryChanged: (history) => this.saveHistory(name, history),
+        onClosed: (closed) => this.removeSession(closed),
       },
-      handleInput: (_data: string) => {
-        // Basic input handling if we wanted an interactive shell,
-        // but for now we rely on editor commands.
-      },
-    };
+    );
+    this.sessions.set(id, session);
+    this.setActiveSession(session);
+    session.show();
+    return session;
+  }
 
-    this.terminal = vscode.window.createTerminal({
-      name: "Groovy REPL",
-      pty,
-    });
+  private getHistory(name: string): string[] {
+    return this.getHistories()[name] ?? [];
+  }
 
-    this.terminal.show();
-    this.statusBar.update(true);
+  private saveHistory(name: string, history: string[]): void {
+    const histories = { ...this.getHistories(), [name]: history };
+    void this.workspaceState?.update(HISTORY_STATE_KEY, histories);
+  }
+
+  /**
+   * Stored histories by session name. Before named sessions there was a single
+   * history; it belongs to the default session.
+   */
+  private getHistories(): Record<string, string[]> {
+    const stored = this.workspaceState?.get<
+      Record<string, string[]> | string[]
+    >(HISTORY_STATE_KEY);
+    if (Array.isArray(stored)) {
+      return { [DEFAULT_SESSION_NAME]: stored };
+    }
+    return stored ?? {};
   }
 
   private async sendLine() {
@@ -144,8 +291,8 @@ export class ReplService implements vscode.Disposable {
       return;
     }
 
-    const line = editor.document.lineAt(editor.selection.active.line).text;
-    await this.evaluate(line);
+    const line = editor.document.lineAt(editor.selection.active.line);
+    await this.evaluate(line.text, { editor, range: line.range });
   }
 
   private async sendSelection() {
@@ -159,41 +306,50 @@ export class ReplService implements vscode.Disposable {
       return;
     }
 
-    await this.evaluate(selection);
+    await this.evaluate(selection, { editor, range: editor.selection });
   }
 
-  private async evaluate(code: string) {
-    if (!this.replClient || !this.terminal) {
-      await this.startRepl();
-    }
+  /**
+   * Evaluate code in the active session, starting one if needed.
+   * @param source Where the code came from, for showing the result inline
+   */
+  private async evaluate(
+    code: string,
+    source?: { editor: vscode.TextEditor; range: vscode.Range },
+  ) {
+    const session = this.getActiveSession() ?? (await this.startRepl());
 
-    if (!this.replClient) {
-      // If replClient is still undefined after attempting to start,
-      // it means startRepl() failed (e.g., LSP not ready) and already showed an error.
-      // Log this for clarity and prevent further execution.
+    if (!session) {
+      // startRepl() failed (e.g., LSP not ready) and already showed an error.
       console.error(
-        "REPL client could not be initialized. Evaluation aborted.",
+        "REPL session could not be initialized. Evaluation aborted.",
       );
       return;
     }
 
-    this.writeEmitter.fire(`> ${code.replaceAll("\n", "\r\n> ")}\r\n`);
-
-    try {
-      const result = await this.replClient.evaluate(code);
-      if (result.output) {
-        this.writeEmitter.fire(result.output.replaceAll("\n", "\r\n"));
-      }
-      if (result.result && result.result !== "null") {
-        this.writeEmitter.fire(`<= ${result.result}\r\n`);
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      this.writeEmitter.fire(`Error: ${errorMessage}\r\n`);
+    const outcome = await session.evaluate(code);
+    if (!source || !outcome || !this.inlineResults) {
+      return;
+    }
+    const showInline = vscode.workspace
+      .getConfiguration("groovy")
+      .get<boolean>("repl.inlineResults", false);
+    if (!showInline) {
+      return;
+    }
+    if (outcome.kind === "success") {
+      this.inlineResults.showResult(
+        source.editor,
+        source.range,
+        outcome.result,
+      );
+    } else if (outcome.kind === "error") {
+      this.inlineResults.showError(
+        source.editor,
+        source.range,
+        outcome.message,
+      );
     }
-
-    this.writeEmitter.fire("\r\n");
   }
 }
 
@@ -0,0 +1,216 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ITestExecutionService } from "./ITestExecutionService";
+
+/** Saves within this window are re-run together. */
+const RERUN_DELAY_MS = 300;
+
+/**
+ * Class name of a Groovy source file, which by convention matches the file name.
+ */
+export function classNameOf(filePath: string): string {
+  return path.basename(filePath, path.extname(filePath));
+}
+
+/**
+ * Whether Groovy source mentions a class by its simple name.
+ */
+export function referencesClass(source: string, className: string): boolean {
+  const escaped = className.replace(/[$]/g, "\\$");
+  return new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).test(source);
+}
+
+/**
+ * Narrow affected suites to what a continuous run request asked for:
+ * whole suites, or only the requested tests of a suite.
+ */
+export function selectRequestedItems(
+  suites: readonly vscode.TestItem[],
+  request: Pick<vscode.TestRunRequest, "include" | "exclude">,
+): vscode.TestItem[] {
+  const excluded = new Set((request.exclude ?? []).map((item) => item.id));
+  const included = request.include
+    ? new Set(request.include.map((item) => item.id))
+    : undefined;
+
+  const selected: vscode.TestItem[] = [];
+  for (const suite of suites) {
+    if (excluded.has(suite.id)) {
+      continue;
+    }
+    if (!included || included.has(suite.id)) {
+      selected.push(suite);
+      continue;
+    }
+    suite.children.forEach((child) => {
+      if (included.has(child.id) && !excluded.has(child.id)) {
+        selected.push(child);
+      }
+    });
+  }
+  return selected;
+}
+
+interface ContinuousSession {
+  request: vscode.TestRunRequest;
+  token: vscode.CancellationToken;
+  /** URIs saved since the last run */
+  pending: Map<string, vscode.Uri>;
+  timer?: ReturnType<typeof setTimeout>;
+  running: boolean;
+}
+
+/**
+ * Handles continuous run requests: while a request is active, saving a Groovy file
+ * re-runs the specs it affects - the spec itself, or specs that reference the saved class.
+ */
+export class ContinuousTestRunner implements vscode.Disposable {
+  private readonly sessions = new Set<ContinuousSession>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly ctrl: vscode.TestController,
+    private readonly executionService: ITestExecutionService,
+    /** Refresh discovered suites before a run that follows a test file change */
+    private readonly rediscover: () => Promise<void>,
+    private readonly isTestFile: (uri: vscode.Uri) => boolean,
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument((document) =>
+        this.onDidSave(document),
+      ),
+    );
+  }
+
+  /**
+   * Watch for saves until the request is cancelled.
+   */
+  public watch(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+  ): Promise<void> {
+    const session: ContinuousSession = {
+      request,
+      token,
+      pending: new Map(),
+      running: false,
+    };
+    this.sessions.add(session);
+
+    return new Promise((resolve) => {
+      const stop = () => {
+        clearTimeout(session.timer);
+        this.sessions.delete(session);
+        resolve();
+      };
+      if (token.isCancellationRequested) {
+        stop();
+        return;
+      }
+      const listener = token.onCancellationRequested(() => {
+        listener.dispose();
+        stop();
+      });
+    });
+  }
+
+  public dispose(): void {
+    this.sessions.forEach((session) => clearTimeout(session.timer));
+    this.sessions.clear();
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private onDidSave(document: vscode.TextDocument): void {
+    if (document.languageId !== "groovy") {
+      return;
+    }
+    for (const session of this.sessions) {
+      session.pending.set(document.uri.toString(), document.uri);
+      clearTimeout(session.timer);
+      session.timer = setTimeout(() => {
+        void this.flush(session);
+      }, RERUN_DELAY_MS);
+    }
+  }
+
+  private async flush(session: ContinuousSession): Promise<void> {
+    // Saves made during a run are picked up when it finishes
+    if (session.running || session.pending.size === 0) {
+      return;
+    }
+    const changed = [...session.pending.values()];
+    session.pending.clear();
+    session.running = true;
+
+    try {
+      if (changed.some((uri) => this.isTestFile(uri))) {
+        await this.rediscover();
+      }
+      if (session.token.isCancellationRequested) {
+        return;
+      }
+
+      const affected = await this.findAffectedSuites(changed);
+      const items = selectRequestedItems(affected, session.request);
+      if (items.length === 0) {
+        return;
+      }
+      await this.executionService.runTests(
+        new vscode.TestRunRequest(
+          items,
+          undefined,
+          session.request.profile,
+          true,
+        ),
+        session.token,
+        this.ctrl,
+      );
+    } catch (error) {
+      console.error("[Testing] Continuous run failed:", error);
+    } finally {
+      session.running = false;
+    }
+
+    if (session.pending.size > 0 && !session.token.isCancellationRequested) {
+      await this.flush(session);
+    }
+  }
+
+  private async findAffectedSuites(
+    changed: vscode.Uri[],
+  ): Promise<vscode.TestItem[]> {
+    const changedUris = new Set(changed.map((uri) => uri.toString()));
+    const classNames = changed.map((uri) => classNameOf(uri.fsPath));
+
+    const suites: vscode.TestItem[] = [];
+    this.ctrl.items.forEach((suite) => suites.push(suite));
+
+    const affected: vscode.TestItem[] = [];
+    for (const suite of suites) {
+      if (!suite.uri) {
+        continue;
+      }
+      if (changedUris.has(suite.uri.toString())) {
+        affected.push(suite);
+        continue;
+      }
+      const source = await this.readSource(suite.uri);
+      if (
+        source !== undefined &&
+        classNames.some((name) => referencesClass(source, name))
+      ) {
+        affected.push(suite);
+      }
+    }
+    return affected;
+  }
+
+  private async readSource(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      return Buffer.from(bytes).toString("utf8");
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import * as vscode from "vscode";
+import { EXCLUDED_FILES_GLOB } from "../../utils/globs";
+import {
+  lineCoveragePercent,
+  LineStatus,
+  lineStatus,
+  matchSourceFiles,
+  parseJacocoReport,
+  ReportFileCoverage,
+} from "./JacocoReportParser";
+
+/** URI of the report shown, restored on reload until cleared. */
+export const COVERAGE_REPORT_STATE_KEY = "groovy.coverage.report";
+
+/** Where Gradle and Maven write their JaCoCo XML reports. */
+const REPORTS_GLOB =
+  "**/{build/reports/jacoco,target/site/jacoco,target/site/jacoco-aggregate}/**/*.xml";
+const SOURCES_GLOB = "**/*.{groovy,java,kt}";
+/** Files at or above this line coverage get the "good" color in the explorer. */
+const WELL_COVERED_PERCENT = 80;
+
+const STATUSES: LineStatus[] = ["covered", "partial", "missed"];
+
+/**
+ * Shows the coverage of an existing JaCoCo XML report, e.g. one downloaded
+ * from CI, without running tests: gutter marks and line highlights in
+ * editors, and line coverage per file in the explorer. The report stays
+ * shown, across reloads, until it is cleared.
+ */
+export class CoverageOverlay
+  implements vscode.FileDecorationProvider, vscode.Disposable
+{
+  private readonly decorations: Record<
+    LineStatus,
+    vscode.TextEditorDecorationType
+  >;
+  /** Coverage by file system path */
+  private readonly files = new Map<string, ReportFileCoverage>();
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<
+    vscode.Uri | vscode.Uri[] | undefined
+  >();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChangeFileDecorations = this.onDidChangeEmitter.event;
+
+  constructor(
+    extensionUri: vscode.Uri,
+    private readonly state: vscode.Memento,
+  ) {
+    const icon = (status: LineStatus) =>
+      vscode.Uri.joinPath(
+        extensionUri,
+        "resources",
+        "coverage-icons",
+        `${status}.svg`,
+      );
+    this.decorations = {
+      covered: vscode.window.createTextEditorDecorationType({
+        gutterIconPath: icon("covered"),
+        backgroundColor: new vscode.ThemeColor("testing.coveredBackground"),
+        isWholeLine: true,
+      }),
+      partial: vscode.window.createTextEditorDecorationType({
+        gutterIconPath: icon("partial"),
+        backgroundColor: new vscode.ThemeColor(
+          "testing.uncoveredBranchBackground",
+        ),
+        isWholeLine: true,
+      }),
+      missed: vscode.window.createTextEditorDecorationType({
+        gutterIconPath: icon("missed"),
+        backgroundColor: new vscode.ThemeColor("testing.uncoveredBackground"),
+        overviewRulerColor: new vscode.ThemeColor(
+          "testing.uncoveredGutterBackground",
+        ),
+        isWholeLine: true,
+      }),
+    };
+
+    this.disposables.push(
+      ...Object.values(this.decorations),
+      this.onDidChangeEmitter,
+      vscode.window.registerFileDecorationProvider(this),
+      vscode.window.onDidChangeVisibleTextEditors((editors) =>
+        editors.forEach((editor) => this.apply(editor)),
+      ),
+      vscode.commands.registerCommand(
+        "groovy.coverage.showFromReport",
+        async (uri?: vscode.Uri) => {
+          const report = uri ?? (await this.pickReport());
+          if (report) {
+            await this.load(report);
+          }
+        },
+      ),
+      vscode.commands.registerCommand("groovy.coverage.clear", () =>
+        this.clear(),
+      ),
+    );
+
+    const previous = this.state.get<string>(COVERAGE_REPORT_STATE_KEY);
+    if (previous) {
+      void this.load(vscode.Uri.parse(previous), true);
+    }
+  }
+
+  public provideFileDecoration(
+    uri: vscode.Uri,
+  ): vscode.FileDecoration | undefined {
+    const coverage = this.files.get(uri.fsPath);
+    if (!coverage) {
+      return undefined;
+    }
+    const { summary } = coverage;
+    const percent = lineCoveragePercent(summary);
+    // Badges are at most two characters
+    const badge = percent >= 100 ? "✓" : `${Math.floor(percent)}`;
+    let tooltip = `Line coverage: ${percent.toFixed(1)}% (${summary.linesCovered}/${summary.linesTotal})`;
+    if (summary.branchesTotal > 0) {
+      tooltip += `, branches: ${summary.branchesCovered}/${summary.branchesTotal}`;
+    }
+    return new vscode.FileDecoration(
+      badge,
+      tooltip,
+      new vscode.ThemeColor(
+        percent >= WELL_COVERED_PERCENT
+          ? "testing.iconPassed"
+          : "testing.iconFailed",
+      ),
+    );
+  }
+
+  /**
+   * Show the coverage of a report. When restoring after a reload, a report
+   * that is gone is forgotten quietly.
+   */
+  private async load(report: vscode.Uri, restoring = false): Promise<void> {
+    let coverage: ReportFileCoverage[];
+    try {
+      const xml = new TextDecoder().decode(
+        await vscode.workspace.fs.readFile(report),
+      );
+      coverage = parseJacocoReport(xml);
+    } catch (error) {
+      if (restoring) {
+        await this.state.update(COVERAGE_REPORT_STATE_KEY, undefined);
+      } else {
+        vscode.window.showErrorMessage(
+          `Could not read coverage report: ${error}`,
+        );
+      }
+      return;
+    }
+    if (coverage.length === 0 && !restoring) {
+      vscode.window.showWarningMessage(
+        `${vscode.workspace.asRelativePath(report)} has no line coverage. Is it a JaCoCo XML report?`,
+      );
+      return;
+    }
+
+    const sources = await vscode.workspace.findFiles(
+      SOURCES_GLOB,
+      EXCLUDED_FILES_GLOB,
+    );
+    const matches = matchSourceFiles(
+      coverage.map((file) => file.path),
+      sources.map((uri) => uri.fsPath),
+    );
+    const previous = [...this.files.keys()];
+    this.files.clear();
+    for (const file of coverage) {
+      const match = matches.get(file.path);
+      if (match) {
+        this.files.set(match, file);
+      }
+    }
+
+    await this.state.update(COVERAGE_REPORT_STATE_KEY, report.toString());
+    await vscode.commands.executeCommand(
+      "setContext",
+      "groovy.coverageShown",
+      true,
+    );
+    this.refresh(previous);
+
+    if (!restoring) {
+      const covered = coverage.reduce((n, f) => n + f.summary.linesCovered, 0);
+      const total = coverage.reduce((n, f) => n + f.summary.linesTotal, 0);
+      const percent = total > 0 ? (covered / total) * 100 : 100;
+      const missing = coverage.length - this.files.size;
+      vscode.window.showInformationMessage(
+        `Coverage ${percent.toFixed(1)}% (${covered}/${total} lines) from ${vscode.workspace.asRelativePath(report)}` +
+          (missing > 0
+            ? `; ${missing} files of the report are not in the workspace`
+            : ""),
+      );
+    }
+  }
+
+  private async clear(): Promise<void> {
+    const previous = [...this.files.keys()];
+    this.files.clear();
+    await this.state.update(COVERAGE_REPORT_STATE_KEY, undefined);
+    await vscode.commands.executeCommand(
+      "setContext",
+      "groovy.coverageShown",
+      false,
+    );
+    this.refresh(previous);
+  }
+
+  private refresh(previousPaths: string[]): void {
+    const paths = new Set([...previousPaths, ...this.files.keys()]);
+    this.onDidChangeEmitter.fire([...paths].map((p) => vscode.Uri.file(p)));
+    vscode.window.visibleTextEditors.forEach((editor) => this.apply(editor));
+  }
+
+  private apply(editor: vscode.TextEditor): void {
+    const coverage = this.files.get(editor.document.uri.fsPath);
+    const ranges: Record<LineStatus, vscode.Range[]> = {
+      covered: [],
+      partial: [],
+      missed: [],
+    };
+    for (const line of coverage?.lines ?? []) {
+      // JaCoCo lines are 1-based
+      if (line.line >= 1 && line.line <= editor.document.lineCount) {
+        ranges[lineStatus(line)].push(
+          new vscode.Range(line.line - 1, 0, line.line - 1, 0),
+        );
+      }
+    }
+    for (const status of STATUSES) {
+      editor.setDecorations(this.decorations[status], ranges[status]);
+    }
+  }
+
+  private async pickReport(): Promise<vscode.Uri | undefined> {
+    const reports = await vscode.workspace.findFiles(
+      REPORTS_GLOB,
+      "**/node_modules/**",
+    );
+    const picks: (vscode.QuickPickItem & { uri?: vscode.Uri })[] = reports
+      .map((uri) => ({
+        label: `$(file) ${vscode.workspace.asRelativePath(uri)}`,
+        uri,
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    picks.push({ label: "$(folder-opened) Choose report…" });
+
+    const pick =
+      reports.length > 0
+        ? await vscode.window.showQuickPick(picks, {
+            placeHolder: "Select the JaCoCo XML report to show",
+          })
+        : picks[picks.length - 1];
+    if (!pick) {
+      return undefined;
+    }
+    if (pick.uri) {
+      return pick.uri;
+    }
+    const selection = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: "Show Coverage",
+      filters: { "JaCoCo XML Reports": ["xml"] },
+    });
+    return selection?.[0];
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
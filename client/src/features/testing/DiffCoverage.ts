@@ -0,0 +1,156 @@
+import type { LineCoverage } from "./TestService";
+
+const FILE_HEADER_PATTERN = /^\+\+\+ (?:b\/)?(.*)$/;
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Coverage of the changed lines of one file.
+ */
+export interface DiffFileCoverage {
+  path: string;
+  /** Changed executable lines that ran, 1-based */
+  covered: number[];
+  /** Changed executable lines that did not run, 1-based */
+  uncovered: number[];
+}
+
+export interface DiffCoverageResult {
+  files: DiffFileCoverage[];
+  covered: number;
+  total: number;
+  /** Coverage of changed executable lines; 100 when no such line changed */
+  percent: number;
+}
+
+/**
+ * An inclusive range of 1-based lines.
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Added and modified lines per file of a `git diff --unified=0`, as paths
+ * relative to the repository root and 1-based lines of the new version.
+ * Deleted files have no lines left and are left out.
+ */
+export function parseChangedLines(diff: string): Map<string, number[]> {
+  const changed = new Map<string, number[]>();
+  let lines: number[] | undefined;
+  for (const text of diff.split(/\r?\n/)) {
+    const file = FILE_HEADER_PATTERN.exec(text);
+    if (file) {
+      lines = undefined;
+      if (file[1] !== "/dev/null") {
+        lines = changed.get(file[1]) ?? [];
+        changed.set(file[1], lines);
+      }
+      continue;
+    }
+    const hunk = HUNK_HEADER_PATTERN.exec(text);
+    if (hunk && lines) {
+      // A count of 0 is a pure deletion; no count means one line
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      for (let line = start; line < start + count; line++) {
+        lines.push(line);
+      }
+    }
+  }
+  for (const [path, fileLines] of changed) {
+    if (fileLines.length === 0) {
+      changed.delete(path);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Add the untracked files of a `git ls-files --others -z` listing to the
+ * changed lines. `git diff` leaves out new files until they are added, yet
+ * every line of them is new: all their lines in the coverage report count.
+ */
+export function addUntrackedFiles(
+  changed: Map<string, number[]>,
+  listing: string,
+  coverage: Map<string, LineCoverage[]>,
+): Map<string, number[]> {
+  const result = new Map(changed);
+  for (const file of listing.split("\0")) {
+    const lines = coverage.get(file);
+    if (file !== "" && lines && !result.has(file)) {
+      result.set(
+        file,
+        lines.map((line) => line.line),
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Coverage of the changed lines. Lines the coverage report does not list
+ * (blank lines, comments, declarations) are not executable and do not count,
+ * and neither do files without coverage, such as tests and build scripts.
+ */
+export function computeDiffCoverage(
+  changed: Map<string, number[]>,
+  coverage: Map<string, LineCoverage[]>,
+): DiffCoverageResult {
+  const files: DiffFileCoverage[] = [];
+  let covered = 0;
+  let total = 0;
+  for (const [path, lines] of changed) {
+    const fileCoverage = coverage.get(path);
+    if (!fileCoverage) {
+      continue;
+    }
+    const byLine = new Map(fileCoverage.map((line) => [line.line, line]));
+    const file: DiffFileCoverage = { path, covered: [], uncovered: [] };
+    for (const line of lines) {
+      const lineCoverage = byLine.get(line);
+      if (lineCoverage) {
+        (lineCoverage.covered ? file.covered : file.uncovered).push(line);
+      }
+    }
+    if (file.covered.length + file.uncovered.length > 0) {
+      files.push(file);
+      covered += file.covered.length;
+      total += file.covered.length + file.uncovered.length;
+    }
+  }
+  return {
+    files,
+    covered,
+    total,
+    percent: total > 0 ? (covered / total) * 100 : 100,
+  };
+}
+
+/**
+ * Whether the changed lines are covered well enough. Without a threshold
+ * there is no gate to fail.
+ */
+export function passesGate(
+  result: DiffCoverageResult,
+  threshold: number | undefined,
+): boolean {
+  return threshold === undefined || result.percent >= threshold;
+}
+
+/**
+ * Consecutive lines merged into ranges: [3, 4, 5, 9] -> 3-5, 9-9.
+ */
+export function toLineRanges(lines: number[]): LineRange[] {
+  const ranges: LineRange[] = [];
+  for (const line of [...lines].sort((a, b) => a - b)) {
+    const last = ranges[ranges.length - 1];
+    if (last && line <= last.end + 1) {
+      last.end = Math.max(last.end, line);
+    } else {
+      ranges.push({ start: line, end: line });
+    }
+  }
+  return ranges;
+}
@@ -0,0 +1,237 @@
+import * as cp from "child_process";
+import * as path from "path";
+import { promisify } from "util";
+import * as vscode from "vscode";
+import {
+  addUntrackedFiles,
+  computeDiffCoverage,
+  DiffCoverageResult,
+  parseChangedLines,
+  passesGate,
+} from "./DiffCoverage";
+import { LineCoverage, TestService } from "./TestService";
+
+/** Base branch picked for the workspace; overrides `groovy.coverage.diff.baseBranch`. */
+export const DIFF_BASE_STATE_KEY = "groovy.coverage.diffBase";
+
+const execFile = promisify(cp.execFile);
+
+/**
+ * Diff coverage of a repository, with the base it was computed against.
+ */
+export interface DiffCoverageReport extends DiffCoverageResult {
+  /** Repository root; file paths of the result are relative to it */
+  root: string;
+  base: string;
+  threshold?: number;
+  passed: boolean;
+}
+
+/**
+ * Coverage of the lines changed since a base branch: the coverage the
+ * language server read from JaCoCo reports (groovy/getCoverage), restricted
+ * to the lines `git diff` reports as added or modified, uncommitted changes
+ * and untracked files included. Optionally gates on a minimum percentage.
+ */
+export class DiffCoverageService implements vscode.Disposable {
+  private report: DiffCoverageReport | undefined;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  /** Fired after diff coverage is computed. */
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly testService: TestService,
+    private readonly state: vscode.Memento,
+    private readonly logger: vscode.OutputChannel,
+  ) {}
+
+  public getReport(): DiffCoverageReport | undefined {
+    return this.report;
+  }
+
+  /**
+   * Compute diff coverage against the configured (or picked) base branch.
+   * Returns undefined when there is nothing to compare or the user cancels.
+   */
+  public async compute(): Promise<DiffCoverageReport | undefined> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      vscode.window.showErrorMessage("Open a folder to compute diff coverage.");
+      return undefined;
+    }
+
+    let root: string;
+    try {
+      root = (
+        await this.git(folder.uri.fsPath, ["rev-parse", "--show-toplevel"])
+      ).trim();
+    } catch {
+      vscode.window.showErrorMessage(
+        `${folder.name} is not in a git repository.`,
+      );
+      return undefined;
+    }
+    const base = await this.getBase();
+    if (!base) {
+      return undefined;
+    }
+
+    try {
+      const mergeBase = (
+        await this.git(root, ["merge-base", base, "HEAD"])
+      ).trim();
+      const diff = await this.git(root, [
+        "diff",
+        "--unified=0",
+        "--no-color",
+        "--no-ext-diff",
+        "--src-prefix=a/",
+        "--dst-prefix=b/",
+        mergeBase,
+      ]);
+      const untracked = await this.git(root, [
+        "ls-files",
+        "--others",
+        "--exclude-standard",
+        "-z",
+      ]);
+      const coverage = await this.getCoverage(root);
+      const changed = addUntrackedFiles(
+        parseChangedLines(diff),
+        untracked,
+        coverage,
+      );
+      const threshold = this.getThreshold();
+      const result = computeDiffCoverage(changed, coverage);
+
+      this.report = {
+        ...result,
+        root,
+        base,
+        threshold,
+        passed: passesGate(result, threshold),
+      };
+      this.logger.appendLine(
+        `[COVERAGE] Diff coverage against ${base}: ${result.percent.toFixed(1)}% ` +
+          `(${result.covered}/${result.total} changed lines in ${result.files.length} files)`,
+      );
+      this.changeEmitter.fire();
+      return this.report;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Could not compute diff coverage against ${base}: ${error}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Compute diff coverage, reveal it in the view and report the gate.
+   * Resolves to the summary so tasks and other extensions can act on it.
+   */
+  public async show(): Promise<
+    | Pick<DiffCoverageReport, "percent" | "covered" | "total" | "passed">
+    | undefined
+  > {
+    const report = await this.compute();
+    if (!report) {
+      return undefined;
+    }
+    await vscode.commands.executeCommand("groovyDiffCoverage.focus");
+
+    const summary = `${report.percent.toFixed(1)}% of changed lines covered (${report.covered}/${report.total}) since ${report.base}`;
+    if (!report.passed) {
+      vscode.window.showErrorMessage(
+        `Diff coverage gate failed: ${summary}, ${report.threshold}% required.`,
+      );
+    } else {
+      vscode.window.showInformationMessage(summary);
+    }
+    const { percent, covered, total, passed } = report;
+    return { percent, covered, total, passed };
+  }
+
+  /**
+   * Pick the base branch to compare against and remember it.
+   */
+  public async chooseBase(): Promise<string | undefined> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      return undefined;
+    }
+    const branches = (
+      await this.git(folder.uri.fsPath, [
+        "for-each-ref",
+        "--format=%(refname:short)",
+        "refs/heads",
+        "refs/remotes",
+      ]).catch(() => "")
+    )
+      .split(/\r?\n/)
+      .filter((branch) => branch !== "" && !branch.endsWith("/HEAD"));
+    const current = this.state.get<string>(DIFF_BASE_STATE_KEY);
+    const base = await vscode.window.showQuickPick(
+      branches.map((branch) => ({
+        label: branch,
+        description: branch === current ? "current base" : undefined,
+      })),
+      { placeHolder: "Base branch for diff coverage" },
+    );
+    if (base) {
+      await this.state.update(DIFF_BASE_STATE_KEY, base.label);
+    }
+    return base?.label;
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  private async getBase(): Promise<string | undefined> {
+    // A base picked in this workspace wins over the shared setting
+    const remembered = this.state.get<string>(DIFF_BASE_STATE_KEY);
+    const configured = vscode.workspace
+      .getConfiguration("groovy")
+      .get<string>("coverage.diff.baseBranch", "")
+      .trim();
+    return remembered || configured || this.chooseBase();
+  }
+
+  private getThreshold(): number | undefined {
+    const threshold = vscode.workspace
+      .getConfiguration("groovy")
+      .get<number | null>("coverage.diff.threshold", null);
+    return typeof threshold === "number" ? threshold : undefined;
+  }
+
+  /**
+   * Line coverage of every workspace folder, keyed by path relative to `root`.
+   */
+  private async getCoverage(
+    root: string,
+  ): Promise<Map<string, LineCoverage[]>> {
+    const coverage = new Map<string, LineCoverage[]>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const response = await this.testService.getCoverage(
+        folder.uri.toString(),
+      );
+      for (const file of response.files) {
+        const relative = path
+          .relative(root, vscode.Uri.parse(file.uri).fsPath)
+          .split(path.sep)
+          .join("/");
+        coverage.set(relative, file.lines);
+      }
+    }
+    return coverage;
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFile("git", args, {
+      cwd,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  }
+}
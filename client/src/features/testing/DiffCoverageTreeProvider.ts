@@ -0,0 +1,138 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DiffFileCoverage, LineRange, toLineRanges } from "./DiffCoverage";
+import { DiffCoverageReport, DiffCoverageService } from "./DiffCoverageService";
+
+/**
+ * Coverage of all changed lines, and the coverage gate if one is configured.
+ */
+export class DiffCoverageSummaryItem extends vscode.TreeItem {
+  constructor(report: DiffCoverageReport) {
+    super(
+      `${report.percent.toFixed(1)}% of changed lines covered`,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    this.description = `${report.covered}/${report.total} since ${report.base}`;
+    this.contextValue = "diffCoverageSummary";
+    if (report.threshold === undefined) {
+      this.iconPath = new vscode.ThemeIcon("git-compare");
+      this.tooltip = `Coverage of the lines added or modified since ${report.base}`;
+    } else {
+      this.iconPath = report.passed
+        ? new vscode.ThemeIcon(
+            "testing-passed-icon",
+            new vscode.ThemeColor("testing.iconPassed"),
+          )
+        : new vscode.ThemeIcon(
+            "testing-failed-icon",
+            new vscode.ThemeColor("testing.iconFailed"),
+          );
+      this.tooltip = `Coverage gate ${report.passed ? "passed" : "failed"}: ${report.threshold}% of changed lines required`;
+    }
+  }
+}
+
+/**
+ * A changed file with uncovered changed lines; its children are the lines.
+ */
+export class DiffCoverageFileItem extends vscode.TreeItem {
+  public readonly uri: vscode.Uri;
+
+  constructor(
+    root: string,
+    public readonly file: DiffFileCoverage,
+  ) {
+    super(path.basename(file.path), vscode.TreeItemCollapsibleState.Collapsed);
+    this.uri = vscode.Uri.file(path.join(root, file.path));
+    this.resourceUri = this.uri;
+    const total = file.covered.length + file.uncovered.length;
+    this.description = `${file.uncovered.length} of ${total} changed lines uncovered`;
+    this.tooltip = file.path;
+    this.contextValue = "diffCoverageFile";
+  }
+}
+
+/**
+ * Consecutive uncovered changed lines of a file.
+ */
+export class DiffCoverageLineItem extends vscode.TreeItem {
+  constructor(uri: vscode.Uri, range: LineRange) {
+    super(
+      range.start === range.end
+        ? `Line ${range.start}`
+        : `Lines ${range.start}–${range.end}`,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    this.iconPath = new vscode.ThemeIcon(
+      "circle-filled",
+      new vscode.ThemeColor("testing.iconFailed"),
+    );
+    this.contextValue = "diffCoverageLines";
+    this.command = {
+      command: "vscode.open",
+      title: "Open Line",
+      arguments: [
+        uri,
+        {
+          selection: new vscode.Range(range.start - 1, 0, range.end - 1, 0),
+        },
+      ],
+    };
+  }
+}
+
+type DiffCoverageTreeItem =
+  | DiffCoverageSummaryItem
+  | DiffCoverageFileItem
+  | DiffCoverageLineItem;
+
+/**
+ * Provides the Groovy Diff Coverage view: the summary, then the files with
+ * the most uncovered changed lines.
+ */
+export class DiffCoverageTreeProvider
+  implements vscode.TreeDataProvider<DiffCoverageTreeItem>, vscode.Disposable
+{
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly service: DiffCoverageService) {
+    this.subscription = service.onDidChange(() =>
+      this._onDidChangeTreeData.fire(),
+    );
+  }
+
+  getTreeItem(element: DiffCoverageTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: DiffCoverageTreeItem): DiffCoverageTreeItem[] {
+    if (element instanceof DiffCoverageFileItem) {
+      return toLineRanges(element.file.uncovered).map(
+        (range) => new DiffCoverageLineItem(element.uri, range),
+      );
+    }
+    const report = this.service.getReport();
+    if (element || !report) {
+      return [];
+    }
+
+    return [
+      new DiffCoverageSummaryItem(report),
+      ...report.files
+        .filter((file) => file.uncovered.length > 0)
+        .sort(
+          (a, b) =>
+            b.uncovered.length - a.uncovered.length ||
+            a.path.localeCompare(b.path),
+        )
+        .map((file) => new DiffCoverageFileItem(report.root, file)),
+    ];
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Expected and actual values extracted from an assertion failure.
+ */
+export interface ExpectedActual {
+  expected: string;
+  actual: string;
+}
+
+/**
+ * A frame of a JVM stack trace.
+ */
+export interface StackFrameInfo {
+  className: string;
+  methodName: string;
+  fileName?: string;
+  /** One-based line number */
+  line?: number;
+}
+
+/** JUnit 4 ComparisonFailure and JUnit 5 / opentest4j messages. */
+const JUNIT_PATTERN = /expected:\s?<([\s\S]*)> but was:\s?<([\s\S]*)>/;
+
+/** AssertJ and other "expected: x / but was: y" messages. */
+const EXPECTED_BUT_WAS_PATTERN =
+  /^\s*expected:\s*(.*)\r?\n\s*but was:\s*(.*)$/im;
+
+/** Hamcrest assertThat mismatches. */
+const HAMCREST_PATTERN = /Expected:\s*(.*)\r?\n\s*but:\s*(?:was\s+)?(.*)/;
+
+/**
+ * A frame as printed by Throwable.printStackTrace ("at a.B.m(B.java:1)") or
+ * StackTraceElement.toString(), including module and class loader prefixes.
+ */
+const FRAME_PATTERN =
+  /^\s*(?:at\s+)?(?:[^\s/(]*\/)*((?:[\w$]+\.)*[\w$]+)\.([\w$<>-]+)\(([^:()]*)(?::(\d+))?\)/;
+
+/**
+ * Extract expected and actual values from a Spock power assertion, a JUnit
+ * comparison failure or a Hamcrest mismatch description.
+ */
+export function parseExpectedActual(
+  message: string,
+): ExpectedActual | undefined {
+  const spock = parsePowerAssertion(message);
+  if (spock) {
+    return spock;
+  }
+  for (const pattern of [JUNIT_PATTERN, EXPECTED_BUT_WAS_PATTERN]) {
+    const match = pattern.exec(message);
+    if (match) {
+      return { expected: match[1], actual: match[2] };
+    }
+  }
+  const hamcrest = HAMCREST_PATTERN.exec(message);
+  if (hamcrest) {
+    return { expected: hamcrest[1].trim(), actual: hamcrest[2].trim() };
+  }
+  return undefined;
+}
+
+/**
+ * Parse the frames of a stack trace, skipping "Caused by" and "... n more" lines.
+ */
+export function parseStackTrace(stackTrace: string): StackFrameInfo[] {
+  const frames: StackFrameInfo[] = [];
+  for (const line of stackTrace.split(/\r?\n/)) {
+    const match = FRAME_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+    const [, className, methodName, fileName, lineNumber] = match;
+    frames.push({
+      className,
+      methodName,
+      fileName: fileName && fileName.includes(".") ? fileName : undefined,
+      line: lineNumber ? Number(lineNumber) : undefined,
+    });
+  }
+  return frames;
+}
+
+/**
+ * Read the operands of a failed `==` condition from Spock's power assertion rendering:
+ *
+ *     Condition not satisfied:
+ *
+ *     person.name == "Bob"
+ *     |      |    |
+ *     |      Alice false
+ *     Person@1a2b
+ *
+ * Each value is printed under the column of the expression it belongs to.
+ * The left operand is taken as the actual value, the right one as expected;
+ * operands without a rendered value (literals) use their source text.
+ */
+function parsePowerAssertion(message: string): ExpectedActual | undefined {
+  const lines = message.split(/\r?\n/);
+  const start = lines.findIndex(
+    (line) => line.trim() === "Condition not satisfied:",
+  );
+  if (start < 0) {
+    return undefined;
+  }
+  let index = start + 1;
+  while (index < lines.length && lines[index].trim() === "") {
+    index++;
+  }
+  const expression = lines[index];
+  if (expression === undefined) {
+    return undefined;
+  }
+  const rows: string[] = [];
+  for (index++; index < lines.length && lines[index].trim() !== ""; index++) {
+    rows.push(lines[index]);
+  }
+
+  const operator = findTopLevelEquals(expression);
+  if (operator < 0 || rows.length === 0) {
+    return undefined;
+  }
+
+  const anchors = [...rows[0]]
+    .map((char, column) => (char === "|" ? column : -1))
+    .filter((column) => column >= 0);
+  const leftText = expression.slice(0, operator);
+  const rightText = expression.slice(operator + 2);
+  const leftStart = leftText.length - leftText.trimStart().length;
+  const rightStart =
+    operator + 2 + (rightText.length - rightText.trimStart().length);
+
+  const actual =
+    valueAt(rows, anchors, outermostColumn(expression, leftStart, operator)) ??
+    literalText(leftText);
+  const expected =
+    valueAt(
+      rows,
+      anchors,
+      outermostColumn(expression, rightStart, expression.length),
+    ) ?? literalText(rightText);
+  return { expected, actual };
+}
+
+/**
+ * Index of a `==` that is not nested in brackets or strings, or -1.
+ */
+function findTopLevelEquals(expression: string): number {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    } else if (
+      depth === 0 &&
+      expression.startsWith("==", i) &&
+      !"=!<>".includes(expression[i - 1] ?? "") &&
+      expression[i + 2] !== "="
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Column where Spock prints the value of an operand: the last top-level
+ * property or method in a chain (`a.b(c).d` -> `d`), or the operand start.
+ */
+function outermostColumn(expression: string, start: number, end: number) {
+  let column = start;
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = start; i < end; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    } else if (depth === 0 && char === "." && /[\w$]/.test(expression[i + 1])) {
+      column = i + 1;
+    }
+  }
+  return column;
+}
+
+/**
+ * The value printed at a column, if any. A value runs until the next value
+ * that starts at another anchor column.
+ */
+function valueAt(
+  rows: string[],
+  anchors: number[],
+  column: number,
+): string | undefined {
+  for (const row of rows) {
+    const char = row[column];
+    if (char === undefined || char === " " || char === "|") {
+      continue;
+    }
+    if (column > 0 && row[column - 1] !== " ") {
+      // Part of a value that starts further left
+      continue;
+    }
+    const next = anchors.find(
+      (anchor) =>
+        anchor > column &&
+        row[anchor - 1] === " " &&
+        row[anchor] !== undefined &&
+        row[anchor] !== " ",
+    );
+    return row.slice(column, next).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Source text of a literal operand, without the quotes of a string literal.
+ */
+function literalText(text: string): string {
+  const trimmed = text.trim();
+  const quoted = /^(["'])([\s\S]*)\1$/.exec(trimmed);
+  return quoted ? quoted[2] : trimmed;
+}
@@ -5,6 +5,7 @@ import * as path from "path";
 import * as readline from "readline";
 import { TestEventConsumer } from "./TestEventConsumer";
 import { CoverageService } from "./CoverageService";
+import { unscopedTestId } from "./TestItemId";
 
 export class GradleExecutionService {
   private readonly initScriptPath: string;
@@ -40,7 +41,7 @@ export class GradleExecutionService {
     // Register all requested tests with the consumer
     const testsToRun = request.include ?? [];
     for (const item of testsToRun) {
-      consumer.registerTestItem(item.id, item);
+      consumer.registerTestItem(unscopedTestId(item.id), item);
       run.enqueued(item);
     }
 
@@ -79,7 +80,7 @@ export class GradleExecutionService {
     // Register all requested tests with the consumer
     const testsToRun = request.include ?? [];
     for (const item of testsToRun) {
-      consumer.registerTestItem(item.id, item);
+      consumer.registerTestItem(unscopedTestId(item.id), item);
       run.enqueued(item);
     }
 
@@ -104,6 +105,7 @@ export class GradleExecutionService {
   public async debugTests(
     _request: vscode.TestRunRequest,
     _token: vscode.CancellationToken,
+    _testController: vscode.TestController,
   ): Promise<void> {
     this.logger.appendLine(
       "GradleExecutionService: debugTests requested (not implemented)",
@@ -117,7 +119,7 @@ export class GradleExecutionService {
 
     for (const item of testsToRun) {
       // item.id could be "com.example.MySpec" (suite) or "com.example.MySpec.testMethod" (test)
-      filters.push("--tests", item.id);
+      filters.push("--tests", unscopedTestId(item.id));
     }
 
     return filters;
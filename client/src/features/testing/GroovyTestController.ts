@@ -1,17 +1,56 @@
+import * as fs from "fs";
 import * as vscode from "vscode";
 import { ITestExecutionService } from "./ITestExecutionService";
 import { TestService, TestSuite, Test } from "./TestService";
 import { CoverageService } from "./CoverageService";
+import { suiteItemId, unscopedTestId } from "./TestItemId";
+import { ContinuousTestRunner } from "./ContinuousTestRunner";
+import { TestHistoryService } from "./TestHistoryService";
+import { applyTestResult } from "./TestEventConsumer";
+import { matchReportResults } from "./JUnitReportParser";
+import { pickTestReports } from "./TestReportLoader";
+import { readTestProfiles } from "./TestProfiles";
+import {
+  findClassDeclaration,
+  readAnnotations,
+  SkipKind,
+  TestAnnotations,
+} from "./TestAnnotationParser";
 
 /**
  * Tag for runnable test items - enables native Test Explorer play buttons.
  */
 export const runnableTag = new vscode.TestTag("runnable");
 
+/**
+ * Tags for specs and features that are skipped or run differently, usable in
+ * the Test Explorer filter (e.g. "@groovy-test-controller:pending").
+ */
+const skipTags: Record<SkipKind, vscode.TestTag> = {
+  ignored: new vscode.TestTag("ignored"),
+  pending: new vscode.TestTag("pending"),
+  conditional: new vscode.TestTag("conditional"),
+};
+const stepwiseTag = new vscode.TestTag("stepwise");
+
+/**
+ * Tag for a @Tag/@Category name. The `tag:` prefix keeps user tags apart from
+ * the tags above, e.g. a @Tag("pending") from @PendingFeature.
+ */
+function userTag(name: string): vscode.TestTag {
+  return new vscode.TestTag(`tag:${name}`);
+}
+
 /**
  * Codicon labels for test items in Test Explorer.
  */
-function getCodiconLabel(kind: "suite" | "test"): string {
+function getCodiconLabel(kind: "suite" | "test", skip?: SkipKind): string {
+  if (skip === "ignored") {
+    return "$(circle-slash)";
+  }
+  if (skip === "pending") {
+    return "$(watch)";
+  }
   return kind === "suite" ? "$(symbol-class)" : "$(symbol-method)";
 }
 
@@ -22,6 +61,8 @@ interface TestItemMetadata {
   kind: "suite" | "test";
   suiteName: string;
   line?: number;
+  /** Tags from @Tag/@Category, for a suite including those of its tests */
+  tags?: string[];
 }
 
 /** Cache for test item metadata. */
@@ -30,6 +71,11 @@ const dataCache = new WeakMap<vscode.TestItem, TestItemMetadata>();
 export class GroovyTestController {
   private readonly ctrl: vscode.TestController;
   private readonly subscriptions: vscode.Disposable[] = [];
+  private readonly continuousRunner: ContinuousTestRunner;
+  /** Run profiles created from the groovy.test.profiles setting */
+  private customRunProfiles: vscode.TestRunProfile[] = [];
+  /** "Run only @tag" profiles, one per tag found in the discovered specs */
+  private readonly tagRunProfiles = new Map<string, vscode.TestRunProfile>();
 
   constructor(
     context: vscode.ExtensionContext,
@@ -37,6 +83,7 @@ export class GroovyTestController {
     private readonly executionService: ITestExecutionService,
     private readonly testService?: TestService,
     private readonly coverageService?: CoverageService,
+    private readonly history?: TestHistoryService,
   ) {
     this.ctrl = vscode.tests.createTestController(
       "groovy-test-controller",
@@ -44,6 +91,14 @@ export class GroovyTestController {
     );
     context.subscriptions.push(this.ctrl);
 
+    this.continuousRunner = new ContinuousTestRunner(
+      this.ctrl,
+      this.executionService,
+      () => this.discoverTests(),
+      (uri) => this.isTestFile(uri),
+    );
+    this.subscriptions.push(this.continuousRunner);
+
     this.setupRunProfiles();
     this.setupResolveHandler();
     this.setupFileWatchers();
@@ -155,6 +210,12 @@ export class GroovyTestController {
       vscode.commands.registerCommand("groovy.test.runCurrentFile", () =>
         this.runCurrentFileTests(),
       ),
+      vscode.commands.registerCommand("groovy.test.rerunFailed", () =>
+        this.rerunFailedTests(),
+      ),
+      vscode.commands.registerCommand("groovy.test.loadReports", () =>
+        this.loadTestReports(),
+      ),
     );
   }
 
@@ -217,19 +278,148 @@ export class GroovyTestController {
     }
   }
 
+  /**
+   * Rerun the tests whose last recorded run failed, including runs from before a reload.
+   */
+  private async rerunFailedTests(): Promise<void> {
+    const failing = this.history?.getFailingTests() ?? [];
+    if (failing.length === 0) {
+      vscode.window.showInformationMessage("No failed tests to rerun");
+      return;
+    }
+
+    await this.discoverTests();
+
+    // Dynamic items (e.g. @Unroll iterations) only exist after a run, so fall back to their parent
+    const items = new Map<string, vscode.TestItem>();
+    for (const record of failing) {
+      const item =
+        this.findItemById(record.id) ??
+        (record.parentId ? this.findItemById(record.parentId) : undefined);
+      if (item) {
+        items.set(item.id, item);
+      }
+    }
+    // Running a parent already runs its children
+    const toRun = [...items.values()].filter((item) => {
+      for (let p = item.parent; p; p = p.parent) {
+        if (items.has(p.id)) {
+          return false;
+        }
+      }
+      return true;
+    });
+
+    if (toRun.length === 0) {
+      vscode.window.showWarningMessage(
+        "The failed tests were not found in the Test Explorer",
+      );
+      return;
+    }
+
+    const request = new vscode.TestRunRequest(toRun);
+    const tokenSource = new vscode.CancellationTokenSource();
+    try {
+      await this.executionService.runTests(
+        request,
+        tokenSource.token,
+        this.ctrl,
+      );
+    } finally {
+      tokenSource.dispose();
+    }
+  }
+
+  /**
+   * Show the results of JUnit XML reports (local or from CI) on the discovered
+   * test items without running anything.
+   */
+  private async loadTestReports(): Promise<void> {
+    const results = await pickTestReports();
+    if (!results) {
+      return;
+    }
+    if (results.length === 0) {
+      vscode.window.showWarningMessage(
+        "No test results found in the selected reports",
+      );
+      return;
+    }
+
+    await this.discoverTests();
+
+    // Reports name tests by class, so every copy of a class gets its results
+    const items = new Map<string, vscode.TestItem[]>();
+    const collect = (collection: vscode.TestItemCollection) => {
+      collection.forEach((item) => {
+        const id = unscopedTestId(item.id);
+        items.set(id, [...(items.get(id) ?? []), item]);
+        collect(item.children);
+      });
+    };
+    collect(this.ctrl.items);
+
+    const matched = matchReportResults(results, items.keys());
+    if (matched.size === 0) {
+      vscode.window.showWarningMessage(
+        "None of the reported tests were found in the Test Explorer",
+      );
+      return;
+    }
+
+    const run = this.ctrl.createTestRun(
+      new vscode.TestRunRequest(),
+      "Test Reports",
+      false,
+    );
+    for (const [id, result] of matched) {
+      for (const item of items.get(id) ?? []) {
+        applyTestResult(run, item, result);
+      }
+    }
+    run.end();
+    vscode.window.showInformationMessage(
+      `Loaded results for ${matched.size} tests from ${results.length} reported test cases`,
+    );
+  }
+
+  private findItemById(id: string): vscode.TestItem | undefined {
+    let found: vscode.TestItem | undefined;
+    const search = (collection: vscode.TestItemCollection) => {
+      collection.forEach((item) => {
+        if (found) {
+          return;
+        }
+        if (item.id === id) {
+          found = item;
+        } else {
+          search(item.children);
+        }
+      });
+    };
+    search(this.ctrl.items);
+    return found;
+  }
+
   private setupRunProfiles() {
+    // Continuous runs re-run affected specs whenever a Groovy file is saved
     this.ctrl.createRunProfile(
       "Run",
       vscode.TestRunProfileKind.Run,
       (request, token) =>
-        this.executionService.runTests(request, token, this.ctrl),
+        request.continuous
+          ? this.continuousRunner.watch(request, token)
+          : this.executionService.runTests(request, token, this.ctrl),
+      true,
+      undefined,
       true,
     );
 
     this.ctrl.createRunProfile(
       "Debug",
       vscode.TestRunProfileKind.Debug,
-      (request, token) => this.executionService.debugTests(request, token),
+      (request, token) =>
+        this.executionService.debugTests(request, token, this.ctrl),
       false,
     );
 
@@ -248,6 +438,120 @@ export class GroovyTestController {
         false,
       );
     }
+
+    this.createCustomRunProfiles();
+    this.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("groovy.test.profiles")) {
+          this.createCustomRunProfiles();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Offer each user-defined profile (JVM args, system properties, env, build
+   * arguments) as an extra Run and Debug profile in the Test Explorer.
+   */
+  private createCustomRunProfiles(): void {
+    this.customRunProfiles.forEach((profile) => profile.dispose());
+    const profiles = readTestProfiles(
+      vscode.workspace.getConfiguration("groovy").get("test.profiles"),
+    );
+    this.customRunProfiles = profiles.flatMap((profile) => [
+      this.ctrl.createRunProfile(
+        profile.name,
+        vscode.TestRunProfileKind.Run,
+        (request, token) =>
+          this.executionService.runTests(request, token, this.ctrl, profile),
+        false,
+      ),
+      this.ctrl.createRunProfile(
+        profile.name,
+        vscode.TestRunProfileKind.Debug,
+        (request, token) =>
+          this.executionService.debugTests(request, token, this.ctrl, profile),
+        false,
+      ),
+    ]);
+  }
+
+  /**
+   * Keep one "Run only @tag" profile per tag of the discovered tests.
+   */
+  private updateTagRunProfiles(tags: Set<string>): void {
+    for (const [tag, profile] of this.tagRunProfiles) {
+      if (!tags.has(tag)) {
+        profile.dispose();
+        this.tagRunProfiles.delete(tag);
+      }
+    }
+    for (const tag of [...tags].sort()) {
+      if (this.tagRunProfiles.has(tag)) {
+        continue;
+      }
+      const testTag = userTag(tag);
+      this.tagRunProfiles.set(
+        tag,
+        this.ctrl.createRunProfile(
+          `Run only @${tag}`,
+          vscode.TestRunProfileKind.Run,
+          async (request, token) => {
+            const include = this.collectTaggedItems(request, tag);
+            if (include.length > 0) {
+              await this.executionService.runTests(
+                new vscode.TestRunRequest(
+                  include,
+                  request.exclude,
+                  request.profile,
+                ),
+                token,
+                this.ctrl,
+              );
+            }
+          },
+          false,
+          testTag,
+        ),
+      );
+    }
+  }
+
+  /**
+   * The requested items that carry the tag. A spec also carries the tags of
+   * its features, so it only runs as a whole when every feature is tagged.
+   */
+  private collectTaggedItems(
+    request: vscode.TestRunRequest,
+    tag: string,
+  ): vscode.TestItem[] {
+    const excluded = new Set(request.exclude?.map((item) => item.id));
+    const tagId = userTag(tag).id;
+    const hasTag = (item: vscode.TestItem) =>
+      item.tags.some((t) => t.id === tagId);
+    const include: vscode.TestItem[] = [];
+    const visit = (item: vscode.TestItem) => {
+      if (excluded.has(item.id) || !hasTag(item)) {
+        return;
+      }
+      let partial = false;
+      if (dataCache.get(item)?.kind === "suite") {
+        item.children.forEach((child) => {
+          partial ||= !hasTag(child);
+        });
+      }
+      if (partial) {
+        item.children.forEach(visit);
+      } else {
+        include.push(item);
+      }
+    };
+    if (request.include) {
+      request.include.forEach(visit);
+    } else {
+      this.ctrl.items.forEach(visit);
+    }
+    return include;
   }
 
   private setupResolveHandler() {
@@ -280,58 +584,138 @@ export class GroovyTestController {
       return;
     }
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    if (workspaceFolders.length === 0) {
       return;
     }
 
-    try {
-      const suites = await this.testService.discoverTestsInWorkspace(
-        workspaceFolder.uri.toString(),
-      );
+    // Discover in every folder of a multi-root workspace; one failing folder
+    // must not hide the tests of the others
+    const testService = this.testService;
+    const results = await Promise.all(
+      workspaceFolders.map(async (folder) => {
+        try {
+          return await testService.discoverTestsInWorkspace(
+            folder.uri.toString(),
+          );
+        } catch (error) {
+          console.error(`Failed to discover tests in ${folder.name}:`, error);
+          return undefined;
+        }
+      }),
+    );
+    if (results.every((suites) => suites === undefined)) {
+      return;
+    }
 
-      // Clear existing items
-      this.ctrl.items.replace([]);
+    // Annotations (tags, @Ignore, ...) are read from the spec sources
+    const suites = results.flatMap((suites) => suites ?? []);
+    const sources = new Map<string, string | undefined>();
+    await Promise.all(
+      [...new Set(suites.map((suite) => suite.uri))].map(async (uri) => {
+        sources.set(uri, await this.readSource(uri));
+      }),
+    );
 
-      // Map suites to TestItems
-      for (const suite of suites) {
-        const suiteItem = this.createSuiteItem(suite);
-        this.ctrl.items.add(suiteItem);
-      }
-    } catch (error) {
-      console.error("Failed to discover tests:", error);
+    // Replace existing items. Suite ids are class names; a class that exists in
+    // several folders or modules is scoped by its spec file so every copy is shown.
+    const counts = new Map<string, number>();
+    for (const suite of suites) {
+      counts.set(suite.suite, (counts.get(suite.suite) ?? 0) + 1);
+    }
+    const suiteItems = suites.map((suite) =>
+      this.createSuiteItem(
+        suite,
+        sources.get(suite.uri),
+        counts.get(suite.suite)! > 1 ? suite.uri : undefined,
+      ),
+    );
+    this.ctrl.items.replace(suiteItems);
+
+    const tags = new Set<string>();
+    for (const suiteItem of suiteItems) {
+      dataCache.get(suiteItem)?.tags?.forEach((tag) => tags.add(tag));
+    }
+    this.updateTagRunProfiles(tags);
+  }
+
+  /**
+   * Source of a test file, preferring unsaved editor contents.
+   */
+  private async readSource(uriString: string): Promise<string | undefined> {
+    const open = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uriString,
+    );
+    if (open) {
+      return open.getText();
+    }
+    try {
+      return await fs.promises.readFile(
+        vscode.Uri.parse(uriString).fsPath,
+        "utf8",
+      );
+    } catch {
+      return undefined;
     }
   }
 
   /**
    * Create a TestItem for a test suite (Spock Specification class).
    */
-  private createSuiteItem(suite: TestSuite): vscode.TestItem {
+  private createSuiteItem(
+    suite: TestSuite,
+    source?: string,
+    scope?: string,
+  ): vscode.TestItem {
     const uri = vscode.Uri.parse(suite.uri);
-    const label = `${getCodiconLabel("suite")} ${this.getClassName(suite.suite)}`;
+    const className = this.getClassName(suite.suite);
+    const classLine =
+      source !== undefined
+        ? findClassDeclaration(source, className)
+        : undefined;
+    const annotations =
+      source !== undefined && classLine !== undefined
+        ? readAnnotations(source, classLine)
+        : undefined;
+    const label = `${getCodiconLabel("suite", annotations?.skip?.kind)} ${className}`;
     const suiteItem = this.ctrl.createTestItem(
-      suite.suite, // id = fully qualified class name
+      suiteItemId(suite.suite, scope), // id = fully qualified class name, scoped if not unique
       label,
       uri,
     );
 
     // Enable native play buttons and lazy loading
-    suiteItem.tags = [runnableTag];
     suiteItem.canResolveChildren = true;
-
-    // Store metadata
-    dataCache.set(suiteItem, { kind: "suite", suiteName: suite.suite });
+    suiteItem.description = annotations?.skip?.annotation;
 
     // Add child test items first to determine suite range
+    const tags = new Set(annotations?.tags);
     let minLine = Number.MAX_SAFE_INTEGER;
     for (const test of suite.tests) {
-      const testItem = this.createTestItem(test, suite.suite, uri);
+      const testItem = this.createTestItem(
+        test,
+        suiteItem.id,
+        uri,
+        source,
+        annotations,
+      );
       suiteItem.children.add(testItem);
+      dataCache.get(testItem)?.tags?.forEach((tag) => tags.add(tag));
       if (test.line < minLine) {
         minLine = test.line;
       }
     }
 
+    // The spec carries its features' tags so that "Run only @tag" is offered on it
+    suiteItem.tags = this.getTestTags({ ...annotations, tags: [...tags] });
+
+    // Store metadata
+    dataCache.set(suiteItem, {
+      kind: "suite",
+      suiteName: suite.suite,
+      tags: [...tags],
+    });
+
     // Set suite range: estimate class declaration is a few lines before first test
     // Use line 0 as minimum to avoid negative values
     const ESTIMATED_LINES_ABOVE_FIRST_TEST = 5;
@@ -357,13 +741,26 @@ export class GroovyTestController {
     test: Test,
     parentId: string,
     uri: vscode.Uri,
+    source?: string,
+    classAnnotations?: TestAnnotations,
   ): vscode.TestItem {
     const testId = `${parentId}.${test.test}`;
-    const label = `${getCodiconLabel("test")} ${test.test}`;
+    const own =
+      source !== undefined ? readAnnotations(source, test.line - 1) : undefined;
+    // Class-level annotations apply to every feature of the spec
+    const annotations: Partial<TestAnnotations> = {
+      tags: [
+        ...new Set([...(classAnnotations?.tags ?? []), ...(own?.tags ?? [])]),
+      ],
+      stepwise: classAnnotations?.stepwise,
+      skip: own?.skip ?? classAnnotations?.skip,
+    };
+    const label = `${getCodiconLabel("test", annotations.skip?.kind)} ${test.test}`;
     const testItem = this.ctrl.createTestItem(testId, label, uri);
 
     // Enable native play buttons
-    testItem.tags = [runnableTag];
+    testItem.tags = this.getTestTags(annotations);
+    testItem.description = annotations.skip?.annotation;
     testItem.canResolveChildren = false; // Test methods are leaves
 
     // Set the line range for CodeLens and navigation
@@ -381,11 +778,27 @@ export class GroovyTestController {
       kind: "test",
       suiteName: parentId,
       line: test.line,
+      tags: annotations.tags,
     });
 
     return testItem;
   }
 
+  /**
+   * Test Explorer tags for an item: runnable, its @Tag/@Category names, and
+   * whether it is skipped, pending or part of a @Stepwise spec.
+   */
+  private getTestTags(annotations: Partial<TestAnnotations>): vscode.TestTag[] {
+    const tags = [runnableTag, ...(annotations.tags ?? []).map(userTag)];
+    if (annotations.skip) {
+      tags.push(skipTags[annotations.skip.kind]);
+    }
+    if (annotations.stepwise) {
+      tags.push(stepwiseTag);
+    }
+    return tags;
+  }
+
   /**
    * Extract simple class name from fully qualified name.
    */
@@ -433,7 +846,7 @@ export class GroovyTestController {
 
     // If wildcard, try to find and run the suite item directly first
     if (isWildcard) {
-      const suiteItem = this.ctrl.items.get(args.suite);
+      const suiteItem = this.findSuiteItem(args.suite, args.uri);
       if (suiteItem) {
         await this.runTestItem(suiteItem, debug, withCoverage);
         return;
@@ -443,7 +856,7 @@ export class GroovyTestController {
 
     let item = isWildcard
       ? undefined
-      : await this.findTestItem(args.suite, args.test);
+      : await this.findTestItem(args.suite, args.test, args.uri);
 
     if (!item) {
       // If item not found, it might be because tests weren't discovered yet.
@@ -452,13 +865,17 @@ export class GroovyTestController {
 
       if (isWildcard) {
         // Retry finding suite
-        const retrySuiteItem = this.ctrl.items.get(args.suite);
+        const retrySuiteItem = this.findSuiteItem(args.suite, args.uri);
         if (retrySuiteItem) {
           await this.runTestItem(retrySuiteItem, debug, withCoverage);
           return;
         }
       } else {
-        const retryItem = await this.findTestItem(args.suite, args.test);
+        const retryItem = await this.findTestItem(
+          args.suite,
+          args.test,
+          args.uri,
+        );
         if (retryItem) {
           item = retryItem;
         }
@@ -504,7 +921,11 @@ export class GroovyTestController {
     const tokenSource = new vscode.CancellationTokenSource();
     try {
       if (debug) {
-        await this.executionService.debugTests(request, tokenSource.token);
+        await this.executionService.debugTests(
+          request,
+          tokenSource.token,
+          this.ctrl,
+        );
       } else if (
         withCoverage &&
         this.executionService.runTestsWithCoverage &&
@@ -531,18 +952,44 @@ export class GroovyTestController {
   private async findTestItem(
     suiteName: string,
     testName: string,
+    uri?: string,
   ): Promise<vscode.TestItem | undefined> {
     // First find suite
-    const suiteItem = this.ctrl.items.get(suiteName);
+    const suiteItem = this.findSuiteItem(suiteName, uri);
     if (!suiteItem) {
       return undefined;
     }
     // Then find test child
     // ID format in createTestItem is `${parentId}.${test.test}`
-    const testId = `${suiteName}.${testName}`;
+    const testId = `${suiteItem.id}.${testName}`;
     return suiteItem.children.get(testId);
   }
 
+  /**
+   * Suite item of a class. A class found in several places has one item per
+   * spec file, so `uri` picks the right one.
+   */
+  private findSuiteItem(
+    suiteName: string,
+    uri?: string,
+  ): vscode.TestItem | undefined {
+    const item = this.ctrl.items.get(suiteName);
+    if (item) {
+      return item;
+    }
+    let found: vscode.TestItem | undefined;
+    this.ctrl.items.forEach((candidate) => {
+      if (
+        !found &&
+        unscopedTestId(candidate.id) === suiteName &&
+        (!uri || candidate.uri?.toString() === uri)
+      ) {
+        found = candidate;
+      }
+    });
+    return found;
+  }
+
   /**
    * Create a test item on-the-fly for external files that are not in the workspace.
    * This allows running tests from CodeLens on files opened from outside the workspace.
@@ -3,20 +3,27 @@
  * See: https://github.com/albertocavalcante/gvy/issues/715
  */
 import * as vscode from "vscode";
+import type { TestProfile } from "./TestProfiles";
 
 /**
  * Common interface for test execution services (Gradle, Maven, etc).
  */
 export interface ITestExecutionService {
+  /**
+   * @param profile Options of a user-defined run profile, if one was picked
+   */
   runTests(
     request: vscode.TestRunRequest,
     token: vscode.CancellationToken,
     testController: vscode.TestController,
+    profile?: TestProfile,
   ): Promise<void>;
 
   debugTests(
     request: vscode.TestRunRequest,
     token: vscode.CancellationToken,
+    testController: vscode.TestController,
+    profile?: TestProfile,
   ): Promise<void>;
 
   runTestsWithCoverage?(
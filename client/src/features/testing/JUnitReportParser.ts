@@ -0,0 +1,179 @@
+import type { TestResultItem, TestResultStatus } from "./TestService";
+
+const TESTCASE_PATTERN =
+  /<testcase\b((?:[^>"']|"[^"]*"|'[^']*')*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Reported statuses from least to most severe, for rolling up iterations. */
+const SEVERITY: TestResultStatus[] = ["SKIPPED", "SUCCESS", "FAILURE", "ERROR"];
+
+/**
+ * Parse the test cases of a JUnit XML report, as written by Gradle
+ * (`build/test-results`), Surefire and Failsafe. Files with several
+ * `<testsuite>` elements are supported.
+ */
+export function parseJUnitReport(xml: string): TestResultItem[] {
+  const results: TestResultItem[] = [];
+  for (const match of xml.matchAll(TESTCASE_PATTERN)) {
+    const attributes = parseAttributes(match[1]);
+    const name = attributes.get("name");
+    if (!name) {
+      continue;
+    }
+    const className = attributes.get("classname");
+    const body = match[2] ?? "";
+    const result: TestResultItem = {
+      testId: className ? `${className}.${name}` : name,
+      name,
+      className,
+      status: "SUCCESS",
+      durationMs: Math.round(Number(attributes.get("time") ?? 0) * 1000) || 0,
+    };
+
+    const problem =
+      findElement(body, "failure") ??
+      findElement(body, "error") ??
+      findElement(body, "rerunFailure");
+    if (problem) {
+      result.status = problem.tag === "error" ? "ERROR" : "FAILURE";
+      const type = problem.attributes.get("type");
+      result.failureMessage =
+        problem.attributes.get("message") ?? type ?? "Test failed";
+      result.stackTrace = problem.text || undefined;
+    } else if (findElement(body, "skipped")) {
+      result.status = "SKIPPED";
+    }
+    const output = findElement(body, "system-out")?.text;
+    if (output) {
+      result.output = output;
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Assign report results to known test item IDs. Results without an item of
+ * their own, such as Spock @Unroll iterations ("feature [a: 1, #0]") or JUnit
+ * parameterized invocations ("test(int)[1]"), are rolled up into their feature:
+ * it fails if any iteration failed.
+ */
+export function matchReportResults(
+  results: TestResultItem[],
+  itemIds: Iterable<string>,
+): Map<string, TestResultItem> {
+  const ids = new Set(itemIds);
+  const matched = new Map<string, TestResultItem>();
+
+  for (const result of results) {
+    if (ids.has(result.testId)) {
+      matched.set(result.testId, result);
+      continue;
+    }
+    const featureId = findFeatureId(result, ids);
+    if (!featureId) {
+      continue;
+    }
+    // Name the iteration in its failure, the feature item stands for all of them
+    const iteration: TestResultItem = result.failureMessage
+      ? {
+          ...result,
+          failureMessage: `${result.name}: ${result.failureMessage}`,
+        }
+      : result;
+    const previous = matched.get(featureId);
+    matched.set(featureId, previous ? rollUp(previous, iteration) : iteration);
+  }
+  return matched;
+}
+
+function findFeatureId(
+  result: TestResultItem,
+  ids: Set<string>,
+): string | undefined {
+  const prefix = result.className ? `${result.className}.` : "";
+  let best: string | undefined;
+  for (const id of ids) {
+    if (!id.startsWith(prefix)) {
+      continue;
+    }
+    const feature = id.slice(prefix.length);
+    if (
+      feature &&
+      result.name.startsWith(feature) &&
+      " [(".includes(result.name[feature.length]) &&
+      (!best || id.length > best.length)
+    ) {
+      best = id;
+    }
+  }
+  return best;
+}
+
+/**
+ * Combine two iteration results: the more severe status wins and keeps its failure.
+ */
+function rollUp(a: TestResultItem, b: TestResultItem): TestResultItem {
+  const worse = SEVERITY.indexOf(b.status) > SEVERITY.indexOf(a.status) ? b : a;
+  return {
+    ...worse,
+    durationMs: a.durationMs + b.durationMs,
+    output: [a.output, b.output].filter(Boolean).join("\n") || undefined,
+  };
+}
+
+function parseAttributes(text: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(match[1], unescapeXml(match[2] ?? match[3]));
+  }
+  return attributes;
+}
+
+function findElement(
+  body: string,
+  tag: string,
+): { tag: string; attributes: Map<string, string>; text: string } | undefined {
+  const pattern = new RegExp(
+    `<${tag}\\b((?:[^>"']|"[^"]*"|'[^']*')*?)(?:/>|>([\\s\\S]*?)</${tag}>)`,
+  );
+  const match = pattern.exec(body);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    tag,
+    attributes: parseAttributes(match[1]),
+    text: elementText(match[2] ?? ""),
+  };
+}
+
+/**
+ * Text content of an element: CDATA sections verbatim, everything else unescaped.
+ */
+function elementText(content: string): string {
+  return content
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith("<![CDATA[") ? part.slice(9, -3) : unescapeXml(part),
+    )
+    .join("")
+    .trim();
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|(lt|gt|amp|quot|apos));/gi,
+    (_match, hex: string, decimal: string, named: string) => {
+      if (hex) {
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      if (decimal) {
+        return String.fromCodePoint(Number(decimal));
+      }
+      return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[
+        named.toLowerCase() as "lt"
+      ];
+    },
+  );
+}
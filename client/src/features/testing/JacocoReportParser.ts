@@ -0,0 +1,137 @@
+import type { FileCoverageSummary, LineCoverage } from "./TestService";
+
+const PACKAGE_PATTERN =
+  /<package\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/package>/g;
+const SOURCEFILE_PATTERN =
+  /<sourcefile\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/sourcefile>/g;
+const LINE_PATTERN = /<line\b((?:[^>"']|"[^"]*"|'[^']*')*?)\/>/g;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Coverage of one source file of a JaCoCo XML report.
+ */
+export interface ReportFileCoverage {
+  /** Path relative to its source root, e.g. "com/example/Foo.groovy" */
+  path: string;
+  lines: LineCoverage[];
+  summary: FileCoverageSummary;
+}
+
+export type LineStatus = "covered" | "partial" | "missed";
+
+/**
+ * Parse the per-line coverage of a JaCoCo XML report
+ * (`build/reports/jacoco/test/jacocoTestReport.xml`, `target/site/jacoco/jacoco.xml`).
+ * Aggregated reports with `<group>` elements are supported.
+ */
+export function parseJacocoReport(xml: string): ReportFileCoverage[] {
+  const files: ReportFileCoverage[] = [];
+  for (const pkg of xml.matchAll(PACKAGE_PATTERN)) {
+    const packagePath = parseAttributes(pkg[1]).get("name") ?? "";
+    for (const sourcefile of pkg[2].matchAll(SOURCEFILE_PATTERN)) {
+      const name = parseAttributes(sourcefile[1]).get("name");
+      if (!name) {
+        continue;
+      }
+      const lines = [...sourcefile[2].matchAll(LINE_PATTERN)].map((line) =>
+        parseLine(parseAttributes(line[1])),
+      );
+      files.push({
+        path: packagePath ? `${packagePath}/${name}` : name,
+        lines,
+        summary: summarize(lines),
+      });
+    }
+  }
+  return files;
+}
+
+/**
+ * Whether a line ran, and if so whether all of its branches did.
+ */
+export function lineStatus(line: LineCoverage): LineStatus {
+  if (!line.covered) {
+    return "missed";
+  }
+  return line.branchInfo && line.branchInfo.covered < line.branchInfo.total
+    ? "partial"
+    : "covered";
+}
+
+/**
+ * Line coverage in percent; files without executable lines count as covered.
+ */
+export function lineCoveragePercent(summary: FileCoverageSummary): number {
+  return summary.linesTotal > 0
+    ? (summary.linesCovered / summary.linesTotal) * 100
+    : 100;
+}
+
+/**
+ * Find the workspace file of each report path. A report only knows paths
+ * relative to the source root, so the file whose path ends with it wins;
+ * files under build output directories come last.
+ */
+export function matchSourceFiles(
+  reportPaths: string[],
+  workspaceFiles: string[],
+): Map<string, string> {
+  const byName = new Map<string, string[]>();
+  for (const file of workspaceFiles) {
+    const normalized = file.replace(/\\/g, "/");
+    const name = normalized.slice(normalized.lastIndexOf("/") + 1);
+    byName.set(name, [...(byName.get(name) ?? []), file]);
+  }
+
+  const matches = new Map<string, string>();
+  for (const reportPath of reportPaths) {
+    const name = reportPath.slice(reportPath.lastIndexOf("/") + 1);
+    const candidates = (byName.get(name) ?? []).filter((file) =>
+      `/${file.replace(/\\/g, "/")}`.endsWith(`/${reportPath}`),
+    );
+    const match =
+      candidates.find((file) => !isBuildOutput(file)) ?? candidates[0];
+    if (match) {
+      matches.set(reportPath, match);
+    }
+  }
+  return matches;
+}
+
+function parseLine(attributes: Map<string, string>): LineCoverage {
+  const count = (name: string) => Number(attributes.get(name) ?? 0) || 0;
+  const branches = count("mb") + count("cb");
+  return {
+    line: count("nr"),
+    covered: count("ci") > 0,
+    branchInfo:
+      branches > 0 ? { covered: count("cb"), total: branches } : undefined,
+  };
+}
+
+function summarize(lines: LineCoverage[]): FileCoverageSummary {
+  const summary: FileCoverageSummary = {
+    linesCovered: 0,
+    linesTotal: lines.length,
+    branchesCovered: 0,
+    branchesTotal: 0,
+  };
+  for (const line of lines) {
+    summary.linesCovered += line.covered ? 1 : 0;
+    summary.branchesCovered += line.branchInfo?.covered ?? 0;
+    summary.branchesTotal += line.branchInfo?.total ?? 0;
+  }
+  return summary;
+}
+
+function isBuildOutput(file: string): boolean {
+  return /[\\/](?:build|target|out|bin)[\\/]/.test(file);
+}
+
+function parseAttributes(text: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(match[1], match[2] ?? match[3]);
+  }
+  return attributes;
+}
@@ -5,12 +5,54 @@ import * as fs from "fs";
 import * as readline from "readline";
 import { ITestExecutionService } from "./ITestExecutionService";
 import { TestService, TestCommand, TestResultItem } from "./TestService";
-import { TestEventConsumer } from "./TestEventConsumer";
+import {
+  applyTestResult,
+  TestEventConsumer,
+  TestResultListener,
+} from "./TestEventConsumer";
 import { CoverageService } from "./CoverageService";
+import { unscopedTestId } from "./TestItemId";
+import { batchTestCommands, TestCommandEntry } from "./TestCommandBatcher";
+import { TestRunResult, toTestRunResult } from "./TestHistory";
+import { matchReportResults } from "./JUnitReportParser";
+import { applyTestProfile, TestProfile } from "./TestProfiles";
+import {
+  parseRunningClass,
+  SurefireReportWatcher,
+} from "./SurefireReportWatcher";
+import type { TestHistoryService } from "./TestHistoryService";
+import type { StackTraceResolver } from "./StackTraceResolver";
+import type { UnrolledIterationTracker } from "./UnrolledIterationTracker";
+import {
+  attachDebugger,
+  buildDebugArgs,
+  findFreePort,
+  JDWP_LISTENING_PATTERN,
+} from "./TestDebugger";
 
 interface TestRunOptions {
   withCoverage?: boolean;
   coverageService?: CoverageService;
+  debug?: boolean;
+  profile?: TestProfile;
+}
+
+/**
+ * Tests that ran in one workspace folder, so results and coverage
+ * can be fetched from the project they belong to.
+ */
+interface FolderRun {
+  workspaceUri: string;
+  items: vscode.TestItem[];
+  usedMaven: boolean;
+}
+
+/**
+ * Debug target for a single build invocation.
+ */
+interface DebugTarget {
+  port: number;
+  workspaceFolder?: vscode.WorkspaceFolder;
 }
 
 // Note: kept at module scope for potential reuse by other test-related utilities
@@ -33,6 +75,9 @@ export class LSPTestExecutionService implements ITestExecutionService {
     private readonly testService: TestService,
     private readonly logger: vscode.OutputChannel,
     extensionPath: string,
+    private readonly history?: TestHistoryService,
+    private readonly stackTraceResolver?: StackTraceResolver,
+    private readonly iterationTracker?: UnrolledIterationTracker,
   ) {
     this.initScriptPath = path.join(
       extensionPath,
@@ -45,8 +90,9 @@ export class LSPTestExecutionService implements ITestExecutionService {
     request: vscode.TestRunRequest,
     token: vscode.CancellationToken,
     testController: vscode.TestController,
+    profile?: TestProfile,
   ): Promise<void> {
-    return this.runTestsInternal(request, token, testController, {});
+    return this.runTestsInternal(request, token, testController, { profile });
   }
 
   async runTestsWithCoverage(
@@ -68,39 +114,37 @@ export class LSPTestExecutionService implements ITestExecutionService {
     options: TestRunOptions = {},
   ): Promise<void> {
     const run = testController.createTestRun(request);
-    const consumer = new TestEventConsumer(run, this.logger, testController);
+    const results: TestRunResult[] = [];
+    const recordResult: TestResultListener = (item, ...outcome) =>
+      results.push(toTestRunResult(item, ...outcome));
+    const consumer = new TestEventConsumer(
+      run,
+      this.logger,
+      testController,
+      recordResult,
+      this.stackTraceResolver,
+      this.iterationTracker,
+    );
     const testsToRun = request.include ?? [];
+    // Items that already got a result from Surefire reports during the run
+    const reported = new Set<string>();
 
-    // Register items with consumer
     for (const item of testsToRun) {
-      consumer.registerTestItem(item.id, item);
       run.enqueued(item);
     }
 
     try {
-      // Group tests by suite/file to minimize LSP calls if possible,
-      // but for now, we'll process the first item to get the command
-      // and assume the command runs all requested tests if we pass them effectively.
-      // Actually, LSP 'runTest' might handle one test at a time or a suite.
-      // If the user selected multiple unrelated tests, we might need multiple runs.
-      // For simplicity and to match current behavior, we'll assume they belong to the same project context.
-
-      // TODO: If the request contains multiple distinct items, the current LSP API
-      // might need to be called for each, OR we trust the LSP to build a command for all.
-      // The current `groovy/runTest` takes a single URI/Suite/Test.
-      // So if we have multiple items, we might need to iterate.
-      // However, usually `args` returned by LSP can be manipulated or we call it once.
-
-      // If we have mixed items, running them all in one go is tricky if they require different commands.
-      // We'll iterate through items and run them sequentially if they yield different commands,
-      // or try to batch them.
-      // For now, let's implement the loop:
-
-      // Get workspace URI for LSP requests
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      const workspaceUri = workspaceFolder?.uri.toString() || "";
-
-      let isMavenExecution = false;
+      // Index sources up front so failure stack frames and iterations link to them
+      await this.stackTraceResolver?.prepare();
+      await this.iterationTracker?.prepare(testsToRun);
+
+      // Results and coverage are fetched per workspace folder (multi-root workspaces)
+      const folderRuns = new Map<string, FolderRun>();
+      const workspaceFolders = new Map<
+        string,
+        vscode.WorkspaceFolder | undefined
+      >();
+      const entries: TestCommandEntry<vscode.TestItem>[] = [];
 
       for (const item of testsToRun) {
         if (token.isCancellationRequested) break;
@@ -118,22 +162,25 @@ export class LSPTestExecutionService implements ITestExecutionService {
         let testName: string | undefined;
 
         // Heuristic: If the item ID contains a dot, it's a test method (ClassName.methodName). Otherwise, it's a suite.
-        const isSuite = !item.id.includes(".");
+        const id = unscopedTestId(item.id);
+        const isSuite = !id.includes(".");
 
         if (isSuite) {
-          suiteName = item.id;
+          suiteName = id;
           testName = undefined;
         } else {
           // It's a method
-          const lastDot = item.id.lastIndexOf(".");
+          const lastDot = id.lastIndexOf(".");
           if (lastDot > 0) {
-            suiteName = item.id.substring(0, lastDot);
-            testName = item.id.substring(lastDot + 1);
+            suiteName = id.substring(0, lastDot);
+            testName = id.substring(lastDot + 1);
           } else {
-            suiteName = item.id;
+            suiteName = id;
           }
         }
 
+        // Debug runs reuse the plain run command: the JDWP agent is injected in
+        // executeCommand so the extension controls which port to attach to.
         const command = await this.testService.getTestCommand(
           uri,
           suiteName,
@@ -153,6 +200,24 @@ export class LSPTestExecutionService implements ITestExecutionService {
           continue;
         }
 
+        const workspaceFolder = this.resolveWorkspaceFolder(item);
+        const workspaceUri = workspaceFolder?.uri.toString() || "";
+        workspaceFolders.set(workspaceUri, workspaceFolder);
+        let folderRun = folderRuns.get(workspaceUri);
+        if (!folderRun) {
+          folderRun = { workspaceUri, items: [], usedMaven: false };
+          folderRuns.set(workspaceUri, folderRun);
+        }
+        folderRun.items.push(item);
+
+        entries.push({ item, command, scope: workspaceUri });
+      }
+
+      // One build invocation per project and build tool instead of one per item
+      const batches = batchTestCommands(entries);
+      for (const { command, items, scope } of batches) {
+        if (token.isCancellationRequested) break;
+
         // Execute the test command with optional coverage
         const executableName = path.basename(command.executable);
         const isGradle = executableName.startsWith("gradle");
@@ -162,8 +227,15 @@ export class LSPTestExecutionService implements ITestExecutionService {
           executableName.startsWith("mvn.");
 
         // Track if any Maven execution occurred
-        if (isMaven) {
-          isMavenExecution = true;
+        const folderRun = folderRuns.get(scope);
+        if (isMaven && folderRun) {
+          folderRun.usedMaven = true;
+        }
+
+        if (items.length > 1) {
+          this.logger.appendLine(
+            `[Testing] Running ${items.length} test items in one ${isMaven ? "Maven" : isGradle ? "Gradle" : executableName} invocation`,
+          );
         }
 
         // Clone command.args to avoid mutation
@@ -179,34 +251,114 @@ export class LSPTestExecutionService implements ITestExecutionService {
           }
         }
 
-        await this.executeCommand(
-          { ...command, args: coverageArgs },
-          consumer,
-          token,
-        );
-      }
+        // Each invocation gets its own JDWP port so sequential runs never clash
+        const debugTarget: DebugTarget | undefined = options.debug
+          ? {
+              port: await findFreePort(),
+              workspaceFolder: workspaceFolders.get(scope),
+            }
+          : undefined;
+
+        // Events name tests by class: point them at this batch's items, as a
+        // class found in several folders has an item in each
+        for (const child of this.collectAllTestItems(items)) {
+          consumer.registerTestItem(unscopedTestId(child.id), child);
+        }
+
+        // Maven reports results only in Surefire/Failsafe XML: stream them as each test class finishes
+        const reportWatcher = isMaven
+          ? new SurefireReportWatcher(command.cwd, (reports) =>
+              this.applyLiveResults(
+                run,
+                items,
+                reports,
+                reported,
+                recordResult,
+              ),
+            )
+          : undefined;
+        await reportWatcher?.start();
+        // Options of the run profile picked in the Test Explorer (groovy.test.profiles)
+        let finalCommand: TestCommand = { ...command, args: coverageArgs };
+        if (options.profile) {
+          this.logger.appendLine(
+            `[Testing] Using run profile '${options.profile.name}'`,
+          );
+          finalCommand = applyTestProfile(
+            finalCommand,
+            options.profile,
+            isGradle ? "gradle" : isMaven ? "maven" : undefined,
+          );
+        }
 
-      // For Maven, fetch and apply Surefire results from LSP (once after all tests complete)
-      if (isMavenExecution && !token.isCancellationRequested) {
-        await this.applyTestResults(workspaceUri, run, testsToRun, consumer);
+        try {
+          await this.executeCommand(
+            finalCommand,
+            consumer,
+            token,
+            debugTarget,
+            isMaven
+              ? (line) => this.markClassStarted(run, items, line)
+              : undefined,
+          );
+        } finally {
+          await reportWatcher?.stop();
+        }
       }
 
-      // After all tests complete, fetch and add coverage if requested
-      if (
-        options.withCoverage &&
-        options.coverageService &&
-        !token.isCancellationRequested
-      ) {
-        await options.coverageService.addCoverageToRun(run, workspaceUri);
+      for (const folderRun of folderRuns.values()) {
+        if (token.isCancellationRequested) break;
+
+        // For Maven, fetch and apply Surefire results from LSP (once per folder after all tests complete)
+        if (folderRun.usedMaven) {
+          await this.applyTestResults(
+            folderRun.workspaceUri,
+            run,
+            folderRun.items,
+            recordResult,
+            reported,
+          );
+        }
+
+        // After all tests complete, fetch and add coverage if requested
+        if (options.withCoverage && options.coverageService) {
+          await options.coverageService.addCoverageToRun(
+            run,
+            folderRun.workspaceUri,
+          );
+        }
       }
     } catch (error) {
       this.logger.appendLine(`Test execution error: ${error}`);
     } finally {
       consumer.clear();
       run.end();
+      await this.recordHistory(results);
+    }
+  }
+
+  private async recordHistory(results: TestRunResult[]): Promise<void> {
+    try {
+      await this.history?.recordRun(results);
+    } catch (error) {
+      this.logger.appendLine(
+        `[Testing] Failed to record test history: ${error}`,
+      );
     }
   }
 
+  /**
+   * The workspace folder a test item belongs to, falling back to the first folder.
+   */
+  private resolveWorkspaceFolder(
+    item: vscode.TestItem,
+  ): vscode.WorkspaceFolder | undefined {
+    return (
+      (item.uri && vscode.workspace.getWorkspaceFolder(item.uri)) ||
+      vscode.workspace.workspaceFolders?.[0]
+    );
+  }
+
   /**
    * Collect all test items recursively from a list of items.
    * Includes cycle detection to prevent stack overflow from circular references.
@@ -230,14 +382,61 @@ export class LSPTestExecutionService implements ITestExecutionService {
     return result;
   }
 
+  /**
+   * Mark the items of a test class as running when Surefire announces the class.
+   */
+  private markClassStarted(
+    run: vscode.TestRun,
+    items: readonly vscode.TestItem[],
+    line: string,
+  ): void {
+    const className = parseRunningClass(line);
+    if (!className) {
+      return;
+    }
+    for (const item of this.collectAllTestItems(items)) {
+      const id = unscopedTestId(item.id);
+      if (id === className || id.startsWith(`${className}.`)) {
+        run.started(item);
+      }
+    }
+  }
+
+  /**
+   * Apply the results of Surefire reports written while Maven is still running.
+   */
+  private applyLiveResults(
+    run: vscode.TestRun,
+    items: readonly vscode.TestItem[],
+    results: TestResultItem[],
+    reported: Set<string>,
+    recordResult: TestResultListener,
+  ): void {
+    const itemsById = new Map(
+      this.collectAllTestItems(items).map((item) => [
+        unscopedTestId(item.id),
+        item,
+      ]),
+    );
+    for (const [id, result] of matchReportResults(results, itemsById.keys())) {
+      const item = itemsById.get(id);
+      if (item && !reported.has(item.id)) {
+        reported.add(item.id);
+        this.applyResultToItem(run, item, result, recordResult);
+      }
+    }
+  }
+
   /**
    * Fetch test results from LSP (Surefire XML parsing) and apply to TestRun.
+   * Items that already got a result while the build was running are skipped.
    */
   private async applyTestResults(
     workspaceUri: string,
     run: vscode.TestRun,
     testsToRun: readonly vscode.TestItem[],
-    _consumer: TestEventConsumer,
+    recordResult: TestResultListener,
+    reported: ReadonlySet<string> = new Set(),
   ): Promise<void> {
     try {
       const results = await this.testService.getTestResults(workspaceUri);
@@ -253,7 +452,9 @@ export class LSPTestExecutionService implements ITestExecutionService {
       );
 
       // Collect all test items (including children) for matching
-      const allTestItems = this.collectAllTestItems(testsToRun);
+      const allTestItems = this.collectAllTestItems(testsToRun).filter(
+        (item) => !reported.has(item.id),
+      );
 
       // Build a map with multiple lookup keys for robust matching
       const resultMap = new Map<string, TestResultItem>();
@@ -298,11 +499,12 @@ export class LSPTestExecutionService implements ITestExecutionService {
       // Apply results to test items using smart matching
       for (const item of allTestItems) {
         // Try multiple matching strategies
-        let result = resultMap.get(item.id);
+        const id = unscopedTestId(item.id);
+        let result = resultMap.get(id);
 
         // If not found, try normalized ID
         if (!result) {
-          result = resultMap.get(normalizeTestId(item.id));
+          result = resultMap.get(normalizeTestId(id));
         }
 
         // If not found, try matching by label/name
@@ -311,13 +513,13 @@ export class LSPTestExecutionService implements ITestExecutionService {
         }
 
         // If not found, try extracting just the method name from ID
-        if (!result && item.id.includes(".")) {
-          const methodName = item.id.substring(item.id.lastIndexOf(".") + 1);
+        if (!result && id.includes(".")) {
+          const methodName = id.substring(id.lastIndexOf(".") + 1);
           result = resultMap.get(methodName);
         }
 
         if (result) {
-          this.applyResultToItem(run, item, result);
+          this.applyResultToItem(run, item, result, recordResult);
         }
       }
     } catch (error) {
@@ -332,45 +534,9 @@ export class LSPTestExecutionService implements ITestExecutionService {
     run: vscode.TestRun,
     item: vscode.TestItem,
     result: TestResultItem,
+    recordResult?: TestResultListener,
   ): void {
-    // Append output if available (CRLF required for VS Code Test Results panel)
-    if (result.output) {
-      const formattedOutput = result.output.replace(/\r?\n/g, "\r\n");
-      run.appendOutput(`--- Output for ${result.name} ---\r\n`);
-      run.appendOutput(formattedOutput + "\r\n", undefined, item);
-    }
-
-    // Report status
-    switch (result.status) {
-      case "SUCCESS":
-        run.passed(item, result.durationMs);
-        break;
-      case "FAILURE":
-        {
-          const message = new vscode.TestMessage(
-            result.failureMessage || "Test failed",
-          );
-          if (result.stackTrace) {
-            message.message = `${result.failureMessage || "Test failed"}\n\n${result.stackTrace}`;
-          }
-          run.failed(item, message, result.durationMs);
-        }
-        break;
-      case "SKIPPED":
-        run.skipped(item);
-        break;
-      case "ERROR":
-        {
-          const errorMessage = new vscode.TestMessage(
-            result.failureMessage || "Test error",
-          );
-          if (result.stackTrace) {
-            errorMessage.message = `${result.failureMessage || "Test error"}\n\n${result.stackTrace}`;
-          }
-          run.errored(item, errorMessage, result.durationMs);
-        }
-        break;
-    }
+    applyTestResult(run, item, result, this.stackTraceResolver, recordResult);
   }
 
   /**
@@ -382,7 +548,7 @@ export class LSPTestExecutionService implements ITestExecutionService {
     resultMap: Map<string, TestResultItem>,
   ): void {
     item.children.forEach((child) => {
-      const result = resultMap.get(child.id);
+      const result = resultMap.get(unscopedTestId(child.id));
       if (result) {
         this.applyResultToItem(run, child, result);
       } else {
@@ -392,15 +558,20 @@ export class LSPTestExecutionService implements ITestExecutionService {
     });
   }
 
+  /**
+   * Run the requested tests with a JDWP agent in the test JVM and attach a Java debug session.
+   * Results are still reported through the TestEventConsumer while debugging.
+   */
   async debugTests(
-    _request: vscode.TestRunRequest,
-    _token: vscode.CancellationToken,
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    testController: vscode.TestController,
+    profile?: TestProfile,
   ): Promise<void> {
-    // TODO: Implement debug using specific LSP command or debug adapter
-    this.logger.appendLine("Debug not implemented in LSP service yet.");
-    vscode.window.showWarningMessage(
-      "Debug support is not yet implemented in the Language Server.",
-    );
+    return this.runTestsInternal(request, token, testController, {
+      debug: true,
+      profile,
+    });
   }
 
   private getProjectJavaHome(): string | undefined {
@@ -468,6 +639,8 @@ export class LSPTestExecutionService implements ITestExecutionService {
     cmd: TestCommand,
     consumer: TestEventConsumer,
     token: vscode.CancellationToken,
+    debugTarget?: DebugTarget,
+    onOutputLine?: (line: string) => void,
   ): Promise<void> {
     const { executable, args, cwd, env } = cmd;
     this.logger.appendLine(
@@ -517,14 +690,22 @@ export class LSPTestExecutionService implements ITestExecutionService {
         ...finalArgs,
         "--console=plain", // Ensure parsing works
       ];
-    } else if (isMaven) {
-      // Ensure quiet/plain output for parsing?
-      // Maven output is harder to force to "plain" without affecting build.
-      // We'll rely on the default text output.
-      // Maybe add '-q' if not present?
-      if (!finalArgs.includes("-q") && !finalArgs.includes("--quiet")) {
-        finalArgs.push("-q");
-      }
+    }
+    // Maven keeps its default output: the "Running <class>" lines mark test classes as started
+
+    if (debugTarget && (isGradle || isMaven)) {
+      finalArgs.push(
+        ...buildDebugArgs(isGradle ? "gradle" : "maven", debugTarget.port),
+      );
+      this.logger.appendLine(
+        `[Debug] Test JVM will wait for a debugger on port ${debugTarget.port}`,
+      );
+    }
+
+    // With a shell, arguments are joined into one command line and need quoting
+    const useShell = isMaven && !isMavenWrapper;
+    if (useShell) {
+      finalArgs = finalArgs.map(quoteShellArg);
     }
 
     return new Promise((resolve) => {
@@ -535,12 +716,14 @@ export class LSPTestExecutionService implements ITestExecutionService {
         // - Maven Wrapper (mvnw): shell: false (executable script)
         // - Global Maven (mvn): shell: true (needed for Windows batch/cmd shims)
         // - Gradle (all): shell: false (executable script or binary)
-        shell: isMaven && !isMavenWrapper,
+        shell: useShell,
+        // Own process group, so cancelling also stops the shell's children and forked test JVMs
+        detached: process.platform !== "win32",
       });
 
       // Cancellation
       const cancelDis = token.onCancellationRequested(() => {
-        proc.kill();
+        killProcessTree(proc);
         this.logger.appendLine("Test run cancelled.");
       });
 
@@ -552,7 +735,34 @@ export class LSPTestExecutionService implements ITestExecutionService {
       const httpBlockerPattern =
         /maven-default-http-blocker|Blocked mirror for repositories/i;
 
+      // Attach once the JDWP agent reports it is listening
+      let debuggerAttached = false;
+      const attachIfListening = (text: string) => {
+        if (!debugTarget || debuggerAttached) {
+          return;
+        }
+        if (JDWP_LISTENING_PATTERN.test(text)) {
+          debuggerAttached = true;
+          attachDebugger(debugTarget.workspaceFolder, debugTarget.port).then(
+            (started) => {
+              if (!started) {
+                this.logger.appendLine(
+                  `[Debug] Could not attach debugger on port ${debugTarget.port}. Cancelling run.`,
+                );
+                killProcessTree(proc);
+              }
+            },
+            (err) =>
+              this.logger.appendLine(
+                `[Debug] Failed to attach debugger: ${err}`,
+              ),
+          );
+        }
+      };
+
       rl.on("line", (line) => {
+        attachIfListening(line);
+        onOutputLine?.(line);
         if (isGradle) {
           consumer.processLine(line);
         } else {
@@ -567,6 +777,7 @@ export class LSPTestExecutionService implements ITestExecutionService {
       proc.stderr.on("data", (data) => {
         const str = data.toString();
         this.logger.appendLine(`[STDERR] ${str}`);
+        attachIfListening(str);
         if (isMaven) {
           if (httpBlockerPattern.test(str)) {
             foundHttpBlocker = true;
@@ -600,15 +811,6 @@ export class LSPTestExecutionService implements ITestExecutionService {
             });
         }
 
-        // Fallback status for Maven (since we don't have rich events like Gradle init script)
-        if (isMaven) {
-          // If code != 0, we assume things failed.
-          // Consumer.markFailed() might be too broad if we do it for all items.
-          // But without granular parsing, it's all we have.
-          // For now, let the user check output.
-          // TODO: Implement Surefire report parsing or finer Maven output parsing.
-        }
-
         if (code !== 0) {
           this.logger.appendLine(
             `Test execution process exited with code ${code}`,
@@ -627,3 +829,36 @@ export class LSPTestExecutionService implements ITestExecutionService {
     });
   }
 }
+
+/**
+ * Quote an argument for the shell, e.g. "-DargLine=-Xmx2g -Dfoo=bar".
+ */
+function quoteShellArg(arg: string): string {
+  if (!/[\s"'`$&|;<>()*?!^%]/.test(arg)) {
+    return arg;
+  }
+  return process.platform === "win32"
+    ? `"${arg.replace(/"/g, '""')}"`
+    : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Stop a build and everything it started: with a shell or a wrapper script,
+ * killing only the direct child leaves Maven and its forked JVMs running.
+ */
+function killProcessTree(proc: cp.ChildProcess): void {
+  if (proc.pid === undefined) {
+    proc.kill();
+    return;
+  }
+  if (process.platform === "win32") {
+    cp.spawn("taskkill", ["/pid", String(proc.pid), "/T", "/F"]);
+    return;
+  }
+  try {
+    // Negative PID: the whole process group created by `detached`
+    process.kill(-proc.pid);
+  } catch {
+    proc.kill();
+  }
+}
@@ -14,6 +14,7 @@ import * as path from "path";
 import * as readline from "readline";
 import { TestEventConsumer } from "./TestEventConsumer";
 import { ITestExecutionService } from "./ITestExecutionService";
+import { unscopedTestId } from "./TestItemId";
 
 export class MavenExecutionService implements ITestExecutionService {
   constructor(private readonly logger: vscode.OutputChannel) {}
@@ -42,7 +43,7 @@ export class MavenExecutionService implements ITestExecutionService {
 
     // Register all requested tests with the consumer
     for (const item of testsToRun) {
-      consumer.registerTestItem(item.id, item);
+      consumer.registerTestItem(unscopedTestId(item.id), item);
       run.enqueued(item);
     }
 
@@ -112,6 +113,7 @@ export class MavenExecutionService implements ITestExecutionService {
   public async debugTests(
     _request: vscode.TestRunRequest,
     _token: vscode.CancellationToken,
+    _testController: vscode.TestController,
   ): Promise<void> {
     this.logger.appendLine(
       "MavenExecutionService: debugTests requested (not implemented)",
@@ -148,12 +150,12 @@ export class MavenExecutionService implements ITestExecutionService {
     // Convert test IDs to Maven Surefire format
     const testPatterns = testsToRun.map((item) => {
       // A suite (test class) has children; use FQCN directly
+      const id = unscopedTestId(item.id);
       if (item.children.size > 0) {
-        return item.id;
+        return id;
       }
 
       // It's a single test method: "com.example.MySpec.test name" -> "com.example.MySpec#test name"
-      const id = item.id;
       const lastDotIndex = id.lastIndexOf(".");
       if (lastDotIndex === -1) {
         return id; // Fallback: no dot found
@@ -1,52 +1,219 @@
 import * as path from "path";
+import { closingParenthesis } from "./TestAnnotationParser";
 
 export interface MethodInfo {
   name: string;
 }
 
+/**
+ * A constructor parameter of the class under test.
+ */
+export interface ParameterInfo {
+  name: string;
+  /** Declared type; undefined for untyped (`def`) parameters */
+  type?: string;
+}
+
+/**
+ * Kind of test the generator writes:
+ * - spock: a Specification with given/when/then stubs
+ * - spock-mocks: a Specification with a `Mock()` field per constructor collaborator
+ * - junit5 / junit4: a JUnit test class
+ */
+export type TestTemplate = "spock" | "spock-mocks" | "junit5" | "junit4";
+
+export interface GeneratorOptions {
+  template?: TestTemplate;
+  /** Test class suffix; defaults to "Spec" for Spock and "Test" for JUnit */
+  suffix?: string;
+  constructorParameters?: ParameterInfo[];
+}
+
+/**
+ * Stubs to add to an existing test file.
+ */
+export interface TestMerge {
+  /** Offset in the existing file to insert `text` at */
+  offset: number;
+  text: string;
+  /** Methods that got a stub */
+  added: string[];
+}
+
+/** Values passed for constructor parameters that are not mocked. */
+const DEFAULT_VALUES: Record<string, string> = {
+  int: "0",
+  long: "0L",
+  short: "0",
+  byte: "0",
+  double: "0.0d",
+  float: "0.0f",
+  boolean: "false",
+  char: "' ' as char",
+  Integer: "0",
+  Long: "0L",
+  Double: "0.0d",
+  Boolean: "false",
+  String: '""',
+  BigDecimal: "0.0",
+};
+
+const TEST_DECLARATION =
+  /^\s*(?:(?:public|protected|private|static|final)\s+)*(?:def|void)\s+(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([\w$]+))\s*\(/gm;
+
 export class SpockGenerator {
   /**
-   * Generates the content for a Spock Specification file.
+   * Default test class suffix of a template.
+   */
+  public static defaultSuffix(template: TestTemplate = "spock"): string {
+    return template.startsWith("junit") ? "Test" : "Spec";
+  }
+
+  /**
+   * Generates the content for a test class of the configured template.
    */
   public generateSpec(
     className: string,
     methods: MethodInfo[],
     packageName: string,
+    options: GeneratorOptions = {},
   ): string {
-    // TODO: Make suffix configurable (e.g. 'Spec', 'SpockTest', 'Test')
-    const specName = `${className}Spec`;
-
+    const template = options.template ?? "spock";
+    const testName = `${className}${options.suffix ?? SpockGenerator.defaultSuffix(template)}`;
+    const parameters = options.constructorParameters ?? [];
+    const packageDecl = packageName ? `package ${packageName}\n\n` : "";
     const methodTests = methods
-      .map((m) => {
-        return `    def "should test ${m.name}"() {
-        given:
-        // TODO: Mock dependencies
-        def subject = new ${className}()
+      .map((m) => this.generateStub(template, className, m, parameters))
+      .join("\n\n");
 
-        when:
-        // subject.${m.name}()
+    switch (template) {
+      case "junit5":
+      case "junit4": {
+        const imports =
+          template === "junit5"
+            ? "import org.junit.jupiter.api.Test\n\nimport static org.junit.jupiter.api.Assertions.assertNotNull"
+            : "import org.junit.Test\n\nimport static org.junit.Assert.assertNotNull";
+        return `${packageDecl}${imports}
 
-        then:
-        // verify results
-        true
-    }`;
-      })
-      .join("\n\n");
+class ${testName} {
 
-    const packageDecl = packageName ? `package ${packageName}\n\n` : "";
+    @Test
+    void "${className} should instantiate"() {
+        assertNotNull(${newInstance(className, parameters)})
+    }
 
-    return `${packageDecl}import spock.lang.Specification
+${methodTests}
+}
+`;
+      }
 
-class ${specName} extends Specification {
+      case "spock-mocks": {
+        const mocks = parameters
+          .filter(isMockable)
+          .map((p) => `    ${p.type} ${p.name} = Mock()`);
+        const fields = mocks.length > 0 ? `${mocks.join("\n")}\n\n` : "";
+        return `${packageDecl}import spock.lang.Specification
+import spock.lang.Subject
+
+class ${testName} extends Specification {
+
+${fields}    @Subject
+    ${className} subject = ${newInstance(className, parameters, true)}
 
     def "${className} should instantiate"() {
         expect:
-        new ${className}() != null
+        subject != null
     }
 
 ${methodTests}
 }
 `;
+      }
+
+      default:
+        return `${packageDecl}import spock.lang.Specification
+
+class ${testName} extends Specification {
+
+    def "${className} should instantiate"() {
+        expect:
+        ${newInstance(className, parameters)} != null
+    }
+
+${methodTests}
+}
+`;
+    }
+  }
+
+  /**
+   * Stubs for the methods that do not have a test in an existing test file
+   * yet, inserted before the class's closing brace. The file's own style
+   * (Spock or JUnit) wins over the configured template.
+   * Returns undefined when every method already has a test.
+   */
+  public mergeIntoExisting(
+    existing: string,
+    className: string,
+    methods: MethodInfo[],
+    options: GeneratorOptions = {},
+  ): TestMerge | undefined {
+    const testNames = findTestNames(existing);
+    const missing = methods.filter(
+      (m) => !testNames.some((name) => mentionsMethod(name, m.name)),
+    );
+    const offset = existing.lastIndexOf("}");
+    if (missing.length === 0 || offset < 0) {
+      return undefined;
+    }
+
+    const template = detectTemplate(existing) ?? options.template ?? "spock";
+    // A generated spock-mocks spec builds the subject in a field
+    const effective =
+      template === "spock" && /@Subject\b/.test(existing)
+        ? "spock-mocks"
+        : template;
+    const stubs = missing.map((m) =>
+      this.generateStub(
+        effective,
+        className,
+        m,
+        options.constructorParameters ?? [],
+      ),
+    );
+    // Keep one blank line between the last test and the new stubs
+    const before = existing.slice(0, offset).replace(/\s*$/, "");
+    return {
+      offset: before.length,
+      text: `\n\n${stubs.join("\n\n")}`,
+      added: missing.map((m) => m.name),
+    };
+  }
+
+  /**
+   * Reads the parameters of the class's constructor with the most parameters.
+   */
+  public parseConstructorParameters(
+    source: string,
+    className: string,
+  ): ParameterInfo[] {
+    const declaration = new RegExp(
+      `^\\s*(?:(?:public|protected|private)\\s+)?${className}\\s*\\(`,
+      "gm",
+    );
+    let best: ParameterInfo[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = declaration.exec(source))) {
+      const start = match.index + match[0].length;
+      const end = closingParenthesis(source, start - 1);
+      const parameters = splitTopLevel(source.slice(start, end))
+        .map(parseParameter)
+        .filter((p): p is ParameterInfo => p !== undefined);
+      if (parameters.length > best.length) {
+        best = parameters;
+      }
+    }
+    return best;
   }
 
   /**
@@ -56,7 +223,10 @@ ${methodTests}
    * @todo PROD-READY: Replace heuristic with project-model query (e.g. Gradle model).
    * Current logic assumes standard 'src/main/groovy' -> 'src/test/groovy' layout.
    */
-  public resolveTestPath(sourcePath: string): string | undefined {
+  public resolveTestPath(
+    sourcePath: string,
+    suffix = "Spec",
+  ): string | undefined {
     // Heuristic: Replace 'src/main' with 'src/test'
     if (sourcePath.includes(path.sep + "main" + path.sep)) {
       const testPath = sourcePath.replace(
@@ -65,9 +235,8 @@ ${methodTests}
       );
 
       // Handle suffix change: .groovy -> Spec.groovy
-      // TODO: Use configurable suffix
       if (testPath.endsWith(".groovy")) {
-        return testPath.replace(".groovy", "Spec.groovy");
+        return testPath.replace(".groovy", `${suffix}.groovy`);
       }
     }
 
@@ -75,7 +244,7 @@ ${methodTests}
     // TODO: Handle non-standard layouts better
     const dir = path.dirname(sourcePath);
     const fileName = path.basename(sourcePath);
-    const testFileName = fileName.replace(".groovy", "Spec.groovy");
+    const testFileName = fileName.replace(".groovy", `${suffix}.groovy`);
     return path.join(dir, "..", "test", testFileName);
   }
 
@@ -86,4 +255,155 @@ ${methodTests}
     const match = text.match(/^package\s+([\w.]+)/m);
     return match ? match[1] : "";
   }
+
+  private generateStub(
+    template: TestTemplate,
+    className: string,
+    method: MethodInfo,
+    parameters: ParameterInfo[],
+  ): string {
+    switch (template) {
+      case "junit5":
+      case "junit4":
+        return `    @Test
+    void test${method.name.charAt(0).toUpperCase()}${method.name.slice(1)}() {
+        def subject = ${newInstance(className, parameters)}
+
+        // subject.${method.name}()
+    }`;
+
+      case "spock-mocks":
+        return `    def "should test ${method.name}"() {
+        given:
+        // TODO: Stub collaborators, e.g. collaborator.call(_) >> result
+
+        when:
+        // subject.${method.name}()
+
+        then:
+        // verify results and interactions, e.g. 1 * collaborator.call(_)
+        true
+    }`;
+
+      default:
+        return `    def "should test ${method.name}"() {
+        given:
+        // TODO: Mock dependencies
+        def subject = ${newInstance(className, parameters)}
+
+        when:
+        // subject.${method.name}()
+
+        then:
+        // verify results
+        true
+    }`;
+    }
+  }
+}
+
+/**
+ * `new Foo(...)` with mocks (the field of the same name) or default values.
+ */
+function newInstance(
+  className: string,
+  parameters: ParameterInfo[],
+  useMocks = false,
+): string {
+  const args = parameters.map((p) =>
+    useMocks && isMockable(p)
+      ? p.name
+      : (DEFAULT_VALUES[p.type ?? ""] ?? "null"),
+  );
+  return `new ${className}(${args.join(", ")})`;
+}
+
+function isMockable(
+  parameter: ParameterInfo,
+): parameter is Required<ParameterInfo> {
+  return (
+    parameter.type !== undefined &&
+    !(parameter.type in DEFAULT_VALUES) &&
+    !parameter.type.endsWith("[]")
+  );
+}
+
+/**
+ * Names of the tests (Spock features or JUnit methods) declared in a test file.
+ */
+function findTestNames(source: string): string[] {
+  return [...source.matchAll(TEST_DECLARATION)].map(
+    (m) => m[1] ?? m[2] ?? m[3],
+  );
+}
+
+/**
+ * Whether a test name refers to a method, e.g. "saves the user" or
+ * "testFindByName" for `save` and `findByName`.
+ */
+function mentionsMethod(testName: string, methodName: string): boolean {
+  // The last word may be inflected: save -> saves, saved
+  return new RegExp(`(?:^| )${words(methodName)}[a-z\\d]*(?: |$)`).test(
+    words(testName),
+  );
+}
+
+function words(name: string): string {
+  return name
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter((w) => w !== "")
+    .join(" ");
+}
+
+function detectTemplate(source: string): TestTemplate | undefined {
+  if (/\bextends\s+Specification\b/.test(source)) {
+    return "spock";
+  }
+  if (/import\s+org\.junit\.jupiter\./.test(source)) {
+    return "junit5";
+  }
+  if (/import\s+org\.junit\./.test(source)) {
+    return "junit4";
+  }
+  return undefined;
+}
+
+function parseParameter(text: string): ParameterInfo | undefined {
+  const tokens = text
+    .replace(/@[\w.]+(?:\s*\([^)]*\))?/g, "")
+    .replace(/=[\s\S]*$/, "")
+    .replace(/\bfinal\b/g, "")
+    .replace(/\s*\.\.\.\s*/, "[] ")
+    .trim()
+    .split(/\s+(?=[\w$]+$)/);
+  const name = tokens[tokens.length - 1];
+  if (!name || !/^[\w$]+$/.test(name)) {
+    return undefined;
+  }
+  const type = tokens.length > 1 ? tokens[0].trim() : undefined;
+  return { name, type: type === "def" ? undefined : type };
+}
+
+/**
+ * Split on commas outside of brackets, e.g. in `Map<String, Long> a, int b`.
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ("<([{".includes(char)) {
+      depth++;
+    } else if (">)]}".includes(char)) {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.filter((part) => part.trim() !== "");
 }
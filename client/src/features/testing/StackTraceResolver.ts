@@ -0,0 +1,98 @@
+import * as vscode from "vscode";
+import { EXCLUDED_FILES_GLOB } from "../../utils/globs";
+import type { StackFrameInfo } from "./FailureMessageParser";
+
+const SOURCE_FILES_GLOB = "**/*.{groovy,java,kt}";
+
+/**
+ * Maps stack frames to workspace source locations.
+ * Sources are indexed by file name once and re-indexed after files are added or removed,
+ * so frames can be resolved synchronously while test output streams in.
+ */
+export class StackTraceResolver implements vscode.Disposable {
+  private index: Map<string, vscode.Uri[]> | undefined;
+  private indexing: Promise<void> | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILES_GLOB);
+    const invalidate = () => {
+      this.index = undefined;
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(invalidate),
+      watcher.onDidDelete(invalidate),
+    );
+  }
+
+  /**
+   * Build the source index if needed. Call before a run so frames resolve.
+   */
+  public prepare(): Promise<void> {
+    if (this.index) {
+      return Promise.resolve();
+    }
+    this.indexing ??= this.buildIndex().finally(() => {
+      this.indexing = undefined;
+    });
+    return this.indexing;
+  }
+
+  /**
+   * Workspace location of a frame, if its source file is in the workspace.
+   */
+  public resolve(frame: StackFrameInfo): vscode.Location | undefined {
+    if (!this.index || !frame.fileName || frame.line === undefined) {
+      return undefined;
+    }
+    const candidates = this.index.get(frame.fileName);
+    if (!candidates) {
+      return undefined;
+    }
+
+    // Prefer the file in the frame's package directory
+    const lastDot = frame.className.lastIndexOf(".");
+    const packagePath =
+      lastDot > 0 ? frame.className.slice(0, lastDot).replaceAll(".", "/") : "";
+    const suffix = packagePath
+      ? `/${packagePath}/${frame.fileName}`
+      : `/${frame.fileName}`;
+    const uri =
+      candidates.find((candidate) => candidate.path.endsWith(suffix)) ??
+      (candidates.length === 1 ? candidates[0] : undefined);
+    if (!uri) {
+      return undefined;
+    }
+    return new vscode.Location(
+      uri,
+      new vscode.Position(Math.max(0, frame.line - 1), 0),
+    );
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private async buildIndex(): Promise<void> {
+    try {
+      const files = await vscode.workspace.findFiles(
+        SOURCE_FILES_GLOB,
+        EXCLUDED_FILES_GLOB,
+      );
+      const index = new Map<string, vscode.Uri[]>();
+      for (const uri of files) {
+        const fileName = uri.path.slice(uri.path.lastIndexOf("/") + 1);
+        const uris = index.get(fileName) ?? [];
+        uris.push(uri);
+        index.set(fileName, uris);
+      }
+      this.index = index;
+    } catch (error) {
+      console.warn(
+        "[Testing] Could not index sources for stack traces:",
+        error,
+      );
+    }
+  }
+}
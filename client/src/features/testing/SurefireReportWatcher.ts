@@ -0,0 +1,178 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseJUnitReport } from "./JUnitReportParser";
+import type { TestResultItem } from "./TestService";
+
+const REPORT_DIRECTORIES = ["surefire-reports", "failsafe-reports"];
+const REPORT_FILE_PATTERN = /^TEST-.*\.xml$/;
+const MAX_MODULE_DEPTH = 4;
+
+/** Surefire and Failsafe announce each test class: "[INFO] Running com.example.FooSpec". */
+const RUNNING_CLASS_PATTERN =
+  /^(?:\[INFO\]\s+)?Running\s+([\w$]+(?:\.[\w$]+)*)\s*$/;
+
+/**
+ * The test class a Surefire or Failsafe output line announces, if any.
+ */
+export function parseRunningClass(line: string): string | undefined {
+  return RUNNING_CLASS_PATTERN.exec(line.trim())?.[1];
+}
+
+/**
+ * Streams Maven test results while the build runs. Surefire and Failsafe write
+ * one `TEST-<class>.xml` report per test class as soon as the class finishes;
+ * the watcher polls the report directories of every module and passes the
+ * results of new or rewritten reports to `onReport`.
+ */
+export class SurefireReportWatcher {
+  private reportDirectories: string[] = [];
+  /** Modification time of every report already seen, including stale ones from earlier builds */
+  private readonly seen = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | undefined;
+  /** The poll in progress; polls run one after another */
+  private polling: Promise<void> | undefined;
+
+  constructor(
+    private readonly projectDir: string,
+    private readonly onReport: (results: TestResultItem[]) => void,
+    private readonly intervalMs = 1000,
+  ) {}
+
+  /**
+   * Find the report directories and start polling. Call before the build
+   * starts, so reports left over from earlier builds are told apart.
+   */
+  public async start(): Promise<void> {
+    this.reportDirectories = (await findModules(this.projectDir, 0)).flatMap(
+      (module) =>
+        REPORT_DIRECTORIES.map((dir) => path.join(module, "target", dir)),
+    );
+    // Reports left over from earlier builds are not results of this run
+    for (const [file, mtime] of await this.listReports()) {
+      this.seen.set(file, mtime);
+    }
+    this.timer = setInterval(() => {
+      // A slow poll is not overtaken; the next tick picks up what it missed
+      if (!this.polling) {
+        void this.poll();
+      }
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop polling after picking up the reports written since the last poll.
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.poll();
+  }
+
+  /**
+   * Read the reports that appeared or changed since the last poll. A poll
+   * requested while another one runs starts when that one is done.
+   */
+  public poll(): Promise<void> {
+    const poll = (this.polling ?? Promise.resolve()).then(() =>
+      this.readNewReports(),
+    );
+    this.polling = poll;
+    const done = () => {
+      if (this.polling === poll) {
+        this.polling = undefined;
+      }
+    };
+    poll.then(done, done);
+    return poll;
+  }
+
+  private async readNewReports(): Promise<void> {
+    for (const [file, mtime] of await this.listReports()) {
+      if (this.seen.get(file) === mtime) {
+        continue;
+      }
+      let xml: string;
+      try {
+        xml = await fs.promises.readFile(file, "utf8");
+      } catch {
+        continue;
+      }
+      // Still being written; read it again on the next poll
+      if (!xml.trimEnd().endsWith("</testsuite>")) {
+        continue;
+      }
+      this.seen.set(file, mtime);
+      const results = parseJUnitReport(xml);
+      if (results.length > 0) {
+        this.onReport(results);
+      }
+    }
+  }
+
+  private async listReports(): Promise<[string, number][]> {
+    const reports: [string, number][] = [];
+    for (const dir of this.reportDirectories) {
+      let names: string[];
+      try {
+        names = await fs.promises.readdir(dir);
+      } catch {
+        // Not created yet
+        continue;
+      }
+      for (const name of names) {
+        if (!REPORT_FILE_PATTERN.test(name)) {
+          continue;
+        }
+        const file = path.join(dir, name);
+        try {
+          reports.push([file, (await fs.promises.stat(file)).mtimeMs]);
+        } catch {
+          // Removed in between, e.g. by "mvn clean"
+        }
+      }
+    }
+    return reports;
+  }
+}
+
+/**
+ * The project directory and its nested Maven modules.
+ */
+async function findModules(dir: string, depth: number): Promise<string[]> {
+  const modules = [dir];
+  if (depth >= MAX_MODULE_DEPTH) {
+    return modules;
+  }
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return modules;
+  }
+  for (const entry of entries) {
+    if (
+      !entry.isDirectory() ||
+      entry.name.startsWith(".") ||
+      entry.name === "target" ||
+      entry.name === "src" ||
+      entry.name === "node_modules"
+    ) {
+      continue;
+    }
+    const child = path.join(dir, entry.name);
+    if (await isFile(path.join(child, "pom.xml"))) {
+      modules.push(...(await findModules(child, depth + 1)));
+    }
+  }
+  return modules;
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
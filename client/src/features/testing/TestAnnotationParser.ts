@@ -0,0 +1,191 @@
+/**
+ * Why a spec or feature does not run like the others.
+ * - ignored: `@Ignore` (Spock, JUnit 4) or `@Disabled` (JUnit 5)
+ * - pending: `@PendingFeature`, expected to fail until implemented
+ * - conditional: `@IgnoreIf` or `@Requires`, skipped depending on the environment
+ */
+export type SkipKind = "ignored" | "pending" | "conditional";
+
+/**
+ * What the annotations on a spec class or feature method say about it.
+ */
+export interface TestAnnotations {
+  /** Names from `@Tag("slow")` and `@Category(Slow)` */
+  tags: string[];
+  /** Whether the spec runs its features in declaration order (`@Stepwise`) */
+  stepwise: boolean;
+  skip?: { kind: SkipKind; annotation: string };
+}
+
+const SKIP_ANNOTATIONS: Record<string, SkipKind> = {
+  Ignore: "ignored",
+  Disabled: "ignored",
+  PendingFeature: "pending",
+  IgnoreIf: "conditional",
+  Requires: "conditional",
+};
+
+/**
+ * Read the annotations stacked above (and in front of) the declaration on
+ * zero-based line `declarationLine`.
+ */
+export function readAnnotations(
+  source: string,
+  declarationLine: number,
+): TestAnnotations {
+  const lines = source.split(/\r?\n/);
+  const result: TestAnnotations = { tags: [], stepwise: false };
+  if (declarationLine < 0 || declarationLine >= lines.length) {
+    return result;
+  }
+
+  const text = [
+    ...annotationLines(lines, declarationLine),
+    leadingAnnotations(lines[declarationLine]),
+  ].join("\n");
+
+  for (const { name, args } of scanAnnotations(text)) {
+    if (name === "Tag") {
+      result.tags.push(...stringLiterals(args));
+    } else if (name === "Category") {
+      result.tags.push(...classNames(args));
+    } else if (name === "Stepwise") {
+      result.stepwise = true;
+    } else if (SKIP_ANNOTATIONS[name] && !result.skip) {
+      result.skip = { kind: SKIP_ANNOTATIONS[name], annotation: `@${name}` };
+    }
+  }
+  result.tags = [...new Set(result.tags)];
+  return result;
+}
+
+/**
+ * Zero-based line declaring the class with the given simple name, if any.
+ */
+export function findClassDeclaration(
+  source: string,
+  simpleName: string,
+): number | undefined {
+  const pattern = new RegExp(`\\bclass\\s+${escapeRegExp(simpleName)}\\b`);
+  const index = source
+    .split(/\r?\n/)
+    .findIndex((line) => pattern.test(stripLineComment(line)));
+  return index >= 0 ? index : undefined;
+}
+
+/**
+ * The annotation lines directly above a declaration. Arguments may span
+ * lines, e.g. a closure in `@IgnoreIf({ ... })`.
+ */
+function annotationLines(lines: string[], declarationLine: number): string[] {
+  let start = declarationLine;
+  // Parentheses still open when reading upwards, i.e. inside annotation arguments
+  let depth = 0;
+  for (let i = declarationLine - 1; i >= 0; i--) {
+    const text = stripLineComment(lines[i]).trim();
+    depth += count(text, ")") - count(text, "(");
+    // Blank lines and doc comments may sit between annotations
+    if (depth > 0 || text === "" || /^\/?\*/.test(text)) {
+      continue;
+    }
+    if (!text.startsWith("@")) {
+      break;
+    }
+    start = i;
+  }
+  return lines
+    .slice(start, declarationLine)
+    .filter((line) => !/^\s*\/?\*/.test(line))
+    .map(stripLineComment);
+}
+
+/**
+ * Annotation names (without package) and their argument text.
+ */
+function* scanAnnotations(
+  text: string,
+): Generator<{ name: string; args: string }> {
+  const pattern = /@([\w$.]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const name = match[1].split(".").pop()!;
+    let args = "";
+    let i = match.index + match[0].length;
+    while (/\s/.test(text[i] ?? "")) {
+      i++;
+    }
+    if (text[i] === "(") {
+      args = text.slice(i + 1, closingParenthesis(text, i));
+    }
+    // Nested annotations, e.g. @Tags([@Tag("a"), @Tag("b")]), are scanned as well
+    yield { name, args };
+  }
+}
+
+/**
+ * Annotations in front of a declaration on the same line, e.g. `@Ignore def "x"()`.
+ */
+function leadingAnnotations(line: string): string {
+  let end = 0;
+  for (;;) {
+    const match = /^\s*@[\w$.]+\s*/.exec(line.slice(end));
+    if (!match) {
+      return line.slice(0, end);
+    }
+    end += match[0].length;
+    if (line[end] === "(") {
+      end = closingParenthesis(line, end) + 1;
+    }
+  }
+}
+
+function stringLiterals(args: string): string[] {
+  return [...args.matchAll(/"([^"]*)"|'([^']*)'/g)]
+    .map((m) => (m[1] ?? m[2]).trim())
+    .filter((tag) => tag !== "");
+}
+
+/**
+ * Simple class names from `Slow`, `Slow.class`, `[Slow, Fast]` or `value = com.example.Slow`.
+ */
+function classNames(args: string): string[] {
+  return args
+    .replace(/\bvalue\s*=/, "")
+    .split(/[\s,[\]{}]+/)
+    .map(
+      (name) =>
+        name
+          .replace(/\.class$/, "")
+          .split(".")
+          .pop()!,
+    )
+    .filter((name) => /^[A-Za-z_$][\w$]*$/.test(name));
+}
+
+/**
+ * Index of the parenthesis closing the one at `open`, or the end of the text.
+ */
+export function closingParenthesis(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "(") {
+      depth++;
+    } else if (text[i] === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+function stripLineComment(line: string): string {
+  const index = line.indexOf("//");
+  return index >= 0 ? line.slice(0, index) : line;
+}
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
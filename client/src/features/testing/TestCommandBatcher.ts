@@ -0,0 +1,142 @@
+import { TestCommand } from "./TestService";
+
+/**
+ * A test command for one requested item, before batching.
+ */
+export interface TestCommandEntry<T> {
+  item: T;
+  command: TestCommand;
+  /** Commands are only merged within the same scope (e.g. workspace folder) */
+  scope: string;
+}
+
+/**
+ * One build invocation and the items whose tests it runs.
+ */
+export interface TestCommandBatch<T> {
+  command: TestCommand;
+  items: T[];
+  scope: string;
+}
+
+type FilterStyle = "gradle" | "maven" | "none";
+
+interface SplitArgs {
+  style: FilterStyle;
+  /** Arguments without the test filters */
+  baseArgs: string[];
+  /** Where the filters appeared in the original arguments */
+  filterIndex: number;
+  filters: string[];
+}
+
+const GRADLE_TESTS_OPTION = "--tests";
+const MAVEN_TEST_PROPERTY = "-Dtest=";
+
+/**
+ * Separate Gradle `--tests` filters or the Surefire `-Dtest=` list from the other arguments.
+ */
+function splitFilters(args: string[]): SplitArgs {
+  const baseArgs: string[] = [];
+  const filters: string[] = [];
+  let style: FilterStyle = "none";
+  let filterIndex = -1;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    let found: string[] | undefined;
+    if (arg === GRADLE_TESTS_OPTION && i + 1 < args.length) {
+      found = [args[++i]];
+      style = "gradle";
+    } else if (arg.startsWith(`${GRADLE_TESTS_OPTION}=`)) {
+      found = [arg.slice(GRADLE_TESTS_OPTION.length + 1)];
+      style = "gradle";
+    } else if (arg.startsWith(MAVEN_TEST_PROPERTY)) {
+      found = arg
+        .slice(MAVEN_TEST_PROPERTY.length)
+        .split(",")
+        .filter((filter) => filter.length > 0);
+      style = "maven";
+    }
+
+    if (found) {
+      if (filterIndex < 0) {
+        filterIndex = baseArgs.length;
+      }
+      filters.push(...found);
+    } else {
+      baseArgs.push(arg);
+    }
+  }
+
+  return { style, baseArgs, filterIndex, filters };
+}
+
+function joinFilters(split: SplitArgs, filters: string[]): string[] {
+  const filterArgs =
+    split.style === "gradle"
+      ? filters.flatMap((filter) => [GRADLE_TESTS_OPTION, filter])
+      : [`${MAVEN_TEST_PROPERTY}${filters.join(",")}`];
+  const args = [...split.baseArgs];
+  args.splice(split.filterIndex, 0, ...filterArgs);
+  return args;
+}
+
+function envKey(env: Record<string, string> | undefined): string {
+  return JSON.stringify(
+    Object.entries(env ?? {}).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+/**
+ * Merge commands that only differ in their test filters into one invocation per
+ * project and build tool: Gradle gets one `--tests` per filter, Maven a single
+ * `-Dtest=A,B#m` list. Commands without filters are only merged when identical.
+ * Batches keep the order in which their first item was requested.
+ */
+export function batchTestCommands<T>(
+  entries: TestCommandEntry<T>[],
+): TestCommandBatch<T>[] {
+  const groups = new Map<
+    string,
+    { split: SplitArgs; filters: string[]; batch: TestCommandBatch<T> }
+  >();
+
+  for (const { item, command, scope } of entries) {
+    const split = splitFilters(command.args);
+    const key = JSON.stringify([
+      scope,
+      command.executable,
+      command.cwd,
+      envKey(command.env),
+      split.style,
+      split.style === "none" ? command.args : split.baseArgs,
+      split.filterIndex,
+    ]);
+
+    const group = groups.get(key);
+    if (group) {
+      group.batch.items.push(item);
+      for (const filter of split.filters) {
+        if (!group.filters.includes(filter)) {
+          group.filters.push(filter);
+        }
+      }
+      continue;
+    }
+    groups.set(key, {
+      split,
+      filters: [...new Set(split.filters)],
+      batch: { command, items: [item], scope },
+    });
+  }
+
+  return [...groups.values()].map(({ split, filters, batch }) =>
+    split.style === "none"
+      ? batch
+      : {
+          ...batch,
+          command: { ...batch.command, args: joinFilters(split, filters) },
+        },
+  );
+}
@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import * as net from "net";
+
+/**
+ * Extension that provides the "java" debug type used to attach to test JVMs.
+ */
+export const JAVA_DEBUG_EXTENSION_ID = "vscjava.vscode-java-debug";
+
+/**
+ * Project property read by test-events.init.gradle to start the test JVM with a JDWP agent.
+ */
+export const GRADLE_DEBUG_PORT_PROPERTY = "groovyTestDebugPort";
+
+/**
+ * Printed by the JDWP agent once the test JVM is suspended and waiting for a debugger.
+ */
+export const JDWP_LISTENING_PATTERN =
+  /Listening for transport dt_socket at address:\s*(\d+)/;
+
+/**
+ * Ask the OS for a free local TCP port for the JDWP agent.
+ */
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      server.close(() => {
+        if (address && typeof address === "object") {
+          resolve(address.port);
+        } else {
+          reject(new Error("Could not allocate a debug port"));
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Build the extra build tool arguments that make the forked test JVM
+ * suspend and listen for a debugger on the given port.
+ */
+export function buildDebugArgs(
+  buildTool: "gradle" | "maven",
+  port: number,
+): string[] {
+  if (buildTool === "gradle") {
+    // The init script turns this into a jvmArgs entry on every Test task
+    return [`-P${GRADLE_DEBUG_PORT_PROPERTY}=${port}`];
+  }
+
+  // Surefire appends any non-boolean value of maven.surefire.debug to the argLine
+  return [
+    `-Dmaven.surefire.debug=-agentlib:jdwp=transport=dt_socket,server=y,suspend=y,address=localhost:${port}`,
+  ];
+}
+
+/**
+ * Attach a Java debug session to a test JVM listening on the given port.
+ * Returns false if the Java debugger is not installed or the session failed to start.
+ */
+export async function attachDebugger(
+  workspaceFolder: vscode.WorkspaceFolder | undefined,
+  port: number,
+): Promise<boolean> {
+  if (!vscode.extensions.getExtension(JAVA_DEBUG_EXTENSION_ID)) {
+    vscode.window
+      .showWarningMessage(
+        "Debugging Groovy tests requires the 'Debugger for Java' extension.",
+        "Install",
+      )
+      .then((selection) => {
+        if (selection === "Install") {
+          vscode.commands.executeCommand(
+            "workbench.extensions.installExtension",
+            JAVA_DEBUG_EXTENSION_ID,
+          );
+        }
+      });
+    return false;
+  }
+
+  return vscode.debug.startDebugging(workspaceFolder, {
+    type: "java",
+    name: `Debug Groovy Tests (port ${port})`,
+    request: "attach",
+    hostName: "localhost",
+    port,
+  });
+}
@@ -1,4 +1,11 @@
 import * as vscode from "vscode";
+import type { TestOutcome } from "./TestHistory";
+import type { TestResultItem } from "./TestService";
+import {
+  parseExpectedActual,
+  parseStackTrace,
+  StackFrameInfo,
+} from "./FailureMessageParser";
 
 /**
  * Events emitted by the Gradle init script.
@@ -7,17 +14,160 @@ export type TestEventType =
   | "suiteStarted"
   | "suiteFinished"
   | "testStarted"
-  | "testFinished";
+  | "testFinished"
+  | "testOutput";
 
 export interface TestEvent {
   event: TestEventType;
   id: string;
   name: string;
   parent?: string;
+  /** Feature method of a data-driven iteration (Spock @Unroll, JUnit parameterized) */
+  feature?: string;
   result?: "SUCCESS" | "FAILURE" | "SKIPPED";
   duration?: number;
   message?: string;
   stackTrace?: string;
+  /** Set by the init script for comparison failures (opentest4j, JUnit 4, Spock) */
+  expected?: string;
+  actual?: string;
+  /** Text printed by a test, for testOutput events */
+  output?: string;
+  stream?: "StdOut" | "StdErr";
+}
+
+/**
+ * Maps stack frames to workspace source locations.
+ */
+export interface StackFrameResolver {
+  resolve(frame: StackFrameInfo): vscode.Location | undefined;
+}
+
+export interface FailureDetails {
+  message: string;
+  stackTrace?: string;
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Build a TestMessage for a failure: a diff when expected and actual values are
+ * known or can be parsed from the message, with stack frames linked to workspace
+ * sources. The message is placed at the innermost frame in the workspace.
+ */
+export function createFailureMessage(
+  failure: FailureDetails,
+  resolver?: StackFrameResolver,
+): vscode.TestMessage {
+  const frames = failure.stackTrace ? parseStackTrace(failure.stackTrace) : [];
+  // Keep the raw trace when it could not be parsed into frames
+  const text =
+    failure.stackTrace && frames.length === 0
+      ? `${failure.message}\n\n${failure.stackTrace}`
+      : failure.message;
+
+  const comparison =
+    failure.expected !== undefined && failure.actual !== undefined
+      ? { expected: failure.expected, actual: failure.actual }
+      : parseExpectedActual(failure.message);
+  const message = comparison
+    ? vscode.TestMessage.diff(text, comparison.expected, comparison.actual)
+    : new vscode.TestMessage(text);
+
+  if (frames.length > 0) {
+    message.stackTrace = frames.map((frame) => {
+      const location = resolver?.resolve(frame);
+      message.location ??= location;
+      return new vscode.TestMessageStackFrame(
+        `${frame.className}.${frame.methodName}`,
+        location?.uri,
+        location?.range.start,
+      );
+    });
+  }
+  return message;
+}
+
+/**
+ * Notified of every result reported to the run, e.g. to record test history.
+ */
+export type TestResultListener = (
+  item: vscode.TestItem,
+  status: TestOutcome,
+  durationMs?: number,
+  message?: string,
+) => void;
+
+/**
+ * Report a result collected after the fact (LSP results, imported reports) to a run.
+ */
+export function applyTestResult(
+  run: vscode.TestRun,
+  item: vscode.TestItem,
+  result: TestResultItem,
+  resolver?: StackFrameResolver,
+  onResult?: TestResultListener,
+): void {
+  // Append output if available (CRLF required for VS Code Test Results panel)
+  if (result.output) {
+    const formattedOutput = result.output.replace(/\r?\n/g, "\r\n");
+    run.appendOutput(`--- Output for ${result.name} ---\r\n`);
+    run.appendOutput(formattedOutput + "\r\n", undefined, item);
+  }
+
+  // Report status
+  switch (result.status) {
+    case "SUCCESS":
+      run.passed(item, result.durationMs);
+      onResult?.(item, "passed", result.durationMs);
+      break;
+    case "FAILURE":
+      {
+        const message = createFailureMessage(
+          {
+            message: result.failureMessage || "Test failed",
+            stackTrace: result.stackTrace,
+          },
+          resolver,
+        );
+        run.failed(item, message, result.durationMs);
+        onResult?.(item, "failed", result.durationMs, result.failureMessage);
+      }
+      break;
+    case "SKIPPED":
+      run.skipped(item);
+      onResult?.(item, "skipped");
+      break;
+    case "ERROR":
+      {
+        const errorMessage = createFailureMessage(
+          {
+            message: result.failureMessage || "Test error",
+            stackTrace: result.stackTrace,
+          },
+          resolver,
+        );
+        run.errored(item, errorMessage, result.durationMs);
+        onResult?.(item, "errored", result.durationMs, result.failureMessage);
+      }
+      break;
+  }
+}
+
+/**
+ * Locates the data rows behind data-driven iterations and tracks their results.
+ */
+export interface IterationTracker {
+  /**
+   * Source range of the iteration `name` of `feature`; `ordinal` is the number of
+   * iterations of the feature seen before it in this run.
+   */
+  locate(
+    feature: vscode.TestItem,
+    name: string,
+    ordinal: number,
+  ): vscode.Range | undefined;
+  report(item: vscode.TestItem, status: TestOutcome, message?: string): void;
 }
 
 /**
@@ -26,11 +176,18 @@ export interface TestEvent {
  */
 export class TestEventConsumer {
   private readonly testItems: Map<string, vscode.TestItem>;
+  /** Iterations seen per feature, for names that carry no index */
+  private readonly iterationCounts = new Map<vscode.TestItem, number>();
+  /** Iterations placed at their data row */
+  private readonly iterationItems = new Set<vscode.TestItem>();
 
   constructor(
     private readonly run: vscode.TestRun,
     private readonly logger: vscode.OutputChannel,
     private readonly testController?: vscode.TestController,
+    private readonly onResult?: TestResultListener,
+    private readonly stackFrameResolver?: StackFrameResolver,
+    private readonly iterationTracker?: IterationTracker,
   ) {
     this.testItems = new Map();
   }
@@ -48,6 +205,8 @@ export class TestEventConsumer {
    */
   public clear(): void {
     this.testItems.clear();
+    this.iterationCounts.clear();
+    this.iterationItems.clear();
   }
 
   /**
@@ -122,7 +281,12 @@ export class TestEventConsumer {
     }
 
     // For Spock @Unroll: dynamically create subtest if not found
-    if (!item && event.parent && this.testController) {
+    if (
+      !item &&
+      event.parent &&
+      this.testController &&
+      event.event !== "testOutput"
+    ) {
       item = this.createDynamicSubtest(event);
     }
 
@@ -150,19 +314,51 @@ export class TestEventConsumer {
       case "suiteFinished":
         this.logger.appendLine(`[SUITE] Finished: ${event.name}`);
         break;
+
+      case "testOutput":
+        this.appendOutput(item, event);
+        break;
     }
   }
 
+  /**
+   * Attach captured stdout/stderr to the test that printed it, at the test's location.
+   */
+  private appendOutput(
+    item: vscode.TestItem | undefined,
+    event: TestEvent,
+  ): void {
+    if (!event.output) {
+      return;
+    }
+    // CRLF required for VS Code Test Results panel
+    const text = event.output.replace(/\r?\n/g, "\r\n");
+    const location =
+      item?.uri && item.range
+        ? new vscode.Location(item.uri, item.range)
+        : undefined;
+    this.run.appendOutput(
+      // Show stderr in red, as a terminal would
+      event.stream === "StdErr" ? `\x1b[31m${text}\x1b[0m` : text,
+      location,
+      item,
+    );
+  }
+
   /**
    * Dynamically create a child TestItem for Spock @Unroll iterations.
    * These appear at runtime with names like "test #0" or "maximum of 1 and 3 is 3".
+   * Iterations of a known feature are placed under it, at their where: row.
    */
   private createDynamicSubtest(event: TestEvent): vscode.TestItem | undefined {
     if (!this.testController || !event.parent) {
       return undefined;
     }
 
-    const parentItem = this.testItems.get(event.parent);
+    const featureItem = event.feature
+      ? this.findFeatureItem(event.parent, event.feature)
+      : undefined;
+    const parentItem = featureItem ?? this.testItems.get(event.parent);
     if (!parentItem) {
       // Parent not found, log and skip
       this.logger.appendLine(
@@ -178,6 +374,19 @@ export class TestEventConsumer {
       parentItem.uri,
     );
 
+    if (featureItem && this.iterationTracker) {
+      const ordinal = this.iterationCounts.get(featureItem) ?? 0;
+      this.iterationCounts.set(featureItem, ordinal + 1);
+      childItem.range = this.iterationTracker.locate(
+        featureItem,
+        event.name,
+        ordinal,
+      );
+      if (childItem.range) {
+        this.iterationItems.add(childItem);
+      }
+    }
+
     // Add to parent's children
     parentItem.children.add(childItem);
 
@@ -185,7 +394,7 @@ export class TestEventConsumer {
     this.testItems.set(event.id, childItem);
 
     this.logger.appendLine(
-      `[DYNAMIC] Created subtest: ${event.name} under ${event.parent}`,
+      `[DYNAMIC] Created subtest: ${event.name} under ${parentItem.id}`,
     );
 
     // Mark as enqueued then started
@@ -194,31 +403,69 @@ export class TestEventConsumer {
     return childItem;
   }
 
+  /**
+   * The feature item of an iteration: registered itself, or a child of its registered suite.
+   */
+  private findFeatureItem(
+    suiteId: string,
+    feature: string,
+  ): vscode.TestItem | undefined {
+    const featureId = `${suiteId}.${feature}`;
+    return (
+      this.testItems.get(featureId) ??
+      this.testItems.get(suiteId)?.children.get(featureId)
+    );
+  }
+
+  /**
+   * Notify all listeners of a reported result.
+   */
+  private notifyResult(...result: Parameters<TestResultListener>): void {
+    this.onResult?.(...result);
+    const [item, status, , message] = result;
+    if (this.iterationItems.has(item)) {
+      this.iterationTracker?.report(item, status, message);
+    }
+  }
+
   private reportTestResult(item: vscode.TestItem, event: TestEvent): void {
     switch (event.result) {
       case "SUCCESS":
         this.run.passed(item, event.duration);
+        this.notifyResult(item, "passed", event.duration);
         break;
 
-      case "FAILURE":
+      case "FAILURE": {
+        const message = event.message ?? "Test failed";
         this.run.failed(
           item,
-          new vscode.TestMessage(event.message ?? "Test failed"),
+          createFailureMessage(
+            {
+              message,
+              stackTrace: event.stackTrace,
+              expected: event.expected,
+              actual: event.actual,
+            },
+            this.stackFrameResolver,
+          ),
           event.duration,
         );
+        this.notifyResult(item, "failed", event.duration, message);
         break;
+      }
 
       case "SKIPPED":
         this.run.skipped(item);
+        this.notifyResult(item, "skipped");
         break;
 
-      default:
+      default: {
         // Unknown result type, treat as error
-        this.run.errored(
-          item,
-          new vscode.TestMessage(`Unknown test result: ${event.result}`),
-        );
+        const message = `Unknown test result: ${event.result}`;
+        this.run.errored(item, new vscode.TestMessage(message));
+        this.notifyResult(item, "errored", undefined, message);
         break;
+      }
     }
   }
 
@@ -237,6 +484,7 @@ export class TestEventConsumer {
    */
   public markPassed(item: vscode.TestItem): void {
     this.run.passed(item);
+    this.notifyResult(item, "passed");
   }
 
   /**
@@ -244,5 +492,6 @@ export class TestEventConsumer {
    */
   public markFailed(item: vscode.TestItem, message: string): void {
     this.run.failed(item, new vscode.TestMessage(message));
+    this.notifyResult(item, "failed", undefined, message);
   }
 }
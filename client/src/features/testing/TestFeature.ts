@@ -1,14 +1,22 @@
 import * as vscode from "vscode";
-import { SpockGenerator } from "./SpockGenerator";
+import {
+  GeneratorOptions,
+  MethodInfo,
+  SpockGenerator,
+  TestTemplate,
+} from "./SpockGenerator";
+import { TestSourceSetResolver } from "./TestSourceSetResolver";
 import * as fs from "fs";
 import * as path from "path";
 
 export class TestFeature implements vscode.Disposable {
   private disposables: vscode.Disposable[] = [];
   private generator: SpockGenerator;
+  private sourceSets: TestSourceSetResolver;
 
-  constructor() {
+  constructor(state: vscode.Memento) {
     this.generator = new SpockGenerator();
+    this.sourceSets = new TestSourceSetResolver(state);
     this.registerCommands();
   }
 
@@ -27,6 +35,28 @@ export class TestFeature implements vscode.Disposable {
           await this.generateTest(targetUri);
         },
       ),
+      vscode.commands.registerCommand(
+        "groovy.test.chooseSourceSet",
+        async (uri?: vscode.Uri) => {
+          const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+          if (!targetUri) {
+            vscode.window.showErrorMessage(
+              "Open a Groovy file to choose its test source set.",
+            );
+            return;
+          }
+          const sourceSet = await this.sourceSets.choose(targetUri);
+          if (sourceSet) {
+            vscode.window.showInformationMessage(
+              `Tests of ${path.basename(sourceSet.module)} go to the '${sourceSet.name}' source set`,
+            );
+          } else {
+            vscode.window.showWarningMessage(
+              "No test source sets found for this module.",
+            );
+          }
+        },
+      ),
     );
   }
 
@@ -56,33 +86,56 @@ export class TestFeature implements vscode.Disposable {
         return;
       }
 
-      const methods = classSymbol.children.filter(
-        (s) => s.kind === vscode.SymbolKind.Method,
-      );
+      const methods = classSymbol.children
+        .filter((s) => s.kind === vscode.SymbolKind.Method)
+        .map((m) => ({ name: m.name }));
 
       // 3. Generate Content
+      const options = this.getGeneratorOptions(sourceUri);
+      options.constructorParameters = this.generator.parseConstructorParameters(
+        document.getText(),
+        classSymbol.name,
+      );
       const packageName = this.generator.detectPackage(document.getText());
       const content = this.generator.generateSpec(
         classSymbol.name,
-        methods.map((m) => ({ name: m.name })),
+        methods,
         packageName,
+        options,
       );
 
       // 4. Resolve Path & Write
-      const testPath = this.generator.resolveTestPath(sourceUri.fsPath);
+      let unresolved = false;
+      const testPath = await this.sourceSets.resolveTestPath(
+        sourceUri,
+        `${classSymbol.name}${options.suffix}.groovy`,
+        () => {
+          const guess = this.generator.resolveTestPath(
+            sourceUri.fsPath,
+            options.suffix,
+          );
+          unresolved = !guess;
+          return guess;
+        },
+      );
       if (!testPath) {
-        vscode.window.showErrorMessage(
-          "Could not resolve test path. Structure 'src/main' not found.",
-        );
+        if (unresolved) {
+          vscode.window.showErrorMessage(
+            "Could not resolve test path. Structure 'src/main' not found.",
+          );
+        }
+        // Otherwise the source set pick was cancelled
         return;
       }
       const testUri = vscode.Uri.file(testPath);
 
       if (fs.existsSync(testUri.fsPath)) {
-        vscode.window.showWarningMessage(
-          `Test file already exists: ${path.basename(testUri.fsPath)}`,
+        await this.mergeIntoExisting(
+          testUri,
+          classSymbol.name,
+          methods,
+          options,
         );
-        // TODO: V2 - Prompt to overwrite or merge
         return;
       }
 
@@ -100,6 +153,61 @@ export class TestFeature implements vscode.Disposable {
     }
   }
 
+  /**
+   * Add stubs for the methods that have no test yet to an existing test file.
+   */
+  private async mergeIntoExisting(
+    testUri: vscode.Uri,
+    className: string,
+    methods: MethodInfo[],
+    options: GeneratorOptions,
+  ) {
+    const testDoc = await vscode.workspace.openTextDocument(testUri);
+    const merge = this.generator.mergeIntoExisting(
+      testDoc.getText(),
+      className,
+      methods,
+      options,
+    );
+    const fileName = path.basename(testUri.fsPath);
+    if (!merge) {
+      await vscode.window.showTextDocument(testDoc);
+      vscode.window.showInformationMessage(
+        `Every method of ${className} already has a test in ${fileName}`,
+      );
+      return;
+    }
+
+    // A workspace edit keeps unsaved changes and can be undone
+    const edit = new vscode.WorkspaceEdit();
+    const position = testDoc.positionAt(merge.offset);
+    edit.insert(testUri, position, merge.text);
+    await vscode.workspace.applyEdit(edit);
+
+    const editor = await vscode.window.showTextDocument(testDoc);
+    const firstStub = new vscode.Position(position.line + 2, 0);
+    editor.revealRange(
+      new vscode.Range(firstStub, firstStub),
+      vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+    );
+    vscode.window.showInformationMessage(
+      `Added ${merge.added.length} test stubs to ${fileName}: ${merge.added.join(", ")}`,
+    );
+  }
+
+  private getGeneratorOptions(sourceUri: vscode.Uri): GeneratorOptions {
+    const config = vscode.workspace.getConfiguration("groovy", sourceUri);
+    const template = config.get<TestTemplate>(
+      "test.generator.template",
+      "spock",
+    );
+    const suffix = config.get<string>("test.generator.suffix", "").trim();
+    return {
+      template,
+      suffix: suffix || SpockGenerator.defaultSuffix(template),
+    };
+  }
+
   public dispose() {
     this.disposables.forEach((d) => d.dispose());
   }
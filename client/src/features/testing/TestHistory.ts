@@ -0,0 +1,203 @@
+import type { TestItem } from "vscode";
+
+/**
+ * Outcome of one test in one run.
+ */
+export type TestOutcome = "passed" | "failed" | "errored" | "skipped";
+
+export interface TestHistoryEntry {
+  status: TestOutcome;
+  durationMs?: number;
+  /** First line of the failure message */
+  message?: string;
+  timestamp: number;
+  /** Workspace code version when the test ran; equal versions mean no code changed in between */
+  codeVersion: number;
+}
+
+export interface TestHistoryRecord {
+  id: string;
+  label: string;
+  /** Parent item, used when a dynamic item (e.g. an @Unroll iteration) no longer exists */
+  parentId?: string;
+  uri?: string;
+  /** Zero-based line of the test */
+  line?: number;
+  /** Oldest first */
+  entries: TestHistoryEntry[];
+}
+
+/**
+ * A test result as reported to a TestRun, before it is stored.
+ */
+export interface TestRunResult {
+  id: string;
+  label: string;
+  parentId?: string;
+  uri?: string;
+  line?: number;
+  status: TestOutcome;
+  durationMs?: number;
+  message?: string;
+}
+
+export interface TestStreak {
+  status: TestOutcome;
+  count: number;
+}
+
+/** Runs kept per test. */
+export const MAX_ENTRIES_PER_TEST = 20;
+
+/** Tests kept in total; the least recently run are dropped first. */
+export const MAX_TESTS = 2000;
+
+const MAX_MESSAGE_LENGTH = 200;
+
+function isFailure(status: TestOutcome): boolean {
+  return status === "failed" || status === "errored";
+}
+
+/**
+ * Add the results of a run to the history, returning the new history.
+ */
+export function addRunResults(
+  records: readonly TestHistoryRecord[],
+  results: readonly TestRunResult[],
+  timestamp: number,
+  codeVersion: number,
+): TestHistoryRecord[] {
+  const byId = new Map(records.map((record) => [record.id, record]));
+
+  for (const result of results) {
+    const existing = byId.get(result.id);
+    const entry: TestHistoryEntry = {
+      status: result.status,
+      durationMs: result.durationMs,
+      message: result.message
+        ?.split(/\r?\n/, 1)[0]
+        .slice(0, MAX_MESSAGE_LENGTH),
+      timestamp,
+      codeVersion,
+    };
+    // Re-insert so the map stays ordered by last run
+    byId.delete(result.id);
+    byId.set(result.id, {
+      id: result.id,
+      label: result.label,
+      parentId: result.parentId ?? existing?.parentId,
+      uri: result.uri ?? existing?.uri,
+      line: result.line ?? existing?.line,
+      entries: [...(existing?.entries ?? []), entry].slice(
+        -MAX_ENTRIES_PER_TEST,
+      ),
+    });
+  }
+
+  return [...byId.values()].slice(-MAX_TESTS);
+}
+
+export function lastEntry(
+  record: TestHistoryRecord,
+): TestHistoryEntry | undefined {
+  return record.entries[record.entries.length - 1];
+}
+
+/**
+ * Whether the most recent run of a test failed or errored.
+ */
+export function isFailing(record: TestHistoryRecord): boolean {
+  const last = lastEntry(record);
+  return last !== undefined && isFailure(last.status);
+}
+
+/**
+ * The current run of identical outcomes, newest first.
+ */
+export function currentStreak(
+  record: TestHistoryRecord,
+): TestStreak | undefined {
+  const last = lastEntry(record);
+  if (!last) {
+    return undefined;
+  }
+  let count = 0;
+  for (let i = record.entries.length - 1; i >= 0; i--) {
+    if (record.entries[i].status !== last.status) {
+      break;
+    }
+    count++;
+  }
+  return { status: last.status, count };
+}
+
+/**
+ * A test is flaky when it both passed and failed at the same code version.
+ * Skipped runs say nothing about flakiness and are ignored.
+ */
+export function isFlaky(record: TestHistoryRecord): boolean {
+  const outcomes = new Map<number, Set<boolean>>();
+  for (const entry of record.entries) {
+    if (entry.status === "skipped") {
+      continue;
+    }
+    const seen = outcomes.get(entry.codeVersion) ?? new Set<boolean>();
+    seen.add(isFailure(entry.status));
+    if (seen.size > 1) {
+      return true;
+    }
+    outcomes.set(entry.codeVersion, seen);
+  }
+  return false;
+}
+
+/**
+ * Snapshot a reported test item for the history.
+ */
+export function toTestRunResult(
+  item: Pick<TestItem, "id" | "label" | "uri" | "range" | "parent">,
+  status: TestOutcome,
+  durationMs?: number,
+  message?: string,
+): TestRunResult {
+  return {
+    id: item.id,
+    // Explorer labels start with a codicon
+    label: item.label.replace(/^\$\([\w-]+\)\s*/, ""),
+    parentId: item.parent?.id,
+    uri: item.uri?.toString(),
+    line: item.range?.start.line,
+    status,
+    durationMs,
+    message,
+  };
+}
+
+const STATUS_SYMBOLS: Record<TestOutcome, string> = {
+  passed: "✓",
+  failed: "✗",
+  errored: "!",
+  skipped: "-",
+};
+
+/**
+ * Compact timeline of recent outcomes, oldest first, e.g. "✓✓✗✓".
+ */
+export function formatTimeline(record: TestHistoryRecord): string {
+  return record.entries.map((entry) => STATUS_SYMBOLS[entry.status]).join("");
+}
+
+/**
+ * Short description of a test's recent history, e.g. "failed 3× · flaky".
+ */
+export function describeHistory(record: TestHistoryRecord): string {
+  const streak = currentStreak(record);
+  if (!streak) {
+    return "";
+  }
+  const parts = [`${streak.status} ${streak.count}×`];
+  if (isFlaky(record)) {
+    parts.push("flaky");
+  }
+  return parts.join(" · ");
+}
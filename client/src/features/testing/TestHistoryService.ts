@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import {
+  addRunResults,
+  isFailing,
+  TestHistoryRecord,
+  TestRunResult,
+} from "./TestHistory";
+
+export const TEST_HISTORY_STATE_KEY = "groovy.test.history";
+const CODE_VERSION_STATE_KEY = "groovy.test.codeVersion";
+
+/** Files whose changes can change test outcomes. */
+const SOURCE_FILES_GLOB =
+  "**/{*.groovy,*.java,*.gradle,*.gradle.kts,pom.xml,*.properties}";
+
+/** Build output is rewritten by every run and is not a code change. */
+const GENERATED_PATH_PATTERN = /[\\/](build|target|out|\.gradle)[\\/]/;
+
+/**
+ * Persists test results across reloads in workspace storage.
+ * Source changes bump a code version so flaky tests (status flips without
+ * code changes) can be told apart from tests broken or fixed by an edit.
+ */
+export class TestHistoryService implements vscode.Disposable {
+  private records: TestHistoryRecord[];
+  private codeVersion: number;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /** Fired after a run is recorded or the history is cleared. */
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {
+    this.records = state.get<TestHistoryRecord[]>(TEST_HISTORY_STATE_KEY, []);
+    this.codeVersion = state.get<number>(CODE_VERSION_STATE_KEY, 0);
+
+    const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILES_GLOB);
+    this.disposables.push(
+      watcher,
+      this.changeEmitter,
+      watcher.onDidCreate((uri) => this.onSourceChanged(uri)),
+      watcher.onDidChange((uri) => this.onSourceChanged(uri)),
+      watcher.onDidDelete((uri) => this.onSourceChanged(uri)),
+    );
+  }
+
+  public getRecords(): readonly TestHistoryRecord[] {
+    return this.records;
+  }
+
+  /**
+   * Tests whose most recent run failed or errored.
+   */
+  public getFailingTests(): TestHistoryRecord[] {
+    return this.records.filter(isFailing);
+  }
+
+  public async recordRun(results: readonly TestRunResult[]): Promise<void> {
+    if (results.length === 0) {
+      return;
+    }
+    this.records = addRunResults(
+      this.records,
+      results,
+      Date.now(),
+      this.codeVersion,
+    );
+    await this.state.update(TEST_HISTORY_STATE_KEY, this.records);
+    this.changeEmitter.fire();
+  }
+
+  public async clear(): Promise<void> {
+    this.records = [];
+    await this.state.update(TEST_HISTORY_STATE_KEY, undefined);
+    this.changeEmitter.fire();
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private onSourceChanged(uri: vscode.Uri): void {
+    if (GENERATED_PATH_PATTERN.test(uri.fsPath)) {
+      return;
+    }
+    this.codeVersion++;
+    void this.state.update(CODE_VERSION_STATE_KEY, this.codeVersion);
+  }
+}
@@ -0,0 +1,137 @@
+import * as vscode from "vscode";
+import {
+  describeHistory,
+  formatTimeline,
+  isFailing,
+  isFlaky,
+  lastEntry,
+  TestHistoryEntry,
+  TestHistoryRecord,
+  TestOutcome,
+} from "./TestHistory";
+import { TestHistoryService } from "./TestHistoryService";
+
+const STATUS_ICONS: Record<TestOutcome, [string, string]> = {
+  passed: ["testing-passed-icon", "testing.iconPassed"],
+  failed: ["testing-failed-icon", "testing.iconFailed"],
+  errored: ["testing-error-icon", "testing.iconErrored"],
+  skipped: ["testing-skipped-icon", "testing.iconSkipped"],
+};
+
+function statusIcon(status: TestOutcome): vscode.ThemeIcon {
+  const [icon, color] = STATUS_ICONS[status];
+  return new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
+}
+
+/**
+ * A test in the history view; its children are the recorded runs.
+ */
+export class TestHistoryItem extends vscode.TreeItem {
+  constructor(public readonly record: TestHistoryRecord) {
+    super(
+      record.label,
+      record.entries.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None,
+    );
+    this.id = record.id;
+    this.description = describeHistory(record);
+    this.contextValue = isFlaky(record) ? "flakyTest" : "test";
+
+    const last = lastEntry(record);
+    if (last) {
+      this.iconPath = statusIcon(last.status);
+    }
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendText(
+      `${record.id}\n\nRecent runs: ${formatTimeline(record)}`,
+    );
+    const lastFailure = [...record.entries].reverse().find((e) => e.message);
+    if (lastFailure) {
+      tooltip.appendText(`\n\nLast failure: ${lastFailure.message}`);
+    }
+    this.tooltip = tooltip;
+
+    if (record.uri) {
+      const line = record.line ?? 0;
+      this.command = {
+        command: "vscode.open",
+        title: "Open Test",
+        arguments: [
+          vscode.Uri.parse(record.uri),
+          { selection: new vscode.Range(line, 0, line, 0) },
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * A single recorded run of a test.
+ */
+export class TestHistoryEntryItem extends vscode.TreeItem {
+  constructor(entry: TestHistoryEntry) {
+    super(
+      new Date(entry.timestamp).toLocaleString(),
+      vscode.TreeItemCollapsibleState.None,
+    );
+    this.description =
+      entry.durationMs !== undefined
+        ? `${entry.status} (${entry.durationMs}ms)`
+        : entry.status;
+    this.iconPath = statusIcon(entry.status);
+    this.tooltip = entry.message;
+    this.contextValue = "testRun";
+  }
+}
+
+type HistoryTreeItem = TestHistoryItem | TestHistoryEntryItem;
+
+/**
+ * Provides the Groovy Test History view: flaky tests first, then failing tests,
+ * then the most recently run.
+ */
+export class TestHistoryTreeProvider
+  implements vscode.TreeDataProvider<HistoryTreeItem>, vscode.Disposable
+{
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly history: TestHistoryService) {
+    this.subscription = history.onDidChange(() =>
+      this._onDidChangeTreeData.fire(),
+    );
+  }
+
+  getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryTreeItem): HistoryTreeItem[] {
+    if (element instanceof TestHistoryItem) {
+      return [...element.record.entries]
+        .reverse()
+        .map((entry) => new TestHistoryEntryItem(entry));
+    }
+    if (element) {
+      return [];
+    }
+
+    const rank = (record: TestHistoryRecord) =>
+      isFlaky(record) ? 0 : isFailing(record) ? 1 : 2;
+    return [...this.history.getRecords()]
+      .sort(
+        (a, b) =>
+          rank(a) - rank(b) ||
+          (lastEntry(b)?.timestamp ?? 0) - (lastEntry(a)?.timestamp ?? 0),
+      )
+      .map((record) => new TestHistoryItem(record));
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,288 @@
+import { lastEntry, TestHistoryRecord } from "./TestHistory";
+
+/**
+ * Duration of a spec or feature: its last run and the average over the
+ * recorded runs. Features with iterations add up their iterations.
+ */
+export interface DurationStat {
+  id: string;
+  label: string;
+  module: string;
+  uri?: string;
+  /** Zero-based line, when known */
+  line?: number;
+  lastMs: number;
+  averageMs: number;
+  runs: number;
+}
+
+/**
+ * Total duration of one recorded run.
+ */
+export interface RunStat {
+  timestamp: number;
+  durationMs: number;
+  tests: number;
+}
+
+export interface ModuleStat {
+  module: string;
+  /** Sum of the last duration of every test in the module */
+  durationMs: number;
+  tests: number;
+}
+
+export interface TestInsights {
+  generatedAt: number;
+  slowestSpecs: DurationStat[];
+  slowestFeatures: DurationStat[];
+  /** Oldest first */
+  runs: RunStat[];
+  modules: ModuleStat[];
+}
+
+export interface TestInsightsOptions {
+  /** Entries per slowest list */
+  limit: number;
+  /** Most recent runs in the trend */
+  runs: number;
+  /** Module of a test file, e.g. "core" for ".../core/src/test/groovy/FooSpec.groovy" */
+  moduleOf: (uri: string | undefined) => string;
+}
+
+/** Module name for tests that are not in a subproject. */
+export const ROOT_MODULE = "(root)";
+
+interface Accumulator {
+  id: string;
+  label: string;
+  uri?: string;
+  line?: number;
+  lastMs: number;
+  averageMs: number;
+  runs: number;
+  tests: number;
+}
+
+/**
+ * Aggregate the durations recorded in the test history.
+ */
+export function computeTestInsights(
+  records: readonly TestHistoryRecord[],
+  options: TestInsightsOptions,
+  generatedAt = Date.now(),
+): TestInsights {
+  const specs = new Map<string, Accumulator>();
+  const features = new Map<string, Accumulator>();
+  const runs = new Map<number, RunStat>();
+  const specUris = new Map<string, string>();
+  const featureSpecs = new Map<string, string>();
+
+  for (const record of records) {
+    const { specId, featureId } = locate(record);
+    if (record.uri) {
+      specUris.set(specId, record.uri);
+    }
+
+    for (const entry of record.entries) {
+      if (entry.durationMs === undefined) {
+        continue;
+      }
+      const run = runs.get(entry.timestamp) ?? {
+        timestamp: entry.timestamp,
+        durationMs: 0,
+        tests: 0,
+      };
+      run.durationMs += entry.durationMs;
+      run.tests++;
+      runs.set(entry.timestamp, run);
+    }
+
+    const timed = record.entries.filter((e) => e.durationMs !== undefined);
+    if (timed.length === 0) {
+      continue;
+    }
+    const lastMs = lastEntry(record)?.durationMs ?? 0;
+    const averageMs =
+      timed.reduce((sum, e) => sum + e.durationMs!, 0) / timed.length;
+
+    featureSpecs.set(featureId, specId);
+    const feature = accumulate(features, featureId, {
+      label:
+        featureId === record.id
+          ? record.label
+          : featureId.slice(specId.length + 1),
+      uri: record.uri,
+      // Iterations sit on their data rows, the feature on its declaration
+      line: featureId === record.id ? record.line : undefined,
+    });
+    const spec = accumulate(specs, specId, {
+      label: specId.slice(specId.lastIndexOf(".") + 1),
+      uri: record.uri,
+    });
+    for (const stat of [feature, spec]) {
+      stat.lastMs += lastMs;
+      stat.averageMs += averageMs;
+      stat.runs = Math.max(stat.runs, timed.length);
+      stat.tests++;
+    }
+  }
+
+  const toStat = (acc: Accumulator, specId: string): DurationStat => {
+    const uri = acc.uri ?? specUris.get(specId);
+    return {
+      id: acc.id,
+      label: acc.label,
+      module: options.moduleOf(uri),
+      uri,
+      line: acc.line,
+      lastMs: acc.lastMs,
+      averageMs: Math.round(acc.averageMs),
+      runs: acc.runs,
+    };
+  };
+  const specStats = [...specs.values()].map((acc) => toStat(acc, acc.id));
+  const featureStats = [...features.values()].map((acc) =>
+    toStat(acc, featureSpecs.get(acc.id)!),
+  );
+
+  const modules = new Map<string, ModuleStat>();
+  for (const spec of specStats) {
+    const stat = modules.get(spec.module) ?? {
+      module: spec.module,
+      durationMs: 0,
+      tests: 0,
+    };
+    stat.durationMs += spec.lastMs;
+    stat.tests += specs.get(spec.id)!.tests;
+    modules.set(spec.module, stat);
+  }
+
+  return {
+    generatedAt,
+    slowestSpecs: slowest(specStats, options.limit),
+    slowestFeatures: slowest(featureStats, options.limit),
+    runs: [...runs.values()]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-options.runs),
+    modules: [...modules.values()].sort((a, b) => b.durationMs - a.durationMs),
+  };
+}
+
+/**
+ * Module of a workspace-relative test path: the directories before `src`.
+ */
+export function moduleFromPath(relativePath: string): string {
+  const parts = relativePath.split(/[\\/]/);
+  const src = parts.indexOf("src");
+  return src > 0 ? parts.slice(0, src).join("/") : ROOT_MODULE;
+}
+
+/**
+ * Human-readable duration, e.g. "850 ms", "12.4 s" or "3 min 05 s".
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)} ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)} s`;
+  }
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)} min ${String(seconds % 60).padStart(2, "0")} s`;
+}
+
+/**
+ * One CSV row per spec, feature, module and run.
+ */
+export function insightsToCsv(insights: TestInsights): string {
+  const rows: (string | number)[][] = [
+    ["type", "name", "module", "lastMs", "averageMs", "runs"],
+  ];
+  for (const spec of insights.slowestSpecs) {
+    rows.push([
+      "spec",
+      spec.id,
+      spec.module,
+      spec.lastMs,
+      spec.averageMs,
+      spec.runs,
+    ]);
+  }
+  for (const feature of insights.slowestFeatures) {
+    rows.push([
+      "feature",
+      feature.id,
+      feature.module,
+      feature.lastMs,
+      feature.averageMs,
+      feature.runs,
+    ]);
+  }
+  for (const module of insights.modules) {
+    rows.push([
+      "module",
+      module.module,
+      module.module,
+      module.durationMs,
+      "",
+      "",
+    ]);
+  }
+  for (const run of insights.runs) {
+    rows.push([
+      "run",
+      new Date(run.timestamp).toISOString(),
+      "",
+      run.durationMs,
+      "",
+      "",
+    ]);
+  }
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Spec and feature of a history record. Iterations are recorded with their
+ * feature as parent; features with their spec.
+ */
+function locate(record: TestHistoryRecord): {
+  specId: string;
+  featureId: string;
+} {
+  const suffix = `.${record.label}`;
+  if (record.id.endsWith(suffix)) {
+    const owner = record.id.slice(0, -suffix.length);
+    if (record.parentId === undefined || record.parentId === owner) {
+      return { specId: owner, featureId: record.id };
+    }
+    // An iteration, e.g. "com.example.MathSpec.max [a: 1, #0]" of the feature "com.example.MathSpec.max"
+    return { specId: owner, featureId: record.parentId };
+  }
+  return {
+    specId: record.parentId ?? record.id,
+    featureId: record.id,
+  };
+}
+
+function accumulate(
+  map: Map<string, Accumulator>,
+  id: string,
+  initial: Pick<Accumulator, "label" | "uri" | "line">,
+): Accumulator {
+  let acc = map.get(id);
+  if (!acc) {
+    acc = { id, ...initial, lastMs: 0, averageMs: 0, runs: 0, tests: 0 };
+    map.set(id, acc);
+  }
+  return acc;
+}
+
+function slowest(stats: DurationStat[], limit: number): DurationStat[] {
+  return [...stats].sort((a, b) => b.lastMs - a.lastMs).slice(0, limit);
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
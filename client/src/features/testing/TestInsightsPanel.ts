@@ -0,0 +1,261 @@
+import * as vscode from "vscode";
+import { escapeHtml, getNonce } from "../../ui/webview";
+import { TestHistoryService } from "./TestHistoryService";
+import {
+  computeTestInsights,
+  DurationStat,
+  formatDuration,
+  insightsToCsv,
+  moduleFromPath,
+  ROOT_MODULE,
+  TestInsights,
+} from "./TestInsights";
+
+/** Entries in the slowest spec and feature tables. */
+const SLOWEST_LIMIT = 25;
+/** Runs in the duration trend; the history keeps 20 runs per test. */
+const TREND_RUNS = 20;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+type ExportFormat = "csv" | "json";
+
+/**
+ * "Test Insights" webview: where test time goes, aggregated from the
+ * durations recorded in the test history.
+ */
+export class TestInsightsPanel {
+  public static currentPanel: TestInsightsPanel | undefined;
+  public static readonly viewType = "groovyTestInsights";
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private insights: TestInsights | undefined;
+
+  public static createOrShow(
+    extensionUri: vscode.Uri,
+    history: TestHistoryService,
+  ): void {
+    if (TestInsightsPanel.currentPanel) {
+      TestInsightsPanel.currentPanel.panel.reveal();
+      TestInsightsPanel.currentPanel.update();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      TestInsightsPanel.viewType,
+      "Test Insights",
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, "resources")],
+      },
+    );
+    TestInsightsPanel.currentPanel = new TestInsightsPanel(
+      panel,
+      extensionUri,
+      history,
+    );
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly extensionUri: vscode.Uri,
+    private readonly history: TestHistoryService,
+  ) {
+    this.update();
+
+    this.panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.type) {
+          case "export":
+            void this.export(message.format);
+            break;
+          case "open":
+            void this.openTest(message.uri, message.line);
+            break;
+        }
+      },
+      null,
+      this.disposables,
+    );
+    // Refresh after every recorded run
+    this.history.onDidChange(() => this.update(), null, this.disposables);
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+  }
+
+  public update(): void {
+    this.insights = computeTestInsights(this.history.getRecords(), {
+      limit: SLOWEST_LIMIT,
+      runs: TREND_RUNS,
+      moduleOf: (uri) =>
+        uri
+          ? moduleFromPath(
+              vscode.workspace.asRelativePath(vscode.Uri.parse(uri), false),
+            )
+          : ROOT_MODULE,
+    });
+    this.panel.webview.html = this.getHtml(this.insights);
+  }
+
+  public dispose(): void {
+    TestInsightsPanel.currentPanel = undefined;
+    this.panel.dispose();
+    vscode.Disposable.from(...this.disposables).dispose();
+    this.disposables.length = 0;
+  }
+
+  private async export(format: ExportFormat): Promise<void> {
+    if (!this.insights) {
+      return;
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: folder
+        ? vscode.Uri.joinPath(folder, `test-insights.${format}`)
+        : undefined,
+      filters:
+        format === "csv"
+          ? { "CSV Files": ["csv"] }
+          : { "JSON Files": ["json"] },
+    });
+    if (!target) {
+      return;
+    }
+    const content =
+      format === "csv"
+        ? insightsToCsv(this.insights)
+        : JSON.stringify(this.insights, null, 2);
+    try {
+      await vscode.workspace.fs.writeFile(
+        target,
+        new TextEncoder().encode(content),
+      );
+      vscode.window.showInformationMessage(
+        `Exported test insights to ${vscode.workspace.asRelativePath(target)}`,
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to export test insights: ${error}`,
+      );
+    }
+  }
+
+  private async openTest(uri: string, line?: number): Promise<void> {
+    const position = new vscode.Position(line ?? 0, 0);
+    await vscode.window.showTextDocument(vscode.Uri.parse(uri), {
+      selection: new vscode.Range(position, position),
+      viewColumn: vscode.ViewColumn.Beside,
+    });
+  }
+
+  private getHtml(insights: TestInsights): string {
+    const webview = this.panel.webview;
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(
+        this.extensionUri,
+        "resources",
+        "test-insights",
+        "style.css",
+      ),
+    );
+    const nonce = getNonce();
+
+    const body =
+      insights.runs.length === 0
+        ? `<p class="empty">No test durations recorded yet. Run some tests to see where the time goes.</p>`
+        : `<h2>Duration trend</h2>
+            ${renderTrend(insights)}
+            <h2>Time per module</h2>
+            ${renderModules(insights)}
+            <h2>Slowest specs</h2>
+            ${renderDurations(insights.slowestSpecs)}
+            <h2>Slowest features</h2>
+            ${renderDurations(insights.slowestFeatures)}`;
+
+    return `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+                <title>Test Insights</title>
+                <link href="${styleUri}" rel="stylesheet">
+            </head>
+            <body>
+                <div class="toolbar">
+                    <span>Last ${insights.runs.length} recorded runs</span>
+                    <div class="spacer"></div>
+                    <button data-export="csv">Export CSV</button>
+                    <button data-export="json">Export JSON</button>
+                </div>
+                <div class="content">
+                    ${body}
+                </div>
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+                    document.addEventListener("click", (event) => {
+                        const target = event.target.closest("[data-export], [data-uri]");
+                        if (target?.dataset.export) {
+                            vscode.postMessage({ type: "export", format: target.dataset.export });
+                        } else if (target?.dataset.uri) {
+                            const line = target.dataset.line;
+                            vscode.postMessage({ type: "open", uri: target.dataset.uri, line: line ? Number(line) : undefined });
+                        }
+                    });
+                </script>
+            </body>
+            </html>`;
+  }
+}
+
+/**
+ * Bar chart of the total test time per run, oldest first.
+ */
+function renderTrend(insights: TestInsights): string {
+  const max = Math.max(...insights.runs.map((run) => run.durationMs), 1);
+  const slot = CHART_WIDTH / TREND_RUNS;
+  const bars = insights.runs.map((run, index) => {
+    const height = Math.max(1, (run.durationMs / max) * CHART_HEIGHT);
+    const date = new Date(run.timestamp).toLocaleString();
+    return `<rect class="bar" x="${index * slot + 2}" y="${CHART_HEIGHT - height}" width="${slot - 4}" height="${height}"><title>${escapeHtml(date)}: ${formatDuration(run.durationMs)} (${run.tests} tests)</title></rect>`;
+  });
+  const last = insights.runs[insights.runs.length - 1];
+  return `<svg class="trend" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="${CHART_WIDTH}" height="${CHART_HEIGHT}">${bars.join("")}</svg>
+            <p class="caption">Last run: ${formatDuration(last.durationMs)} for ${last.tests} tests · longest: ${formatDuration(max)}</p>`;
+}
+
+function renderModules(insights: TestInsights): string {
+  const total = insights.modules.reduce((sum, m) => sum + m.durationMs, 0);
+  const rows = insights.modules.map(
+    (module) => `<tr>
+        <td>${escapeHtml(module.module)}</td>
+        <td class="number">${module.tests}</td>
+        <td class="number">${formatDuration(module.durationMs)}</td>
+        <td class="number">${total > 0 ? Math.round((module.durationMs / total) * 100) : 0}%</td>
+      </tr>`,
+  );
+  return `<table>
+      <thead><tr><th>Module</th><th class="number">Tests</th><th class="number">Total</th><th class="number">Share</th></tr></thead>
+      <tbody>${rows.join("")}</tbody>
+    </table>`;
+}
+
+function renderDurations(stats: DurationStat[]): string {
+  const rows = stats.map((stat) => {
+    const link = stat.uri
+      ? ` data-uri="${escapeHtml(stat.uri)}"${stat.line !== undefined ? ` data-line="${stat.line}"` : ""}`
+      : "";
+    return `<tr>
+        <td><a${link} title="${escapeHtml(stat.id)}">${escapeHtml(stat.label)}</a></td>
+        <td>${escapeHtml(stat.module)}</td>
+        <td class="number">${formatDuration(stat.lastMs)}</td>
+        <td class="number">${formatDuration(stat.averageMs)}</td>
+        <td class="number">${stat.runs}</td>
+      </tr>`;
+  });
+  return `<table>
+      <thead><tr><th>Name</th><th>Module</th><th class="number">Last run</th><th class="number">Average</th><th class="number">Runs</th></tr></thead>
+      <tbody>${rows.join("")}</tbody>
+    </table>`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Test item ids are the fully qualified class name of a spec, followed by
+ * `.<feature>` for its features. A class found in several folders or modules
+ * gets one item per spec file, scoped as `<spec uri>::<class name>`.
+ */
+const SCOPE_SEPARATOR = "::";
+
+/** A leading `scheme://...::` scope; feature names may contain `::` themselves. */
+const SCOPE_PATTERN = /^[a-z][\w+.-]*:\/\/.*?::/i;
+
+/**
+ * Id of the item for spec class `suiteName`, scoped to `scope` if given.
+ */
+export function suiteItemId(suiteName: string, scope?: string): string {
+  return scope ? `${scope}${SCOPE_SEPARATOR}${suiteName}` : suiteName;
+}
+
+/**
+ * Id without its scope, i.e. the test as builds, events and reports name it.
+ */
+export function unscopedTestId(id: string): string {
+  return id.replace(SCOPE_PATTERN, "");
+}
@@ -0,0 +1,119 @@
+/**
+ * Test class suffixes, longest first so "FooIntegrationSpec" maps to "Foo".
+ */
+export const TEST_CLASS_SUFFIXES = [
+  "IntegrationSpec",
+  "IntegrationTest",
+  "SpockTest",
+  "Spec",
+  "Tests",
+  "Test",
+  "IT",
+];
+
+/**
+ * A class declared in a file, with its zero-based line.
+ */
+export interface DeclaredClass {
+  name: string;
+  line: number;
+  isTest: boolean;
+}
+
+const CLASS_DECLARATION =
+  /^\s*(?:(?:@[\w.]+(?:\([^)]*\))?|public|protected|private|abstract|final|static)\s+)*(?:class|interface|trait|enum)\s+([\w$]+)/;
+
+/**
+ * Names a test class for the given class would follow, e.g. "FooSpec" and "FooTest".
+ * A configured suffix comes first.
+ */
+export function testClassNames(
+  className: string,
+  extraSuffix?: string,
+): string[] {
+  const suffixes = extraSuffix
+    ? [extraSuffix, ...TEST_CLASS_SUFFIXES.filter((s) => s !== extraSuffix)]
+    : TEST_CLASS_SUFFIXES;
+  return suffixes.map((suffix) => `${className}${suffix}`);
+}
+
+/**
+ * The class a test class is named after: "FooSpec" -> "Foo".
+ */
+export function subjectClassName(
+  testClassName: string,
+  extraSuffix?: string,
+): string | undefined {
+  const suffixes = extraSuffix
+    ? [extraSuffix, ...TEST_CLASS_SUFFIXES]
+    : TEST_CLASS_SUFFIXES;
+  const suffix = suffixes.find(
+    (s) => testClassName.endsWith(s) && testClassName.length > s.length,
+  );
+  return suffix ? testClassName.slice(0, -suffix.length) : undefined;
+}
+
+/**
+ * Classes a spec tests, as the spec itself declares them: the type of
+ * `@Subject` fields, `@Subject([Foo, Bar])` on the class, and the class
+ * instantiated for `subject`, e.g. `def subject = new Foo()`.
+ */
+export function findSubjectClasses(source: string): string[] {
+  const names: string[] = [];
+  const add = (name: string | undefined) => {
+    if (name && /^[A-Z][\w$]*$/.test(name) && !names.includes(name)) {
+      names.push(name);
+    }
+  };
+
+  for (const match of source.matchAll(/@Subject\s*\(([^)]*)\)/g)) {
+    for (const name of match[1].split(/[\s,[\]]+/)) {
+      add(
+        name
+          .replace(/\.class$/, "")
+          .split(".")
+          .pop(),
+      );
+    }
+  }
+  // @Subject Foo foo = ... or @Subject def foo = new Foo(...)
+  for (const match of source.matchAll(
+    /@Subject\s+(?:(?:private|protected|public|final|static)\s+)*(?:def\s+\w+\s*=\s*new\s+([\w.]+)|([\w.]+)(?:<[^>]*>)?\s+\w+)/g,
+  )) {
+    add((match[1] ?? match[2]).split(".").pop());
+  }
+  // def subject = new Foo(...), Foo subject = new FooImpl(...)
+  for (const match of source.matchAll(
+    /\b(?:def|([\w.]+))\s+subject\s*=\s*(?:new\s+([\w.]+)|Spy\(([\w.]+))/g,
+  )) {
+    add((match[2] ?? match[3])?.split(".").pop());
+    add(match[1]?.split(".").pop());
+  }
+  return names;
+}
+
+/**
+ * The first top-level class declared in a file.
+ */
+export function findDeclaredClass(source: string): DeclaredClass | undefined {
+  const lines = source.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const match = CLASS_DECLARATION.exec(lines[i]);
+    if (match) {
+      return { name: match[1], line: i, isTest: isTestSource(source) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a file holds tests: a Spock specification or JUnit tests.
+ */
+export function isTestSource(source: string): boolean {
+  return (
+    /\bextends\s+(?:spock\.lang\.)?Specification\b/.test(source) ||
+    /^\s*@(?:org\.junit\.(?:jupiter\.api\.)?)?(?:Test|ParameterizedTest)\b/m.test(
+      source,
+    )
+  );
+}
@@ -0,0 +1,306 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { EXCLUDED_FILES_GLOB } from "../../utils/globs";
+import { ILSPToolService } from "../ai/types";
+import { SpockGenerator, TestTemplate } from "./SpockGenerator";
+import {
+  findDeclaredClass,
+  findSubjectClasses,
+  subjectClassName,
+  testClassNames,
+} from "./TestNavigation";
+import { TestSourceSetResolver } from "./TestSourceSetResolver";
+import { findSourceRoot } from "./TestSourceSets";
+
+/** Upper bound of test files read when looking for `@Subject` references. */
+const MAX_TEST_FILES = 500;
+const TEST_FILES_GLOB =
+  "**/src/**/*{Spec,Test,Tests,IT,SpockTest}.{groovy,java}";
+const SOURCE_EXTENSIONS = [".groovy", ".java"];
+
+interface NavigationTarget {
+  name: string;
+  uri: vscode.Uri;
+  /** Zero-based line of the declaration, when known */
+  line?: number;
+}
+
+/**
+ * Jumps between a class and its tests: "Go to Test" from a production class,
+ * "Go to Subject" from a spec. Tests are matched by naming convention
+ * (`FooSpec`, `FooTest`, ...), by the class they declare as their subject
+ * (`@Subject`, `def subject = new Foo()`) and by workspace symbol search.
+ */
+export class TestNavigator
+  implements vscode.CodeLensProvider, vscode.Disposable
+{
+  private disposables: vscode.Disposable[] = [];
+  private sourceSets: TestSourceSetResolver;
+
+  constructor(
+    state: vscode.Memento,
+    private readonly symbols: ILSPToolService,
+  ) {
+    this.sourceSets = new TestSourceSetResolver(state);
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "groovy.test.goToTest",
+        (uri?: vscode.Uri) => this.goToTest(uri),
+      ),
+      vscode.commands.registerCommand(
+        "groovy.test.goToSubject",
+        (uri?: vscode.Uri) => this.goToSubject(uri),
+      ),
+    );
+  }
+
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const enabled = vscode.workspace
+      .getConfiguration("groovy")
+      .get<boolean>("codelens.navigation.enabled", true);
+    const declared = enabled
+      ? findDeclaredClass(document.getText())
+      : undefined;
+    if (!declared) {
+      return [];
+    }
+    const position = new vscode.Position(declared.line, 0);
+    return [
+      new vscode.CodeLens(new vscode.Range(position, position), {
+        title: declared.isTest
+          ? "$(go-to-file) Go to Subject"
+          : "$(go-to-file) Go to Test",
+        command: declared.isTest
+          ? "groovy.test.goToSubject"
+          : "groovy.test.goToTest",
+        arguments: [document.uri],
+      }),
+    ];
+  }
+
+  private async goToTest(uri?: vscode.Uri): Promise<void> {
+    const document = await this.openSource(uri, "go to its tests");
+    const declared = document && findDeclaredClass(document.getText());
+    if (!document || !declared) {
+      return;
+    }
+
+    const suffix = this.getSuffix(document.uri);
+    const names = testClassNames(declared.name, suffix);
+    const targets = [
+      ...(await this.searchSymbols(declared.name, (n) => names.includes(n))),
+      ...(await this.findByConvention(document.uri, names, true)),
+      ...(await this.findSpecsOf(declared.name)),
+    ];
+    if (await this.open(targets, `Tests of ${declared.name}`)) {
+      return;
+    }
+
+    const create = `Create ${declared.name}${suffix}`;
+    const choice = await vscode.window.showInformationMessage(
+      `No tests found for ${declared.name}.`,
+      create,
+    );
+    if (choice === create) {
+      await vscode.commands.executeCommand(
+        "groovy.test.generate",
+        document.uri,
+      );
+    }
+  }
+
+  private async goToSubject(uri?: vscode.Uri): Promise<void> {
+    const document = await this.openSource(uri, "go to the class under test");
+    const declared = document && findDeclaredClass(document.getText());
+    if (!document || !declared) {
+      return;
+    }
+
+    // What the spec says it tests wins over what its name suggests
+    const names = findSubjectClasses(document.getText());
+    const byName = subjectClassName(
+      declared.name,
+      this.getSuffix(document.uri),
+    );
+    if (byName && !names.includes(byName)) {
+      names.push(byName);
+    }
+
+    const targets: NavigationTarget[] = [];
+    for (const name of names) {
+      targets.push(...(await this.searchSymbols(name, (n) => n === name)));
+    }
+    targets.push(...(await this.findByConvention(document.uri, names, false)));
+    if (!(await this.open(targets, `Subject of ${declared.name}`))) {
+      vscode.window.showInformationMessage(
+        `No class under test found for ${declared.name}.`,
+      );
+    }
+  }
+
+  private async openSource(
+    uri: vscode.Uri | undefined,
+    purpose: string,
+  ): Promise<vscode.TextDocument | undefined> {
+    const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+    if (!targetUri) {
+      vscode.window.showErrorMessage(`Open a Groovy file to ${purpose}.`);
+      return undefined;
+    }
+    const document = await vscode.workspace.openTextDocument(targetUri);
+    if (!findDeclaredClass(document.getText())) {
+      vscode.window.showErrorMessage("No class found in file.");
+      return undefined;
+    }
+    return document;
+  }
+
+  /**
+   * Classes found by the language server's workspace symbol search.
+   */
+  private async searchSymbols(
+    query: string,
+    matches: (name: string) => boolean,
+  ): Promise<NavigationTarget[]> {
+    try {
+      const symbols = await this.symbols.findWorkspaceSymbol(query);
+      return symbols
+        .filter(
+          (s) =>
+            ["Class", "Interface", "Enum"].includes(s.kind) && matches(s.name),
+        )
+        .map((s) => ({
+          name: s.name,
+          uri: vscode.Uri.parse(s.location.uri),
+          line: s.location.range.start.line,
+        }));
+    } catch (error) {
+      console.warn("[Testing] Workspace symbol search failed:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Files named after one of `names` at the same package in the module's
+   * test source sets (or main source sets when going back to the subject).
+   */
+  private async findByConvention(
+    fileUri: vscode.Uri,
+    names: string[],
+    toTests: boolean,
+  ): Promise<NavigationTarget[]> {
+    const sourceSets = await this.sourceSets.getSourceSets(fileUri);
+    const source = findSourceRoot(fileUri.fsPath, sourceSets);
+    if (!source) {
+      return [];
+    }
+    const packageDir = path.dirname(path.relative(source.root, fileUri.fsPath));
+    const targets: NavigationTarget[] = [];
+    for (const sourceSet of sourceSets.filter((s) => s.isTest === toTests)) {
+      for (const root of sourceSet.roots) {
+        for (const name of names) {
+          for (const extension of SOURCE_EXTENSIONS) {
+            const file = path.join(root, packageDir, `${name}${extension}`);
+            if (fs.existsSync(file)) {
+              targets.push({ name, uri: vscode.Uri.file(file) });
+            }
+          }
+        }
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Test files that declare `className` as their subject, whatever their name.
+   */
+  private async findSpecsOf(className: string): Promise<NavigationTarget[]> {
+    const files = await vscode.workspace.findFiles(
+      TEST_FILES_GLOB,
+      EXCLUDED_FILES_GLOB,
+      MAX_TEST_FILES,
+    );
+    const targets: NavigationTarget[] = [];
+    for (const file of files) {
+      try {
+        const source = await fs.promises.readFile(file.fsPath, "utf8");
+        if (
+          source.includes(className) &&
+          findSubjectClasses(source).includes(className)
+        ) {
+          const declared = findDeclaredClass(source);
+          targets.push({
+            name: declared?.name ?? path.parse(file.fsPath).name,
+            uri: file,
+            line: declared?.line,
+          });
+        }
+      } catch {
+        // Deleted since the search
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Open the only target or let the user pick one. Returns false when there
+   * is nothing to open.
+   */
+  private async open(
+    targets: NavigationTarget[],
+    placeHolder: string,
+  ): Promise<boolean> {
+    const unique = new Map<string, NavigationTarget>();
+    for (const target of targets) {
+      const key = target.uri.fsPath;
+      if (!unique.has(key) || unique.get(key)?.line === undefined) {
+        unique.set(key, target);
+      }
+    }
+    if (unique.size === 0) {
+      return false;
+    }
+
+    let target: NavigationTarget | undefined = [...unique.values()][0];
+    if (unique.size > 1) {
+      const pick = await vscode.window.showQuickPick(
+        [...unique.values()].map((t) => ({
+          label: t.name,
+          description: vscode.workspace.asRelativePath(t.uri),
+          target: t,
+        })),
+        { placeHolder },
+      );
+      target = pick?.target;
+    }
+    if (target) {
+      const document = await vscode.workspace.openTextDocument(target.uri);
+      const line =
+        target.line ?? findDeclaredClass(document.getText())?.line ?? 0;
+      const position = new vscode.Position(line, 0);
+      await vscode.window.showTextDocument(document, {
+        selection: new vscode.Range(position, position),
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Test class suffix `groovy.test.generate` would use for a file.
+   */
+  private getSuffix(uri: vscode.Uri): string {
+    const config = vscode.workspace.getConfiguration("groovy", uri);
+    const suffix = config.get<string>("test.generator.suffix", "").trim();
+    return (
+      suffix ||
+      SpockGenerator.defaultSuffix(
+        config.get<TestTemplate>("test.generator.template", "spock"),
+      )
+    );
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
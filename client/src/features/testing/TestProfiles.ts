@@ -0,0 +1,118 @@
+import type { TestCommand } from "./TestService";
+
+/** Project property the Gradle init script reads a profile's test JVM options from. */
+export const GRADLE_PROFILE_PROPERTY = "groovyTestProfile";
+
+/**
+ * A named set of test run options from `groovy.test.profiles`,
+ * offered as an extra run profile in the Test Explorer.
+ */
+export interface TestProfile {
+  name: string;
+  /** Arguments for the test JVM, e.g. "-Xmx2g" */
+  jvmArgs?: string[];
+  /** System properties of the test JVM */
+  systemProperties?: Record<string, string>;
+  /** Environment variables of the build and the test JVM */
+  env?: Record<string, string>;
+  /** Extra arguments for Gradle runs */
+  gradleArgs?: string[];
+  /** Extra arguments for Maven runs */
+  mavenArgs?: string[];
+}
+
+export type BuildTool = "gradle" | "maven";
+
+/**
+ * Read the profiles from the setting value, skipping malformed entries.
+ */
+export function readTestProfiles(value: unknown): TestProfile[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const profiles: TestProfile[] = [];
+  const names = new Set<string>();
+  for (const entry of value) {
+    if (typeof entry !== "object" || entry === null) {
+      continue;
+    }
+    const raw = entry as Record<string, unknown>;
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    // Names label the run profiles, so they must be unique
+    if (!name || names.has(name)) {
+      continue;
+    }
+    names.add(name);
+    profiles.push({
+      name,
+      jvmArgs: stringArray(raw.jvmArgs),
+      systemProperties: stringRecord(raw.systemProperties),
+      env: stringRecord(raw.env),
+      gradleArgs: stringArray(raw.gradleArgs),
+      mavenArgs: stringArray(raw.mavenArgs),
+    });
+  }
+  return profiles;
+}
+
+/**
+ * Merge a profile's options into a test command.
+ *
+ * Gradle gets the JVM options through the init script (command line `-D`
+ * flags would only reach the Gradle JVM). Maven passes system properties on
+ * to the forked test JVM and takes JVM arguments from `argLine`, unless the
+ * POM configures its own `<argLine>`.
+ */
+export function applyTestProfile(
+  command: TestCommand,
+  profile: TestProfile,
+  buildTool: BuildTool | undefined,
+): TestCommand {
+  const args = [...command.args];
+  const env = { ...command.env, ...profile.env };
+  const jvmArgs = profile.jvmArgs ?? [];
+  const systemProperties = Object.entries(profile.systemProperties ?? {});
+
+  if (buildTool === "gradle") {
+    if (jvmArgs.length > 0 || systemProperties.length > 0 || profile.env) {
+      const options = JSON.stringify({
+        jvmArgs,
+        systemProperties: profile.systemProperties ?? {},
+        env: profile.env ?? {},
+      });
+      args.push(
+        `-P${GRADLE_PROFILE_PROPERTY}=${Buffer.from(options, "utf8").toString("base64")}`,
+      );
+    }
+    args.push(...(profile.gradleArgs ?? []));
+  } else if (buildTool === "maven") {
+    for (const [key, value] of systemProperties) {
+      args.push(`-D${key}=${value}`);
+    }
+    if (jvmArgs.length > 0) {
+      args.push(`-DargLine=${jvmArgs.join(" ")}`);
+    }
+    args.push(...(profile.mavenArgs ?? []));
+  }
+
+  return { ...command, args, env };
+}
+
+function stringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : undefined;
+}
+
+function stringRecord(value: unknown): Record<string, string> | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const record: Record<string, string> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (["string", "number", "boolean"].includes(typeof item)) {
+      record[key] = String(item);
+    }
+  }
+  return record;
+}
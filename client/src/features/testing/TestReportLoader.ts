@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import { parseJUnitReport } from "./JUnitReportParser";
+import type { TestResultItem } from "./TestService";
+
+/** Where Gradle, Surefire and Failsafe write their JUnit XML reports. */
+const REPORTS_GLOB =
+  "**/{build/test-results,target/surefire-reports,target/failsafe-reports}/**/*.xml";
+const EXCLUDED_GLOB = "**/node_modules/**";
+
+interface ReportPick extends vscode.QuickPickItem {
+  files?: vscode.Uri[];
+}
+
+/**
+ * Ask for JUnit XML reports, from the workspace build output or a folder
+ * downloaded from CI, and parse their results.
+ * Returns undefined when the user cancels.
+ */
+export async function pickTestReports(): Promise<TestResultItem[] | undefined> {
+  const files = await pickReportFiles();
+  if (!files) {
+    return undefined;
+  }
+
+  const decoder = new TextDecoder();
+  const results: TestResultItem[] = [];
+  for (const file of files) {
+    try {
+      const xml = decoder.decode(await vscode.workspace.fs.readFile(file));
+      results.push(...parseJUnitReport(xml));
+    } catch (error) {
+      console.warn(`[Testing] Could not read test report ${file}:`, error);
+    }
+  }
+  return results;
+}
+
+async function pickReportFiles(): Promise<vscode.Uri[] | undefined> {
+  const workspaceReports = await vscode.workspace.findFiles(
+    REPORTS_GLOB,
+    EXCLUDED_GLOB,
+  );
+  if (workspaceReports.length === 0) {
+    return browseForReports();
+  }
+
+  // One entry per report directory, e.g. build/test-results/test
+  const byDirectory = new Map<string, vscode.Uri[]>();
+  for (const file of workspaceReports) {
+    const directory = vscode.Uri.joinPath(file, "..");
+    const label = vscode.workspace.asRelativePath(directory);
+    byDirectory.set(label, [...(byDirectory.get(label) ?? []), file]);
+  }
+
+  const picks: ReportPick[] = [...byDirectory]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, reportFiles]) => ({
+      label: `$(folder) ${label}`,
+      description: `${reportFiles.length} reports`,
+      files: reportFiles,
+    }));
+  if (picks.length > 1) {
+    picks.unshift({
+      label: "$(files) All workspace reports",
+      description: `${workspaceReports.length} reports`,
+      files: workspaceReports,
+    });
+  }
+  picks.push({ label: "$(folder-opened) Choose reports…" });
+
+  const pick = await vscode.window.showQuickPick(picks, {
+    placeHolder: "Select the test reports to load",
+  });
+  if (!pick) {
+    return undefined;
+  }
+  return pick.files ?? browseForReports();
+}
+
+/**
+ * Let the user pick report files or folders anywhere on disk.
+ */
+async function browseForReports(): Promise<vscode.Uri[] | undefined> {
+  const selection = await vscode.window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectFolders: true,
+    canSelectMany: true,
+    openLabel: "Load Test Reports",
+    filters: { "JUnit XML Reports": ["xml"] },
+  });
+  if (!selection) {
+    return undefined;
+  }
+  const files: vscode.Uri[] = [];
+  for (const uri of selection) {
+    files.push(...(await collectXmlFiles(uri)));
+  }
+  return files;
+}
+
+async function collectXmlFiles(uri: vscode.Uri): Promise<vscode.Uri[]> {
+  // Skip entries that cannot be read (permissions, broken links) instead of failing the load
+  try {
+    const stat = await vscode.workspace.fs.stat(uri);
+    if (!(stat.type & vscode.FileType.Directory)) {
+      return uri.path.endsWith(".xml") ? [uri] : [];
+    }
+    const files: vscode.Uri[] = [];
+    for (const [name] of await vscode.workspace.fs.readDirectory(uri)) {
+      files.push(...(await collectXmlFiles(vscode.Uri.joinPath(uri, name))));
+    }
+    return files;
+  } catch {
+    return [];
+  }
+}
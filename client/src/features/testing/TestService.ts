@@ -28,6 +28,19 @@ export interface BuildToolInfo {
   supportsCoverage: boolean;
 }
 
+/**
+ * A source set of the project model (Gradle source set, Maven source/test
+ * directories) from groovy/getSourceSets.
+ */
+export interface SourceSetInfo {
+  name: string;
+  /** URI of the module directory */
+  moduleUri: string;
+  /** URIs of the source directories */
+  roots: string[];
+  isTest: boolean;
+}
+
 /**
  * Test command from the LSP.
  */
@@ -154,6 +167,12 @@ const GetBuildToolInfoRequest = new RequestType<
   void
 >("groovy/getBuildToolInfo");
 
+const GetSourceSetsRequest = new RequestType<
+  { workspaceUri: string },
+  SourceSetInfo[] | null,
+  void
+>("groovy/getSourceSets");
+
 const RunTestRequest = new RequestType<
   { uri: string; suite: string; test?: string; debug?: boolean },
   TestCommand | null,
@@ -200,6 +219,16 @@ export class TestService {
     );
   }
 
+  /**
+   * Get the source sets of every module in the workspace.
+   */
+  async getSourceSets(workspaceUri: string): Promise<SourceSetInfo[]> {
+    const sourceSets = await this.client.sendRequest(GetSourceSetsRequest, {
+      workspaceUri,
+    });
+    return sourceSets || [];
+  }
+
   /**
    * Get a test command from the LSP.
    * Returns null if the build tool doesn't support test execution.
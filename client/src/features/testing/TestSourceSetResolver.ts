@@ -0,0 +1,154 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { getClient } from "../../server/client";
+import { TestService } from "./TestService";
+import {
+  findModuleDir,
+  findSourceRoot,
+  mapToSourceSet,
+  scanSourceSets,
+  SourceSet,
+} from "./TestSourceSets";
+
+/** Test source set picked per module directory. */
+export const TEST_SOURCE_SETS_STATE_KEY = "groovy.test.sourceSets";
+
+/**
+ * Finds where the tests of a source file go, using the source sets of the
+ * project model (e.g. `src/integrationTest/groovy`) instead of guessing.
+ * When a module has several test source sets, the user picks one and the
+ * choice is remembered for the module.
+ */
+export class TestSourceSetResolver {
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * Path of the test file named `fileName` for a source file. Returns
+   * `fallback()` when the file is not in a known source set, and undefined
+   * when the user cancels the pick.
+   */
+  public async resolveTestPath(
+    sourceUri: vscode.Uri,
+    fileName: string,
+    fallback: () => string | undefined,
+  ): Promise<string | undefined> {
+    const sourceSets = await this.getSourceSets(sourceUri);
+    const source = findSourceRoot(sourceUri.fsPath, sourceSets);
+    const testSourceSets = sourceSets.filter((s) => s.isTest);
+    if (!source || testSourceSets.length === 0) {
+      return fallback();
+    }
+
+    const target = await this.pickTestSourceSet(
+      source.sourceSet.module,
+      testSourceSets,
+    );
+    return target
+      ? mapToSourceSet(sourceUri.fsPath, source.root, target, fileName)
+      : undefined;
+  }
+
+  /**
+   * Forget the test source set picked for the module of a file and pick again.
+   */
+  public async choose(fileUri: vscode.Uri): Promise<SourceSet | undefined> {
+    const sourceSets = await this.getSourceSets(fileUri);
+    const testSourceSets = sourceSets.filter((s) => s.isTest);
+    if (testSourceSets.length === 0) {
+      return undefined;
+    }
+    const module = testSourceSets[0].module;
+    await this.remember(module, undefined);
+    return this.pickTestSourceSet(module, testSourceSets, true);
+  }
+
+  /**
+   * Source sets of the module that contains a file, from the language server
+   * or, if it cannot tell, from the module's directories.
+   */
+  public async getSourceSets(fileUri: vscode.Uri): Promise<SourceSet[]> {
+    const folder = vscode.workspace.getWorkspaceFolder(fileUri);
+    const fromModel = folder ? await this.querySourceSets(folder) : [];
+    const owner = findSourceRoot(fileUri.fsPath, fromModel)?.sourceSet;
+    if (owner) {
+      return fromModel.filter((s) => s.module === owner.module);
+    }
+
+    const moduleDir = findModuleDir(fileUri.fsPath, folder?.uri.fsPath);
+    return moduleDir ? scanSourceSets(moduleDir) : [];
+  }
+
+  private async querySourceSets(
+    folder: vscode.WorkspaceFolder,
+  ): Promise<SourceSet[]> {
+    const client = getClient();
+    if (!client) {
+      return [];
+    }
+    try {
+      const infos = await new TestService(client).getSourceSets(
+        folder.uri.toString(),
+      );
+      return infos.map((info) => ({
+        name: info.name,
+        module: vscode.Uri.parse(info.moduleUri).fsPath,
+        roots: info.roots.map((root) => vscode.Uri.parse(root).fsPath),
+        isTest: info.isTest,
+      }));
+    } catch (error) {
+      // Older servers do not report source sets
+      console.warn("[Testing] Could not get source sets:", error);
+      return [];
+    }
+  }
+
+  private async pickTestSourceSet(
+    module: string,
+    candidates: SourceSet[],
+    alwaysAsk = false,
+  ): Promise<SourceSet | undefined> {
+    if (candidates.length === 1 && !alwaysAsk) {
+      return candidates[0];
+    }
+    const remembered = this.state.get<Record<string, string>>(
+      TEST_SOURCE_SETS_STATE_KEY,
+      {},
+    )[module];
+    const previous = candidates.find((s) => s.name === remembered);
+    if (previous) {
+      return previous;
+    }
+
+    const pick = await vscode.window.showQuickPick(
+      candidates.map((sourceSet) => ({
+        label: sourceSet.name,
+        description: sourceSet.roots
+          .map((root) => path.relative(module, root))
+          .join(", "),
+        sourceSet,
+      })),
+      {
+        placeHolder: `Test source set for ${path.basename(module)}`,
+      },
+    );
+    if (pick) {
+      await this.remember(module, pick.sourceSet.name);
+    }
+    return pick?.sourceSet;
+  }
+
+  private async remember(
+    module: string,
+    name: string | undefined,
+  ): Promise<void> {
+    const choices = {
+      ...this.state.get<Record<string, string>>(TEST_SOURCE_SETS_STATE_KEY, {}),
+    };
+    if (name) {
+      choices[module] = name;
+    } else {
+      delete choices[module];
+    }
+    await this.state.update(TEST_SOURCE_SETS_STATE_KEY, choices);
+  }
+}
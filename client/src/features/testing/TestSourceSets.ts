@@ -0,0 +1,166 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A source set of a module, e.g. Gradle's `main`, `test` or `integrationTest`.
+ */
+export interface SourceSet {
+  name: string;
+  /** Module directory */
+  module: string;
+  /** Source directories, e.g. ".../src/test/groovy" and ".../src/test/java" */
+  roots: string[];
+  isTest: boolean;
+}
+
+/** Files that mark a module directory. */
+const BUILD_FILES = [
+  "build.gradle",
+  "build.gradle.kts",
+  "pom.xml",
+  "settings.gradle",
+  "settings.gradle.kts",
+];
+const LANGUAGE_DIRECTORIES = ["groovy", "java", "kotlin"];
+
+/**
+ * Module directory of a file: the closest ancestor with a build file, or the
+ * directory holding `src` (or Grails' `grails-app`) when there is none.
+ */
+export function findModuleDir(
+  filePath: string,
+  stopAt?: string,
+): string | undefined {
+  for (
+    let dir = path.dirname(filePath);
+    dir !== path.dirname(dir);
+    dir = path.dirname(dir)
+  ) {
+    if (BUILD_FILES.some((file) => fs.existsSync(path.join(dir, file)))) {
+      return dir;
+    }
+    if (stopAt && path.resolve(dir) === path.resolve(stopAt)) {
+      break;
+    }
+  }
+  const parts = filePath.split(path.sep);
+  const index = parts.findIndex((p) => p === "src" || p === "grails-app");
+  return index > 0 ? parts.slice(0, index).join(path.sep) : undefined;
+}
+
+/**
+ * Source sets of a module read from its directories, for when the language
+ * server cannot report the project model: `src/<name>/{groovy,java,kotlin}`,
+ * plus Grails' `grails-app/*` as main sources.
+ */
+export function scanSourceSets(moduleDir: string): SourceSet[] {
+  const sourceSets: SourceSet[] = [];
+  for (const name of listDirectories(path.join(moduleDir, "src"))) {
+    const roots = LANGUAGE_DIRECTORIES.map((lang) =>
+      path.join(moduleDir, "src", name, lang),
+    ).filter(isDirectory);
+    if (roots.length > 0) {
+      sourceSets.push({
+        name,
+        module: moduleDir,
+        roots,
+        isTest: isTestSourceSetName(name),
+      });
+    }
+  }
+
+  const grailsApp = path.join(moduleDir, "grails-app");
+  const grailsRoots = listDirectories(grailsApp)
+    .filter((name) => !["assets", "conf", "i18n", "views"].includes(name))
+    .map((name) => path.join(grailsApp, name));
+  if (grailsRoots.length > 0) {
+    const main = sourceSets.find((s) => s.name === "main");
+    if (main) {
+      main.roots.push(...grailsRoots);
+    } else {
+      sourceSets.push({
+        name: "main",
+        module: moduleDir,
+        roots: grailsRoots,
+        isTest: false,
+      });
+    }
+  }
+  return sourceSets;
+}
+
+/**
+ * Whether a source set holds tests, going by Gradle and Grails naming:
+ * test, integrationTest, integration-test, functionalTest, ...
+ */
+export function isTestSourceSetName(name: string): boolean {
+  return name !== "main" && /test/i.test(name);
+}
+
+/**
+ * The source root (and its source set) that contains a file; the deepest
+ * root wins when roots are nested.
+ */
+export function findSourceRoot(
+  filePath: string,
+  sourceSets: SourceSet[],
+): { sourceSet: SourceSet; root: string } | undefined {
+  let best: { sourceSet: SourceSet; root: string } | undefined;
+  for (const sourceSet of sourceSets) {
+    for (const root of sourceSet.roots) {
+      const relative = path.relative(root, filePath);
+      if (
+        relative &&
+        !relative.startsWith("..") &&
+        !path.isAbsolute(relative) &&
+        (!best || root.length > best.root.length)
+      ) {
+        best = { sourceSet, root };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Path of a file's counterpart in another source set, keeping the package
+ * directories and preferring a root of the same language.
+ * `fileName` replaces the file's own name, e.g. "FooSpec.groovy".
+ */
+export function mapToSourceSet(
+  filePath: string,
+  sourceRoot: string,
+  target: SourceSet,
+  fileName: string,
+): string | undefined {
+  const language = path.basename(sourceRoot);
+  const targetRoot =
+    target.roots.find((root) => path.basename(root) === language) ??
+    target.roots.find((root) => path.basename(root) === "groovy") ??
+    target.roots[0];
+  if (!targetRoot) {
+    return undefined;
+  }
+  const packageDir = path.dirname(path.relative(sourceRoot, filePath));
+  return path.join(targetRoot, packageDir, fileName);
+}
+
+function listDirectories(dir: string): string[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+function isDirectory(dir: string): boolean {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,194 @@
+import * as fs from "fs";
+import * as vscode from "vscode";
+import { keepUnedited, truncateInline } from "../../ui/inlineDecorations";
+import { parseExpectedActual } from "./FailureMessageParser";
+import type { IterationTracker } from "./TestEventConsumer";
+import type { TestOutcome } from "./TestHistory";
+import { findWhereRows, iterationIndex } from "./WhereBlockParser";
+
+interface FailedRow {
+  range: vscode.Range;
+  label: string;
+  message: string;
+}
+
+/**
+ * Places Spock @Unroll iterations at the where: table row or data pipe element
+ * they were generated from, and marks the rows of failed iterations inline.
+ * A mark is dropped when the iteration passes again or its row is edited.
+ */
+export class UnrolledIterationTracker
+  implements IterationTracker, vscode.Disposable
+{
+  private readonly decoration: vscode.TextEditorDecorationType;
+  private readonly failures = new Map<string, FailedRow[]>();
+  /** Sources of closed files read by prepare(), keyed by URI with their modification time */
+  private readonly sources = new Map<string, { mtime: number; text: string }>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.decoration = vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor(
+        "testing.message.error.lineBackground",
+      ),
+      after: {
+        margin: "0 0 0 2em",
+        color: new vscode.ThemeColor("errorForeground"),
+      },
+    });
+
+    this.disposables.push(
+      this.decoration,
+      vscode.window.onDidChangeVisibleTextEditors((editors) =>
+        editors.forEach((editor) => this.apply(editor)),
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.onDocumentChanged(event),
+      ),
+    );
+  }
+
+  /**
+   * Read the sources of closed spec files among `items`. Call before a run so
+   * iterations can be located without blocking the extension host.
+   */
+  public async prepare(items: readonly vscode.TestItem[]): Promise<void> {
+    const open = new Set(
+      vscode.workspace.textDocuments.map((doc) => doc.uri.toString()),
+    );
+    const uris = new Map<string, vscode.Uri>();
+    for (const item of items) {
+      if (item.uri && !open.has(item.uri.toString())) {
+        uris.set(item.uri.toString(), item.uri);
+      }
+    }
+    await Promise.all([...uris.values()].map((uri) => this.loadSource(uri)));
+  }
+
+  public locate(
+    feature: vscode.TestItem,
+    name: string,
+    ordinal: number,
+  ): vscode.Range | undefined {
+    if (!feature.uri || !feature.range) {
+      return undefined;
+    }
+    const source = this.readSource(feature.uri);
+    if (source === undefined) {
+      return undefined;
+    }
+    const rows = findWhereRows(source, feature.range.start.line);
+    const row = rows[iterationIndex(name) ?? ordinal];
+    return row
+      ? new vscode.Range(
+          row.line,
+          row.startCharacter,
+          row.line,
+          row.endCharacter,
+        )
+      : undefined;
+  }
+
+  public report(
+    item: vscode.TestItem,
+    status: TestOutcome,
+    message?: string,
+  ): void {
+    if (!item.uri || !item.range) {
+      return;
+    }
+    const range = item.range;
+    const key = item.uri.toString();
+    // The latest result of a row replaces the previous one
+    const rows = (this.failures.get(key) ?? []).filter(
+      (row) => !row.range.isEqual(range),
+    );
+    if (status === "failed" || status === "errored") {
+      rows.push({
+        range,
+        label: item.label,
+        message: message ?? "Test failed",
+      });
+    }
+    this.failures.set(key, rows);
+    this.update(item.uri);
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.failures.clear();
+    this.sources.clear();
+  }
+
+  private readSource(uri: vscode.Uri): string | undefined {
+    const key = uri.toString();
+    const document = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === key,
+    );
+    return document ? document.getText() : this.sources.get(key)?.text;
+  }
+
+  private async loadSource(uri: vscode.Uri): Promise<void> {
+    const key = uri.toString();
+    try {
+      const { mtimeMs } = await fs.promises.stat(uri.fsPath);
+      if (this.sources.get(key)?.mtime === mtimeMs) {
+        return;
+      }
+      const text = await fs.promises.readFile(uri.fsPath, "utf8");
+      this.sources.set(key, { mtime: mtimeMs, text });
+    } catch {
+      this.sources.delete(key);
+    }
+  }
+
+  private onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
+    const key = event.document.uri.toString();
+    const existing = this.failures.get(key);
+    if (!existing || event.contentChanges.length === 0) {
+      return;
+    }
+    const kept = keepUnedited(existing, event.contentChanges);
+    if (kept.length !== existing.length) {
+      this.failures.set(key, kept);
+      this.update(event.document.uri);
+    }
+  }
+
+  private update(uri: vscode.Uri): void {
+    vscode.window.visibleTextEditors
+      .filter((editor) => editor.document.uri.toString() === uri.toString())
+      .forEach((editor) => this.apply(editor));
+  }
+
+  private apply(editor: vscode.TextEditor): void {
+    const rows = (
+      this.failures.get(editor.document.uri.toString()) ?? []
+    ).filter((row) => row.range.end.line < editor.document.lineCount);
+    editor.setDecorations(
+      this.decoration,
+      rows.map((row) => {
+        const hover = new vscode.MarkdownString();
+        hover.appendText(`${row.label} failed\n\n`);
+        hover.appendCodeblock(row.message);
+        return {
+          range: row.range,
+          hoverMessage: hover,
+          renderOptions: { after: { contentText: formatFailure(row.message) } },
+        };
+      }),
+    );
+  }
+}
+
+/**
+ * Inline text for a failed row: the compared values when they can be parsed,
+ * otherwise the first line of the message.
+ */
+function formatFailure(message: string): string {
+  const comparison = parseExpectedActual(message);
+  const inline = comparison
+    ? `✖ ${comparison.actual} != ${comparison.expected}`
+    : `✖ ${message.trim().split(/\r?\n/, 1)[0]}`;
+  return truncateInline(inline);
+}
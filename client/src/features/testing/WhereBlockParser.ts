@@ -0,0 +1,190 @@
+/**
+ * Source location of the data behind one iteration of a data-driven feature.
+ * Lines and characters are zero-based.
+ */
+export interface WhereRow {
+  line: number;
+  startCharacter: number;
+  endCharacter: number;
+}
+
+const WHERE_LABEL = /^\s*where\s*:/;
+const DATA_PIPE = /^\s*[\w$,\s[\]]+<<\s*/;
+const FEATURE_DECLARATION =
+  /^\s*(?:def|void|public|protected|private)\s+(?:"[^"]*"|'[^']*'|[\w$]+)\s*\(/;
+
+/**
+ * Iteration index from an unrolled name: Spock 2 "feature [a: 1, #2]" or Spock 1 "feature[2]".
+ */
+export function iterationIndex(name: string): number | undefined {
+  const match = /#(\d+)\]\s*$/.exec(name) ?? /\[(\d+)\]\s*$/.exec(name);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Find the rows that feed each iteration of the feature declared at `featureLine`:
+ * the data rows of its first `where:` table, or the elements of a list literal
+ * in a data pipe (`x << [1, 2, 3]`). Row `i` belongs to iteration `i`.
+ */
+export function findWhereRows(source: string, featureLine: number): WhereRow[] {
+  const lines = source.split(/\r?\n/);
+  const block = findWhereBlock(lines, featureLine);
+  if (!block) {
+    return [];
+  }
+
+  const tableRows = findTableRows(lines, block.start, block.end);
+  if (tableRows.length > 0) {
+    return tableRows;
+  }
+  for (let i = block.start; i < block.end; i++) {
+    const pipe = DATA_PIPE.exec(lines[i]);
+    if (pipe && lines[i][pipe[0].length] === "[") {
+      return listElements(lines, i, pipe[0].length);
+    }
+  }
+  return [];
+}
+
+/**
+ * Lines of the feature's where block, from the label to the end of the method.
+ */
+function findWhereBlock(
+  lines: string[],
+  featureLine: number,
+): { start: number; end: number } | undefined {
+  for (let i = featureLine; i < lines.length; i++) {
+    if (i > featureLine && FEATURE_DECLARATION.test(lines[i])) {
+      return undefined;
+    }
+    if (!WHERE_LABEL.test(lines[i])) {
+      continue;
+    }
+    const indent = indentation(lines[i]);
+    let end = i + 1;
+    while (
+      end < lines.length &&
+      !(lines[end].trim().startsWith("}") && indentation(lines[end]) < indent)
+    ) {
+      end++;
+    }
+    return { start: i, end };
+  }
+  return undefined;
+}
+
+function findTableRows(lines: string[], start: number, end: number) {
+  let headerSeen = false;
+  const rows: WhereRow[] = [];
+  for (let i = start; i < end; i++) {
+    // A table can start on the label line: "where: a | b"
+    const text = stripComment(
+      lines[i].replace(WHERE_LABEL, (label) => " ".repeat(label.length)),
+    );
+    const isTableLine = text.includes("|") && !text.includes("<<");
+    if (!isTableLine) {
+      if (headerSeen && text.trim() !== "") {
+        // Only the first table decides the iterations
+        break;
+      }
+      continue;
+    }
+    if (!headerSeen) {
+      headerSeen = true;
+      continue;
+    }
+    const startCharacter = text.length - text.trimStart().length;
+    rows.push({
+      line: i,
+      startCharacter,
+      endCharacter: text.trimEnd().length,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Locate the top-level elements of a list literal that starts at `line`/`column`.
+ */
+function listElements(lines: string[], line: number, column: number) {
+  const elements: WhereRow[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current: WhereRow | undefined;
+  let lastNonSpace: { line: number; character: number } | undefined;
+
+  const finish = () => {
+    if (current && lastNonSpace) {
+      if (lastNonSpace.line === current.line) {
+        current.endCharacter = lastNonSpace.character + 1;
+      } else {
+        current.endCharacter = lines[current.line].trimEnd().length;
+      }
+      elements.push(current);
+    }
+    current = undefined;
+  };
+
+  for (let l = line; l < lines.length; l++) {
+    const text = lines[l];
+    for (let c = l === line ? column : 0; c < text.length; c++) {
+      const char = text[c];
+      if (quote) {
+        if (char === "\\") {
+          c++;
+        } else if (char === quote) {
+          quote = undefined;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "/" && text[c + 1] === "/") {
+        break;
+      } else if ("([{".includes(char)) {
+        depth++;
+        if (depth === 1) {
+          continue;
+        }
+      } else if (")]}".includes(char)) {
+        depth--;
+        if (depth === 0) {
+          finish();
+          return elements;
+        }
+      } else if (char === "," && depth === 1) {
+        finish();
+        continue;
+      }
+      if (depth >= 1 && char.trim() !== "") {
+        current ??= { line: l, startCharacter: c, endCharacter: c + 1 };
+        lastNonSpace = { line: l, character: c };
+      }
+    }
+  }
+  return elements;
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Drop a trailing // comment that is not inside a string.
+ */
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "/" && line[i + 1] === "/") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
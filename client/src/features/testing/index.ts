@@ -3,10 +3,20 @@ import { GradleExecutionService } from "./GradleExecutionService";
 import { GroovyTestController } from "./GroovyTestController";
 import { TestService } from "./TestService";
 import { CoverageService } from "./CoverageService";
+import { CoverageOverlay } from "./CoverageOverlay";
+import { DiffCoverageService } from "./DiffCoverageService";
+import { DiffCoverageTreeProvider } from "./DiffCoverageTreeProvider";
 import { TestCodeLensProvider } from "./TestCodeLensProvider";
 import { getClient } from "../../server/client";
 import { LSPTestExecutionService } from "./LSPTestExecutionService";
 import { ITestExecutionService } from "./ITestExecutionService";
+import { TestHistoryService } from "./TestHistoryService";
+import { TestHistoryTreeProvider } from "./TestHistoryTreeProvider";
+import { TestInsightsPanel } from "./TestInsightsPanel";
+import { StackTraceResolver } from "./StackTraceResolver";
+import { UnrolledIterationTracker } from "./UnrolledIterationTracker";
+import { TestNavigator } from "./TestNavigator";
+import { LSPToolService } from "../ai/LSPToolService";
 
 export function registerTestingFeatures(
   context: vscode.ExtensionContext,
@@ -28,6 +38,24 @@ export function registerTestingFeatures(
     // Existing code allowed creating controller without testService for limited use.
   }
 
+  // Test results persisted across reloads for rerunning failures and spotting flaky tests
+  const history = new TestHistoryService(context.workspaceState);
+  const historyTreeProvider = new TestHistoryTreeProvider(history);
+  context.subscriptions.push(
+    history,
+    historyTreeProvider,
+    vscode.window.registerTreeDataProvider(
+      "groovyTestHistory",
+      historyTreeProvider,
+    ),
+    vscode.commands.registerCommand("groovy.test.clearHistory", () =>
+      history.clear(),
+    ),
+    vscode.commands.registerCommand("groovy.test.showInsights", () =>
+      TestInsightsPanel.createOrShow(context.extensionUri, history),
+    ),
+  );
+
   // Use LSPTestExecutionService which delegates to the server
   // We pass the testService (even if undefined/null initially, though it should be defined if client is running)
   // But LSPTestExecutionService requires testService in constructor.
@@ -36,10 +64,16 @@ export function registerTestingFeatures(
   let executionService: ITestExecutionService;
 
   if (testService) {
+    const stackTraceResolver = new StackTraceResolver();
+    const iterationTracker = new UnrolledIterationTracker();
+    context.subscriptions.push(stackTraceResolver, iterationTracker);
     executionService = new LSPTestExecutionService(
       testService,
       logger,
       context.extensionPath,
+      history,
+      stackTraceResolver,
+      iterationTracker,
     );
   } else {
     // Fallback or placeholder if somehow registered without client
@@ -64,11 +98,59 @@ export function registerTestingFeatures(
     ? new CoverageService(testService, logger)
     : undefined;
 
+  // Coverage of the lines changed since a base branch
+  if (testService) {
+    const diffCoverage = new DiffCoverageService(
+      testService,
+      context.workspaceState,
+      logger,
+    );
+    const diffCoverageTree = new DiffCoverageTreeProvider(diffCoverage);
+    context.subscriptions.push(
+      diffCoverage,
+      diffCoverageTree,
+      vscode.window.registerTreeDataProvider(
+        "groovyDiffCoverage",
+        diffCoverageTree,
+      ),
+      vscode.commands.registerCommand("groovy.coverage.showDiff", () =>
+        diffCoverage.show(),
+      ),
+      vscode.commands.registerCommand(
+        "groovy.coverage.chooseDiffBase",
+        async () => {
+          if (await diffCoverage.chooseBase()) {
+            await diffCoverage.show();
+          }
+        },
+      ),
+    );
+  }
+
+  // Coverage from existing JaCoCo reports, shown until cleared
+  context.subscriptions.push(
+    new CoverageOverlay(context.extensionUri, context.workspaceState),
+  );
+
   new GroovyTestController(
     context,
     executionService,
     testService,
     coverageService,
+    history,
+  );
+
+  // Go to Test / Go to Subject, with a CodeLens on the class declaration
+  const navigator = new TestNavigator(
+    context.workspaceState,
+    new LSPToolService(vscode, getClient),
+  );
+  context.subscriptions.push(
+    navigator,
+    vscode.languages.registerCodeLensProvider(
+      { language: "groovy" },
+      navigator,
+    ),
   );
 
   // Register CodeLens provider
@@ -10,6 +10,7 @@ import { validateJava, showJavaError, getJavaExecutable } from '../java/validato
 import { setClient, getStatusBarManager } from '../ui/statusBar';
 import { getConfiguration } from '../configuration/settings';
 import { ServerResolver } from '../services/ServerResolver';
+import { formattingMiddleware } from '../features/formatting/FormattingMiddleware';
 
 /**
  * Jenkins shared library configuration
@@ -212,7 +213,8 @@ function createClientOptions(outputChannel?: vscode.OutputChannel): LanguageClie
                 return value.toString();
             },
             protocol2Code: (value) => vscode.Uri.parse(value)
-        }
+        },
+        middleware: formattingMiddleware
     };
 
     return clientOptions;
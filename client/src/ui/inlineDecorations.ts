@@ -0,0 +1,38 @@
+import type { Range, TextDocumentContentChangeEvent } from "vscode";
+
+/** Longest inline text before it is truncated; the full text is in the hover. */
+export const MAX_INLINE_LENGTH = 120;
+
+/**
+ * Cut `text` to the inline length limit, ending it with an ellipsis.
+ */
+export function truncateInline(text: string): string {
+  return text.length > MAX_INLINE_LENGTH
+    ? `${text.slice(0, MAX_INLINE_LENGTH - 1)}…`
+    : text;
+}
+
+export function linesOverlap(a: Range, b: Range): boolean {
+  return a.start.line <= b.end.line && b.start.line <= a.end.line;
+}
+
+/**
+ * Drop the decorations that `changes` edit or move. Decorations follow their
+ * lines, so an edit on those lines, or lines inserted or removed above them,
+ * leaves them out of place.
+ */
+export function keepUnedited<T extends { range: Range }>(
+  decorations: readonly T[],
+  changes: readonly TextDocumentContentChangeEvent[],
+): T[] {
+  return decorations.filter(
+    ({ range }) =>
+      !changes.some(
+        (change) =>
+          linesOverlap(change.range, range) ||
+          (change.range.start.line < range.start.line &&
+            (change.range.end.line !== change.range.start.line ||
+              change.text.includes("\n"))),
+      ),
+  );
+}
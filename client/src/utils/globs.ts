@@ -0,0 +1,6 @@
+/**
+ * Build output and tool directories skipped when searching the workspace for
+ * source files.
+ */
+export const EXCLUDED_FILES_GLOB =
+  "**/{node_modules,build,target,out,.gradle,.git}/**";
@@ -0,0 +1,77 @@
+import { expect } from "chai";
+import {
+  parseFormatConfig,
+  toFormattingOptions,
+} from "../../../../src/features/formatting/FormatConfig";
+
+describe("FormatConfig", () => {
+  describe("parseFormatConfig", () => {
+    it("should parse a complete config", () => {
+      const { config, errors } = parseFormatConfig(
+        JSON.stringify({
+          $schema: "./groovy-format.schema.json",
+          braceStyle: "next-line",
+          importOrder: ["java", "groovy", "*"],
+          closureParameterSpacing: false,
+          maxLineLength: 100,
+          gstringQuotes: "single",
+        }),
+      );
+      expect(errors).to.be.empty;
+      expect(config).to.deep.equal({
+        braceStyle: "next-line",
+        importOrder: ["java", "groovy", "*"],
+        closureParameterSpacing: false,
+        maxLineLength: 100,
+        gstringQuotes: "single",
+      });
+    });
+
+    it("should report invalid and unknown settings but keep valid ones", () => {
+      const { config, errors } = parseFormatConfig(
+        JSON.stringify({
+          braceStyle: "allman",
+          maxLineLength: -1,
+          indent: 2,
+          gstringQuotes: "double",
+        }),
+      );
+      expect(config).to.deep.equal({ gstringQuotes: "double" });
+      expect(errors).to.deep.equal([
+        '"braceStyle" must be one of "same-line", "next-line"',
+        '"maxLineLength" must be a positive integer',
+        'Unknown setting "indent"',
+      ]);
+    });
+
+    it("should report malformed JSON", () => {
+      const { config, errors } = parseFormatConfig("{ braceStyle: ");
+      expect(config).to.deep.equal({});
+      expect(errors[0]).to.match(/^Invalid JSON/);
+    });
+
+    it("should reject non-object documents", () => {
+      expect(parseFormatConfig("[]").errors).to.deep.equal([
+        "Expected a JSON object",
+      ]);
+    });
+  });
+
+  describe("toFormattingOptions", () => {
+    it("should prefix keys and flatten lists", () => {
+      expect(
+        toFormattingOptions({
+          braceStyle: "same-line",
+          importOrder: ["java", "static"],
+          closureParameterSpacing: true,
+          maxLineLength: 120,
+        }),
+      ).to.deep.equal({
+        "groovy.format.braceStyle": "same-line",
+        "groovy.format.importOrder": "java,static",
+        "groovy.format.closureParameterSpacing": true,
+        "groovy.format.maxLineLength": 120,
+      });
+    });
+  });
+});
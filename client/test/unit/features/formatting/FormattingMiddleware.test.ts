@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import proxyquire = require("proxyquire");
+
+describe("FormattingMiddleware", () => {
+  const document = { uri: "file:///Jenkinsfile" };
+  const options = { tabSize: 4, insertSpaces: true };
+  const token = { isCancellationRequested: false };
+  let enabled: boolean;
+  let middleware: any;
+  let setFormatConfigLoader: (loader: any) => void;
+
+  beforeEach(() => {
+    enabled = true;
+    const vscodeMock = {
+      workspace: {
+        getConfiguration: () => ({
+          get: (_key: string, fallback: boolean) => enabled ?? fallback,
+        }),
+      },
+    };
+    ({ formattingMiddleware: middleware, setFormatConfigLoader } =
+      proxyquire.noCallThru()(
+        "../../../../src/features/formatting/FormattingMiddleware",
+        { vscode: vscodeMock },
+      ));
+  });
+
+  it("should pass formatting requests on to the server", async () => {
+    const edits = [{ newText: "}" }];
+    const next = sinon.stub().resolves(edits);
+    const position = { line: 3, character: 1 };
+
+    const result = await middleware.provideOnTypeFormattingEdits(
+      document,
+      position,
+      "}",
+      options,
+      token,
+      next,
+    );
+
+    expect(next.calledOnceWith(document, position, "}", options, token)).to.be
+      .true;
+    expect(result).to.equal(edits);
+  });
+
+  it("should add the .groovy-format settings to the editor options", async () => {
+    const merged = { ...options, "groovy.format.maxLineLength": 100 };
+    const loader = { resolveOptions: sinon.stub().resolves(merged) };
+    setFormatConfigLoader(loader);
+    const next = sinon.stub().resolves([]);
+    const range = { start: 0, end: 1 };
+
+    await middleware.provideDocumentRangeFormattingEdits(
+      document,
+      range,
+      options,
+      token,
+      next,
+    );
+
+    expect(loader.resolveOptions.calledOnceWith(document.uri, options)).to.be
+      .true;
+    expect(next.calledOnceWith(document, range, merged, token)).to.be.true;
+  });
+
+  it("should not format when groovy.format.enable is off", async () => {
+    enabled = false;
+    const next = sinon.stub().resolves([{ newText: "x" }]);
+
+    const result = await middleware.provideDocumentFormattingEdits(
+      document,
+      options,
+      token,
+      next,
+    );
+
+    expect(next.called).to.be.false;
+    expect(result).to.be.empty;
+  });
+});
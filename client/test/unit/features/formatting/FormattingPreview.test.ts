@@ -0,0 +1,34 @@
+import { expect } from "chai";
+import proxyquire = require("proxyquire");
+import { vscode } from "../../mocks/vscode";
+
+const { applyOffsetEdits } = proxyquire.noCallThru()(
+  "../../../../src/features/formatting/FormattingPreview",
+  {
+    vscode: vscode,
+    "./GroovyFormattingProvider": {},
+  },
+);
+
+describe("FormattingPreview", () => {
+  describe("applyOffsetEdits", () => {
+    it("should apply edits regardless of their order", () => {
+      const text = "def x=1\ndef y=2\n";
+      const result = applyOffsetEdits(text, [
+        { start: 5, end: 6, newText: " = " },
+        { start: 13, end: 14, newText: " = " },
+      ]);
+      expect(result).to.equal("def x = 1\ndef y = 2\n");
+    });
+
+    it("should handle insertions and deletions", () => {
+      expect(
+        applyOffsetEdits("if(a){b}", [
+          { start: 2, end: 2, newText: " " },
+          { start: 5, end: 5, newText: " " },
+          { start: 6, end: 7, newText: "" },
+        ]),
+      ).to.equal("if (a) {}");
+    });
+  });
+});
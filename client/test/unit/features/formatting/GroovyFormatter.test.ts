@@ -1,6 +1,10 @@
 import { expect } from "chai";
 import * as sinon from "sinon";
-import { DocumentFormattingRequest } from "vscode-languageserver-protocol";
+import {
+  DocumentFormattingRequest,
+  DocumentRangeFormattingRequest,
+  DocumentOnTypeFormattingRequest,
+} from "vscode-languageserver-protocol";
 import { GroovyFormatter } from "../../../../src/features/formatting/GroovyFormatter";
 
 describe("GroovyFormatter", () => {
@@ -61,4 +65,48 @@ describe("GroovyFormatter", () => {
       expect(error.message).to.equal("LSP Error");
     }
   });
+
+  it("should send a range formatting request to the LSP", async () => {
+    const documentUri = "file:///Jenkinsfile";
+    const options = { tabSize: 4, insertSpaces: true };
+    const range = {
+      start: { line: 10, character: 0 },
+      end: { line: 20, character: 1 },
+    };
+    mockClient.sendRequest.resolves([]);
+
+    await formatter.formatRange(documentUri, range, options);
+
+    const args = mockClient.sendRequest.firstCall.args;
+    expect(args[0]).to.equal(DocumentRangeFormattingRequest.type);
+    expect(args[1]).to.deep.equal({
+      textDocument: { uri: documentUri },
+      range,
+      options,
+    });
+  });
+
+  it("should send an on-type formatting request to the LSP", async () => {
+    const documentUri = "file:///test.groovy";
+    const options = { tabSize: 2, insertSpaces: true };
+    const position = { line: 3, character: 1 };
+    mockClient.sendRequest.resolves(null);
+
+    const result = await formatter.formatOnType(
+      documentUri,
+      position,
+      "}",
+      options,
+    );
+
+    const args = mockClient.sendRequest.firstCall.args;
+    expect(args[0]).to.equal(DocumentOnTypeFormattingRequest.type);
+    expect(args[1]).to.deep.equal({
+      textDocument: { uri: documentUri },
+      position,
+      ch: "}",
+      options,
+    });
+    expect(result).to.be.null;
+  });
 });
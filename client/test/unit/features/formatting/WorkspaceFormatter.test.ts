@@ -0,0 +1,59 @@
+import { expect } from "chai";
+import proxyquire = require("proxyquire");
+import { vscode } from "../../mocks/vscode";
+
+const { describeSummary } = proxyquire.noCallThru()(
+  "../../../../src/features/formatting/WorkspaceFormatter",
+  {
+    vscode: vscode,
+    "./GroovyFormattingProvider": {},
+  },
+);
+
+describe("WorkspaceFormatter", () => {
+  describe("describeSummary", () => {
+    const base = {
+      total: 10,
+      processed: 10,
+      changed: [] as string[],
+      failed: [] as string[],
+      cancelled: false,
+    };
+
+    it("should count formatted files", () => {
+      expect(
+        describeSummary({ ...base, mode: "format", changed: ["a.groovy"] }),
+      ).to.equal("Formatted 1 file (10 files checked).");
+    });
+
+    it("should report a clean check", () => {
+      expect(describeSummary({ ...base, mode: "check" })).to.equal(
+        "All 10 files are formatted.",
+      );
+    });
+
+    it("should report drift found by a check", () => {
+      expect(
+        describeSummary({
+          ...base,
+          mode: "check",
+          changed: ["a.groovy", "Jenkinsfile"],
+        }),
+      ).to.equal("2 files of 10 need formatting.");
+    });
+
+    it("should mention failures and cancellation", () => {
+      expect(
+        describeSummary({
+          ...base,
+          mode: "format",
+          processed: 4,
+          failed: ["broken.groovy"],
+          cancelled: true,
+        }),
+      ).to.equal(
+        "Formatted 0 files (4 files checked). 1 file could not be formatted. Cancelled after 4 of 10.",
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import proxyquire = require("proxyquire");
+
+describe("GroovyNotebookController", () => {
+  let sandbox: sinon.SinonSandbox;
+  let sendRequest: sinon.SinonStub;
+  let notebookController: any;
+  let closeNotebook: (notebook: any) => void;
+  let controller: any;
+
+  const notebook = { uri: { toString: () => "file:///work/demo.groovynb" } };
+  const cell = { document: { getText: () => "1 + 1" } };
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    sendRequest = sandbox.stub().resolves({ result: "2", output: "" });
+    notebookController = { dispose: sandbox.stub() };
+
+    const vscodeMock = {
+      notebooks: {
+        createNotebookController: sandbox.stub().returns(notebookController),
+      },
+      workspace: {
+        onDidCloseNotebookDocument: (listener: (notebook: any) => void) => {
+          closeNotebook = listener;
+          return { dispose: sandbox.stub() };
+        },
+      },
+      NotebookCellOutput: class {
+        constructor(public items: any[]) {}
+      },
+      NotebookCellOutputItem: {
+        text: (value: string, mime = "text/plain") => ({ value, mime }),
+        stdout: (value: string) => ({ value, mime: "stdout" }),
+        error: (error: Error) => ({ value: error.message, mime: "error" }),
+      },
+    };
+
+    const { GroovyNotebookController } = proxyquire.noCallThru()(
+      "../../../../src/features/notebook/GroovyNotebookController",
+      {
+        vscode: vscodeMock,
+        "../../server/client": { getClient: () => ({ sendRequest }) },
+        "./GroovyNotebookSerializer": { NOTEBOOK_TYPE: "groovy-notebook" },
+      },
+    );
+    controller = new GroovyNotebookController();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  const runCell = () => {
+    const execution = {
+      cell,
+      token: { isCancellationRequested: false },
+      start: sandbox.stub(),
+      end: sandbox.stub(),
+      clearOutput: sandbox.stub().resolves(),
+      replaceOutput: sandbox.stub().resolves(),
+    };
+    notebookController.createNotebookCellExecution = () => execution;
+    return notebookController.executeHandler([cell], notebook);
+  };
+
+  const closeRequests = () =>
+    sendRequest
+      .getCalls()
+      .filter((call) => call.args[0] === "groovy/closeSession");
+
+  it("should close the notebook's session on the server when it is closed", async () => {
+    await runCell();
+    const sessionId = sendRequest.firstCall.args[1].sessionId;
+
+    closeNotebook(notebook);
+    closeNotebook(notebook);
+
+    expect(closeRequests()).to.have.lengthOf(1);
+    expect(closeRequests()[0].args[1]).to.deep.equal({ sessionId });
+  });
+
+  it("should start a new session after a restart", async () => {
+    await runCell();
+    const first = sendRequest.firstCall.args[1].sessionId;
+
+    controller.restartSession(notebook);
+    await runCell();
+
+    expect(closeRequests()).to.have.lengthOf(1);
+    expect(sendRequest.lastCall.args[1].sessionId).to.not.equal(first);
+  });
+});
@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import proxyquire = require("proxyquire");
+
+enum NotebookCellKind {
+  Markup = 1,
+  Code = 2,
+}
+
+class NotebookCellData {
+  outputs?: NotebookCellOutput[];
+  executionSummary?: { executionOrder?: number };
+  constructor(
+    public kind: NotebookCellKind,
+    public value: string,
+    public languageId: string,
+  ) {}
+}
+
+class NotebookCellOutputItem {
+  constructor(
+    public data: Uint8Array,
+    public mime: string,
+  ) {}
+}
+
+class NotebookCellOutput {
+  constructor(public items: NotebookCellOutputItem[]) {}
+}
+
+class NotebookData {
+  constructor(public cells: NotebookCellData[]) {}
+}
+
+const vscodeMock = {
+  NotebookCellKind,
+  NotebookCellData,
+  NotebookCellOutputItem,
+  NotebookCellOutput,
+  NotebookData,
+};
+
+const { GroovyNotebookSerializer } = proxyquire.noCallThru()(
+  "../../../../src/features/notebook/GroovyNotebookSerializer",
+  { vscode: vscodeMock },
+);
+
+describe("GroovyNotebookSerializer", () => {
+  const token = { isCancellationRequested: false } as any;
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let serializer: any;
+
+  beforeEach(() => {
+    serializer = new GroovyNotebookSerializer();
+  });
+
+  it("should open an empty file as an empty notebook", () => {
+    const data = serializer.deserializeNotebook(new Uint8Array(), token);
+    expect(data.cells).to.be.empty;
+  });
+
+  it("should reject malformed files", () => {
+    expect(() =>
+      serializer.deserializeNotebook(encoder.encode("{ not json"), token),
+    ).to.throw("Invalid Groovy notebook");
+  });
+
+  it("should read hand-edited outputs without items", () => {
+    const text = JSON.stringify({
+      version: 1,
+      cells: [{ kind: "code", source: "1 + 1", outputs: [{}] }],
+    });
+    const data = serializer.deserializeNotebook(encoder.encode(text), token);
+    expect(data.cells[0].outputs[0].items).to.be.empty;
+  });
+
+  it("should round-trip cells, execution order and outputs", () => {
+    const code = new NotebookCellData(
+      NotebookCellKind.Code,
+      "def x = [1, 2]\nx.sum()",
+      "groovy",
+    );
+    code.executionSummary = { executionOrder: 3 };
+    code.outputs = [
+      new NotebookCellOutput([
+        new NotebookCellOutputItem(
+          encoder.encode("<table></table>"),
+          "text/html",
+        ),
+        new NotebookCellOutputItem(encoder.encode("3"), "text/plain"),
+      ]),
+    ];
+    const markdown = new NotebookCellData(
+      NotebookCellKind.Markup,
+      "# Notes",
+      "markdown",
+    );
+
+    const bytes = serializer.serializeNotebook(
+      new NotebookData([markdown, code]),
+      token,
+    );
+    const raw = JSON.parse(decoder.decode(bytes));
+    expect(raw.version).to.equal(1);
+    expect(raw.cells[0]).to.deep.equal({
+      kind: "markdown",
+      language: "markdown",
+      source: "# Notes",
+    });
+    expect(raw.cells[1].outputs[0].items[1]).to.deep.equal({
+      mime: "text/plain",
+      data: "3",
+    });
+
+    const restored = serializer.deserializeNotebook(bytes, token);
+    expect(restored.cells).to.have.lengthOf(2);
+    expect(restored.cells[0].kind).to.equal(NotebookCellKind.Markup);
+    const restoredCode = restored.cells[1];
+    expect(restoredCode.kind).to.equal(NotebookCellKind.Code);
+    expect(restoredCode.value).to.equal("def x = [1, 2]\nx.sum()");
+    expect(restoredCode.executionSummary).to.deep.equal({ executionOrder: 3 });
+    expect(restoredCode.outputs[0].items.map((i: any) => i.mime)).to.deep.equal(
+      ["text/html", "text/plain"],
+    );
+    expect(decoder.decode(restoredCode.outputs[0].items[1].data)).to.equal("3");
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import {
+  parseResultTable,
+  renderHtmlTable,
+} from "../../../../src/features/notebook/ResultTable";
+
+describe("ResultTable", () => {
+  describe("parseResultTable", () => {
+    it("should parse Groovy list-of-maps output", () => {
+      const table = parseResultTable(
+        "[[name:Alice, age:30], [name:Bob, age:25]]",
+      );
+      expect(table).to.deep.equal({
+        columns: ["name", "age"],
+        rows: [
+          { name: "Alice", age: "30" },
+          { name: "Bob", age: "25" },
+        ],
+      });
+    });
+
+    it("should keep nested collections as cell values", () => {
+      const table = parseResultTable(
+        "[[id:1, tags:[a, b]], [id:2, extra:[x:1]]]",
+      );
+      expect(table?.columns).to.deep.equal(["id", "tags", "extra"]);
+      expect(table?.rows[0].tags).to.equal("[a, b]");
+      expect(table?.rows[1].extra).to.equal("[x:1]");
+    });
+
+    it("should parse JSON arrays of objects", () => {
+      const table = parseResultTable(
+        '[{"name":"Alice","age":30,"admin":true}]',
+      );
+      expect(table).to.deep.equal({
+        columns: ["name", "age", "admin"],
+        rows: [{ name: "Alice", age: "30", admin: "true" }],
+      });
+    });
+
+    it("should ignore results that are not lists of maps", () => {
+      expect(parseResultTable("42")).to.be.undefined;
+      expect(parseResultTable("[]")).to.be.undefined;
+      expect(parseResultTable("[1, 2, 3]")).to.be.undefined;
+      expect(parseResultTable("[[1, 2], [3, 4]]")).to.be.undefined;
+      expect(parseResultTable("[name:Alice]")).to.be.undefined;
+    });
+  });
+
+  describe("renderHtmlTable", () => {
+    it("should render headers and escape cell content", () => {
+      const html = renderHtmlTable({
+        columns: ["name", "note"],
+        rows: [{ name: "<b>Alice</b>" }],
+      });
+      expect(html).to.equal(
+        "<table><thead><tr><th>name</th><th>note</th></tr></thead>" +
+          "<tbody><tr><td>&lt;b&gt;Alice&lt;/b&gt;</td><td></td></tr></tbody></table>",
+      );
+    });
+  });
+});
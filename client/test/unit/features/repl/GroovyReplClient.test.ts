@@ -12,7 +12,7 @@ describe("GroovyReplClient", () => {
     mockLanguageClient = {
       sendRequest: sandbox.stub(),
     };
-    replClient = new GroovyReplClient(mockLanguageClient);
+    replClient = new GroovyReplClient(mockLanguageClient, "session-1");
   });
 
   afterEach(() => {
@@ -30,7 +30,7 @@ describe("GroovyReplClient", () => {
     expect(mockLanguageClient.sendRequest.calledOnce).to.be.true;
     const args = mockLanguageClient.sendRequest.firstCall.args;
     expect(args[0]).to.equal("groovy/execute");
-    expect(args[1]).to.deep.equal({ expression });
+    expect(args[1]).to.deep.equal({ expression, sessionId: "session-1" });
     expect(response).to.deep.equal(expectedResult);
   });
 
@@ -45,4 +45,24 @@ describe("GroovyReplClient", () => {
       expect(e.message).to.equal("Compilation Error");
     }
   });
+
+  it("should forward the cancellation token to the LSP request", async () => {
+    const token = { isCancellationRequested: false } as any;
+    mockLanguageClient.sendRequest.resolves({ result: "2", output: "" });
+
+    await replClient.evaluate("1 + 1", token);
+
+    expect(mockLanguageClient.sendRequest.firstCall.args[2]).to.equal(token);
+  });
+
+  it("should close the server-side session", async () => {
+    mockLanguageClient.sendRequest.resolves(null);
+
+    await replClient.close();
+
+    expect(mockLanguageClient.sendRequest.firstCall.args).to.deep.equal([
+      "groovy/closeSession",
+      { sessionId: "session-1" },
+    ]);
+  });
 });
@@ -0,0 +1,52 @@
+import { expect } from "chai";
+import proxyquire = require("proxyquire");
+import { vscode } from "../../mocks/vscode";
+
+const { formatInlineResult, formatInlineError } = proxyquire.noCallThru()(
+  "../../../../src/features/repl/InlineResultDecorator",
+  {
+    vscode: vscode,
+  },
+);
+
+describe("InlineResultDecorator", () => {
+  describe("formatInlineResult", () => {
+    it("should show the result value", () => {
+      expect(formatInlineResult({ result: "42", output: "" })).to.equal(
+        "=> 42",
+      );
+    });
+
+    it("should fall back to printed output when the result is null", () => {
+      expect(
+        formatInlineResult({ result: "null", output: "Hello World\n" }),
+      ).to.equal("Hello World");
+    });
+
+    it("should show null when nothing was returned or printed", () => {
+      expect(formatInlineResult({ result: "null", output: "" })).to.equal(
+        "=> null",
+      );
+    });
+
+    it("should mark multi-line values as continued", () => {
+      expect(formatInlineResult({ result: "a\nb", output: "" })).to.equal(
+        "=> a …",
+      );
+    });
+
+    it("should truncate long values", () => {
+      const text = formatInlineResult({ result: "x".repeat(500), output: "" });
+      expect(text).to.have.lengthOf(120);
+      expect(text.endsWith("…")).to.be.true;
+    });
+  });
+
+  describe("formatInlineError", () => {
+    it("should show the first line of the error", () => {
+      expect(
+        formatInlineError("No such property: foo\n\tat Script1.run"),
+      ).to.equal("✖ No such property: foo …");
+    });
+  });
+});
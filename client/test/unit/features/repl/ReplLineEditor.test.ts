@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import {
+  ReplLineEditor,
+  isIncomplete,
+  MAX_HISTORY,
+  PROMPT,
+  CONTINUATION_PROMPT,
+} from "../../../../src/features/repl/ReplLineEditor";
+
+const UP = "\x1b[A";
+const DOWN = "\x1b[B";
+const LEFT = "\x1b[D";
+
+describe("ReplLineEditor", () => {
+  let output: string[];
+  let submitted: string[];
+  let interrupts: number;
+  let savedHistory: string[] | undefined;
+  let editor: ReplLineEditor;
+
+  const createEditor = (history: string[] = []) =>
+    new ReplLineEditor(
+      {
+        write: (data) => output.push(data),
+        onSubmit: (code) => submitted.push(code),
+        onInterrupt: () => interrupts++,
+        onHistoryChanged: (h) => (savedHistory = h),
+      },
+      history,
+    );
+
+  const lastOutput = () => output[output.length - 1];
+
+  beforeEach(() => {
+    output = [];
+    submitted = [];
+    interrupts = 0;
+    savedHistory = undefined;
+    editor = createEditor();
+  });
+
+  describe("isIncomplete", () => {
+    it("should detect unclosed brackets and closures", () => {
+      expect(isIncomplete("def add(a, b) {")).to.be.true;
+      expect(isIncomplete("[1, 2,")).to.be.true;
+      expect(isIncomplete("def add(a, b) { a + b }")).to.be.false;
+    });
+
+    it("should ignore brackets inside strings and comments", () => {
+      expect(isIncomplete('println "{"')).to.be.false;
+      expect(isIncomplete("def x = 1 // {")).to.be.false;
+    });
+
+    it("should treat open triple-quoted strings and block comments as incomplete", () => {
+      expect(isIncomplete('def s = """first line')).to.be.true;
+      expect(isIncomplete('def s = """a\nb"""')).to.be.false;
+      expect(isIncomplete("/* comment")).to.be.true;
+    });
+
+    it("should honour a trailing backslash", () => {
+      expect(isIncomplete("def x = 1 + \\")).to.be.true;
+    });
+  });
+
+  it("should submit a complete line on Enter", () => {
+    editor.handleInput("1 + 1\r");
+    expect(submitted).to.deep.equal(["1 + 1"]);
+  });
+
+  it("should echo typed characters after the prompt", () => {
+    editor.handleInput("ab");
+    expect(lastOutput()).to.equal(`\r\x1b[K${PROMPT}ab`);
+  });
+
+  it("should support cursor movement and backspace", () => {
+    editor.handleInput("ac");
+    editor.handleInput(LEFT);
+    editor.handleInput("b");
+    editor.handleInput("\x7f\x7f");
+    editor.handleInput("\r");
+    // "ac" -> "abc" (cursor after b) -> backspace twice removes "b" and "a"
+    expect(submitted).to.deep.equal(["c"]);
+  });
+
+  it("should collect multi-line input until brackets are balanced", () => {
+    editor.handleInput("def add(a, b) {\r");
+    expect(submitted).to.be.empty;
+    expect(lastOutput()).to.include(CONTINUATION_PROMPT);
+
+    editor.handleInput("  a + b\r");
+    editor.handleInput("}\r");
+    expect(submitted).to.deep.equal(["def add(a, b) {\n  a + b\n}"]);
+  });
+
+  it("should handle pasted multi-line snippets", () => {
+    editor.handleInput("[1,\r\n2]\r\n");
+    expect(submitted).to.deep.equal(["[1,\n2]"]);
+  });
+
+  it("should not submit blank lines", () => {
+    editor.handleInput("   \r");
+    expect(submitted).to.be.empty;
+    expect(savedHistory).to.be.undefined;
+  });
+
+  it("should browse history with up and down arrows", () => {
+    editor = createEditor(["first", "second"]);
+    editor.handleInput("draft");
+    editor.handleInput(UP);
+    expect(lastOutput()).to.equal(`\r\x1b[K${PROMPT}second`);
+    editor.handleInput(UP);
+    expect(lastOutput()).to.equal(`\r\x1b[K${PROMPT}first`);
+    editor.handleInput(UP);
+    expect(lastOutput()).to.equal(`\r\x1b[K${PROMPT}first`);
+    editor.handleInput(DOWN + DOWN);
+    expect(lastOutput()).to.equal(`\r\x1b[K${PROMPT}draft`);
+  });
+
+  it("should record history and report changes", () => {
+    editor.handleInput("x = 1\r");
+    editor.handleInput("x = 1\r");
+    editor.handleInput("x + 1\r");
+    expect(editor.getHistory()).to.deep.equal(["x = 1", "x + 1"]);
+    expect(savedHistory).to.deep.equal(["x = 1", "x + 1"]);
+  });
+
+  it("should cap history at the maximum size", () => {
+    const history = Array.from({ length: MAX_HISTORY + 10 }, (_, i) => `${i}`);
+    editor = createEditor(history);
+    expect(editor.getHistory()).to.have.lengthOf(MAX_HISTORY);
+    expect(editor.getHistory()[0]).to.equal("10");
+  });
+
+  it("should discard the current input on Ctrl+C when idle", () => {
+    editor.handleInput("def broken = {\r");
+    editor.handleInput("\x03");
+    expect(interrupts).to.equal(0);
+    expect(output).to.include("^C\r\n");
+    expect(lastOutput()).to.equal(`\r\x1b[K${PROMPT}`);
+
+    editor.handleInput("1\r");
+    expect(submitted).to.deep.equal(["1"]);
+  });
+
+  it("should interrupt and ignore other input while busy", () => {
+    editor.setBusy(true);
+    editor.handleInput("abc\r");
+    editor.handleInput("\x03");
+    expect(interrupts).to.equal(1);
+    expect(submitted).to.be.empty;
+  });
+});
@@ -34,4 +34,17 @@ describe("ReplStatusBarLogic", () => {
     expect(state.command).to.equal("groovy.repl.start");
     expect(state.color).to.be.undefined;
   });
+
+  it("should show the active session name", () => {
+    const state = statusBarLogic.getState(true, "scratch", 1);
+    expect(state.text).to.equal("$(terminal) REPL: scratch");
+    expect(state.command).to.equal("groovy.repl.show");
+  });
+
+  it("should switch sessions on click when several are open", () => {
+    const state = statusBarLogic.getState(true, "scratch", 3);
+    expect(state.text).to.equal("$(terminal) REPL: scratch");
+    expect(state.tooltip).to.include("3 sessions");
+    expect(state.command).to.equal("groovy.repl.selectSession");
+  });
 });
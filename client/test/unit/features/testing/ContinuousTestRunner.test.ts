@@ -0,0 +1,225 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import proxyquire from "proxyquire";
+
+describe("ContinuousTestRunner", () => {
+  let module: any;
+  let vscodeMock: any;
+  let saveHandler: (document: any) => void;
+  let files: Record<string, string>;
+  let sandbox: sinon.SinonSandbox;
+  let clock: sinon.SinonFakeTimers;
+
+  const uri = (p: string) => ({ toString: () => `file://${p}`, fsPath: p });
+
+  const createItem = (id: string, path?: string, children: any[] = []) => ({
+    id,
+    uri: path ? uri(path) : undefined,
+    children: { forEach: (cb: (c: any) => void) => children.forEach(cb) },
+  });
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    clock = sandbox.useFakeTimers();
+    files = {};
+
+    vscodeMock = {
+      workspace: {
+        onDidSaveTextDocument: sandbox.stub().callsFake((handler: any) => {
+          saveHandler = handler;
+          return { dispose: sandbox.stub() };
+        }),
+        fs: {
+          readFile: sandbox.stub().callsFake(async (u: any) => {
+            if (!(u.fsPath in files)) {
+              throw new Error("not found");
+            }
+            return Buffer.from(files[u.fsPath]);
+          }),
+        },
+      },
+      TestRunRequest: class {
+        constructor(
+          public include: any[],
+          public exclude?: any[],
+          public profile?: any,
+          public continuous?: boolean,
+        ) {}
+      },
+    };
+
+    module = (proxyquire as any).noCallThru()(
+      "../../../../src/features/testing/ContinuousTestRunner",
+      { vscode: vscodeMock },
+    );
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe("referencesClass", () => {
+    it("should match whole class names only", () => {
+      const source = "def calc = new Calculator()\nCalculatorHelper.run()";
+      assert.ok(module.referencesClass(source, "Calculator"));
+      assert.ok(
+        !module.referencesClass("new CalculatorHelper()", "Calculator"),
+      );
+      assert.ok(!module.referencesClass("new MyCalculator()", "Calculator"));
+    });
+  });
+
+  describe("classNameOf", () => {
+    it("should use the file name without extension", () => {
+      assert.strictEqual(
+        module.classNameOf("/src/main/groovy/com/example/Calculator.groovy"),
+        "Calculator",
+      );
+    });
+  });
+
+  describe("selectRequestedItems", () => {
+    const feature = createItem("com.example.CalcSpec.adds");
+    const other = createItem("com.example.CalcSpec.subtracts");
+    const suite = createItem("com.example.CalcSpec", "/CalcSpec.groovy", [
+      feature,
+      other,
+    ]);
+
+    it("should select whole suites when everything was requested", () => {
+      assert.deepStrictEqual(module.selectRequestedItems([suite], {}), [suite]);
+    });
+
+    it("should select only requested tests of a suite", () => {
+      assert.deepStrictEqual(
+        module.selectRequestedItems([suite], { include: [feature] }),
+        [feature],
+      );
+    });
+
+    it("should drop excluded suites", () => {
+      assert.deepStrictEqual(
+        module.selectRequestedItems([suite], { exclude: [suite] }),
+        [],
+      );
+    });
+  });
+
+  describe("watch", () => {
+    let runner: any;
+    let executionService: any;
+    let ctrl: any;
+    let rediscover: sinon.SinonStub;
+    let cancel: () => void;
+    let token: any;
+    let calcSpec: any;
+    let otherSpec: any;
+
+    beforeEach(() => {
+      calcSpec = createItem("com.example.CalcSpec", "/test/CalcSpec.groovy");
+      otherSpec = createItem("com.example.OtherSpec", "/test/OtherSpec.groovy");
+      files["/test/CalcSpec.groovy"] = "def calc = new Calculator()";
+      files["/test/OtherSpec.groovy"] = "def other = new Other()";
+
+      ctrl = {
+        items: {
+          forEach: (cb: (item: any) => void) =>
+            [calcSpec, otherSpec].forEach(cb),
+        },
+      };
+      executionService = { runTests: sandbox.stub().resolves() };
+      rediscover = sandbox.stub().resolves();
+      runner = new module.ContinuousTestRunner(
+        ctrl,
+        executionService,
+        rediscover,
+        (u: any) => u.fsPath.endsWith("Spec.groovy"),
+      );
+
+      let cancelListener: () => void = () => {};
+      token = {
+        isCancellationRequested: false,
+        onCancellationRequested: (listener: () => void) => {
+          cancelListener = listener;
+          return { dispose: sandbox.stub() };
+        },
+      };
+      cancel = () => {
+        token.isCancellationRequested = true;
+        cancelListener();
+      };
+    });
+
+    const save = (path: string, languageId = "groovy") =>
+      saveHandler({ uri: uri(path), languageId });
+
+    it("should re-run specs that reference the saved class", async () => {
+      const done = runner.watch({ profile: "run" }, token);
+
+      save("/src/Calculator.groovy");
+      await clock.tickAsync(300);
+
+      assert.ok(executionService.runTests.calledOnce);
+      const [request, runToken, runCtrl] =
+        executionService.runTests.getCall(0).args;
+      assert.deepStrictEqual(request.include, [calcSpec]);
+      assert.strictEqual(request.profile, "run");
+      assert.strictEqual(request.continuous, true);
+      assert.strictEqual(runToken, token);
+      assert.strictEqual(runCtrl, ctrl);
+      assert.ok(rediscover.notCalled);
+
+      cancel();
+      await done;
+    });
+
+    it("should re-run a saved spec after refreshing discovery", async () => {
+      runner.watch({}, token);
+
+      save("/test/OtherSpec.groovy");
+      await clock.tickAsync(300);
+
+      assert.ok(rediscover.calledOnce);
+      assert.deepStrictEqual(
+        executionService.runTests.getCall(0).args[0].include,
+        [otherSpec],
+      );
+    });
+
+    it("should batch saves and ignore non-Groovy files", async () => {
+      runner.watch({}, token);
+
+      save("/src/Calculator.groovy");
+      await clock.tickAsync(100);
+      save("/src/Other.groovy");
+      save("/build.gradle", "gradle");
+      await clock.tickAsync(300);
+
+      assert.ok(executionService.runTests.calledOnce);
+      assert.deepStrictEqual(
+        executionService.runTests.getCall(0).args[0].include,
+        [calcSpec, otherSpec],
+      );
+    });
+
+    it("should not run when no spec is affected", async () => {
+      runner.watch({}, token);
+
+      save("/src/Unrelated.groovy");
+      await clock.tickAsync(300);
+
+      assert.ok(executionService.runTests.notCalled);
+    });
+
+    it("should stop watching once the request is cancelled", async () => {
+      const done = runner.watch({}, token);
+      cancel();
+      await done;
+
+      save("/src/Calculator.groovy");
+      await clock.tickAsync(300);
+
+      assert.ok(executionService.runTests.notCalled);
+    });
+  });
+});
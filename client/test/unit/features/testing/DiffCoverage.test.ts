@@ -0,0 +1,132 @@
+import * as assert from "assert";
+import {
+  addUntrackedFiles,
+  computeDiffCoverage,
+  parseChangedLines,
+  passesGate,
+  toLineRanges,
+} from "../../../../src/features/testing/DiffCoverage";
+import type { LineCoverage } from "../../../../src/features/testing/TestService";
+
+const DIFF = `diff --git a/app/src/main/groovy/com/example/OrderService.groovy b/app/src/main/groovy/com/example/OrderService.groovy
+index 1111111..2222222 100644
+--- a/app/src/main/groovy/com/example/OrderService.groovy
++++ b/app/src/main/groovy/com/example/OrderService.groovy
+@@ -4,0 +5,3 @@ class OrderService {
++    void cancel(Order order) {
++        order.cancelled = true
++    }
+@@ -10 +13 @@ class OrderService {
+-        return total
++        return total * 2
+@@ -20,2 +22,0 @@ class OrderService {
+-        log.debug("gone")
+-        log.debug("gone too")
+diff --git a/README.md b/README.md
+--- a/README.md
++++ b/README.md
+@@ -1 +1,2 @@
++New docs
+diff --git a/app/src/main/groovy/com/example/Legacy.groovy b/app/src/main/groovy/com/example/Legacy.groovy
+deleted file mode 100644
+--- a/app/src/main/groovy/com/example/Legacy.groovy
++++ /dev/null
+@@ -1,3 +0,0 @@
+-class Legacy {
+-}
+`;
+
+const ORDER_SERVICE = "app/src/main/groovy/com/example/OrderService.groovy";
+
+function lines(covered: number[], missed: number[]): LineCoverage[] {
+  return [
+    ...covered.map((line) => ({ line, covered: true })),
+    ...missed.map((line) => ({ line, covered: false })),
+  ];
+}
+
+describe("DiffCoverage", () => {
+  describe("parseChangedLines", () => {
+    it("reads added and modified lines of the new version", () => {
+      const changed = parseChangedLines(DIFF);
+
+      assert.deepStrictEqual(changed.get(ORDER_SERVICE), [5, 6, 7, 13]);
+      assert.deepStrictEqual(changed.get("README.md"), [1, 2]);
+    });
+
+    it("leaves out deleted files", () => {
+      const changed = parseChangedLines(DIFF);
+      assert.deepStrictEqual([...changed.keys()], [ORDER_SERVICE, "README.md"]);
+    });
+
+    it("returns nothing for an empty diff", () => {
+      assert.strictEqual(parseChangedLines("").size, 0);
+    });
+  });
+
+  describe("addUntrackedFiles", () => {
+    it("counts every line of new files", () => {
+      const added = "app/src/main/groovy/com/example/Refund.groovy";
+      const changed = addUntrackedFiles(
+        parseChangedLines(DIFF),
+        `${added}\0notes.txt\0`,
+        new Map([[added, lines([3], [4, 7])]]),
+      );
+
+      assert.deepStrictEqual(changed.get(added), [3, 4, 7]);
+      assert.ok(!changed.has("notes.txt"));
+      assert.ok(changed.has(ORDER_SERVICE));
+    });
+  });
+
+  describe("computeDiffCoverage", () => {
+    it("counts only changed executable lines", () => {
+      const result = computeDiffCoverage(
+        parseChangedLines(DIFF),
+        new Map([[ORDER_SERVICE, lines([6, 13, 30], [5, 31])]]),
+      );
+
+      assert.deepStrictEqual(result.files, [
+        { path: ORDER_SERVICE, covered: [6, 13], uncovered: [5] },
+      ]);
+      assert.strictEqual(result.covered, 2);
+      assert.strictEqual(result.total, 3);
+      assert.strictEqual(result.percent.toFixed(1), "66.7");
+    });
+
+    it("is fully covered when no executable line changed", () => {
+      const result = computeDiffCoverage(
+        parseChangedLines(DIFF),
+        new Map([[ORDER_SERVICE, lines([40], [])]]),
+      );
+      assert.deepStrictEqual(result.files, []);
+      assert.strictEqual(result.percent, 100);
+    });
+  });
+
+  describe("passesGate", () => {
+    const result = computeDiffCoverage(
+      new Map([["A.groovy", [1, 2, 3, 4]]]),
+      new Map([["A.groovy", lines([1, 2, 3], [4])]]),
+    );
+
+    it("compares against the threshold", () => {
+      assert.strictEqual(passesGate(result, 75), true);
+      assert.strictEqual(passesGate(result, 80), false);
+    });
+
+    it("passes without a threshold", () => {
+      assert.strictEqual(passesGate(result, undefined), true);
+    });
+  });
+
+  describe("toLineRanges", () => {
+    it("merges consecutive lines", () => {
+      assert.deepStrictEqual(toLineRanges([9, 3, 4, 5, 11]), [
+        { start: 3, end: 5 },
+        { start: 9, end: 9 },
+        { start: 11, end: 11 },
+      ]);
+    });
+  });
+});
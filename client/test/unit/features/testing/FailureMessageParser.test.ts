@@ -0,0 +1,133 @@
+import * as assert from "assert";
+import {
+  parseExpectedActual,
+  parseStackTrace,
+} from "../../../../src/features/testing/FailureMessageParser";
+
+describe("FailureMessageParser", () => {
+  describe("parseExpectedActual", () => {
+    it("should parse JUnit 4 comparison failures", () => {
+      assert.deepStrictEqual(
+        parseExpectedActual("total expected:<42> but was:<41>"),
+        { expected: "42", actual: "41" },
+      );
+    });
+
+    it("should parse JUnit 5 comparison failures", () => {
+      assert.deepStrictEqual(
+        parseExpectedActual("expected: <Bob> but was: <Alice>"),
+        { expected: "Bob", actual: "Alice" },
+      );
+    });
+
+    it("should parse AssertJ style messages", () => {
+      assert.deepStrictEqual(
+        parseExpectedActual('\nexpected: "Bob"\n but was: "Alice"'),
+        { expected: '"Bob"', actual: '"Alice"' },
+      );
+    });
+
+    it("should parse Hamcrest mismatches", () => {
+      assert.deepStrictEqual(
+        parseExpectedActual('\nExpected: is "Bob"\n     but: was "Alice"'),
+        { expected: 'is "Bob"', actual: '"Alice"' },
+      );
+    });
+
+    it("should read operands of a Spock power assertion", () => {
+      const message = [
+        "Condition not satisfied:",
+        "",
+        "calculator.add(1, 2) == expected",
+        "|          |         |  |",
+        "|          4         |  3",
+        "|                    false",
+        "Calculator@1a2b3c",
+        "",
+      ].join("\n");
+
+      assert.deepStrictEqual(parseExpectedActual(message), {
+        expected: "3",
+        actual: "4",
+      });
+    });
+
+    it("should use the source of literal Spock operands", () => {
+      const message = [
+        "Condition not satisfied:",
+        "",
+        'person.name == "Bob"',
+        "|      |    |",
+        "|      |    false",
+        "|      |    3 differences (40% similarity)",
+        "|      Alice",
+        "Person@1234",
+      ].join("\n");
+
+      assert.deepStrictEqual(parseExpectedActual(message), {
+        expected: "Bob",
+        actual: "Alice",
+      });
+    });
+
+    it("should ignore Spock conditions without an equality", () => {
+      const message = [
+        "Condition not satisfied:",
+        "",
+        "list.isEmpty()",
+        "|    |",
+        "[1]  false",
+      ].join("\n");
+
+      assert.strictEqual(parseExpectedActual(message), undefined);
+    });
+
+    it("should return undefined for other messages", () => {
+      assert.strictEqual(
+        parseExpectedActual("java.lang.NullPointerException"),
+        undefined,
+      );
+    });
+  });
+
+  describe("parseStackTrace", () => {
+    it("should parse printed and toString frames", () => {
+      const trace = [
+        "org.opentest4j.AssertionFailedError: boom",
+        "\tat com.example.CalculatorSpec.$spock_feature_0_0(CalculatorSpec.groovy:12)",
+        "com.example.Calculator.add(Calculator.groovy:7)",
+        "\tat java.base/java.lang.Thread.run(Thread.java:829)",
+        "\tat app//org.junit.Runner.run(Unknown Source)",
+        "Caused by: java.lang.IllegalStateException",
+        "\t... 3 more",
+      ].join("\n");
+
+      assert.deepStrictEqual(parseStackTrace(trace), [
+        {
+          className: "com.example.CalculatorSpec",
+          methodName: "$spock_feature_0_0",
+          fileName: "CalculatorSpec.groovy",
+          line: 12,
+        },
+        {
+          className: "com.example.Calculator",
+          methodName: "add",
+          fileName: "Calculator.groovy",
+          line: 7,
+        },
+        {
+          className: "java.lang.Thread",
+          methodName: "run",
+          fileName: "Thread.java",
+          line: 829,
+        },
+        {
+          className: "org.junit.Runner",
+          methodName: "run",
+          fileName: undefined,
+          line: undefined,
+        },
+      ]);
+    });
+  });
+});
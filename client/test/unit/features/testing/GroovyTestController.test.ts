@@ -10,6 +10,7 @@ describe("GroovyTestController", () => {
   let testServiceMock: any;
   let vscodeMock: any;
   let testControllerMock: any;
+  let pickTestReportsStub: sinon.SinonStub;
   let sandbox: sinon.SinonSandbox;
 
   beforeEach(() => {
@@ -37,6 +38,8 @@ describe("GroovyTestController", () => {
                 .stub()
                 .callsFake((childId: string) => childrenMap.get(childId)),
               replace: sandbox.stub().callsFake(() => childrenMap.clear()),
+              forEach: (cb: (item: any) => void) =>
+                childrenMap.forEach((item) => cb(item)),
             },
           };
         }),
@@ -48,9 +51,12 @@ describe("GroovyTestController", () => {
         delete: sandbox.stub().callsFake((id: string) => {
           testItemsMock.delete(id);
         }),
-        replace: sandbox.stub().callsFake(() => {
+        replace: sandbox.stub().callsFake((items: any[] = []) => {
           testItemsMock.clear();
+          items.forEach((item) => testItemsMock.set(item.id, item));
         }),
+        forEach: (cb: (item: any) => void) =>
+          testItemsMock.forEach((item) => cb(item)),
       },
       createRunProfile: sandbox.stub(),
       resolveHandler: undefined,
@@ -110,6 +116,11 @@ describe("GroovyTestController", () => {
         onDidSaveTextDocument: sandbox
           .stub()
           .returns({ dispose: sandbox.stub() }),
+        onDidChangeConfiguration: sandbox
+          .stub()
+          .returns({ dispose: sandbox.stub() }),
+        getConfiguration: sandbox.stub().returns({ get: () => undefined }),
+        textDocuments: [],
       },
       TestRunProfileKind: {
         Run: 1,
@@ -135,7 +146,14 @@ describe("GroovyTestController", () => {
         ) {}
       },
       TestRunRequest: class {
-        constructor(public include: any[]) {}
+        constructor(
+          public include: any[],
+          public exclude?: any[],
+          public profile?: any,
+        ) {}
+      },
+      TestMessage: class {
+        constructor(public message: string) {}
       },
       CancellationTokenSource: class {
         token = {};
@@ -161,11 +179,22 @@ describe("GroovyTestController", () => {
       discoverTestsInWorkspace: sandbox.stub().resolves([]),
     };
 
+    pickTestReportsStub = sandbox.stub().resolves(undefined);
+
     // Load GroovyTestController with mocks
     const module = (proxyquire as any).noCallThru()(
       "../../../../src/features/testing/GroovyTestController",
       {
         vscode: vscodeMock,
+        "./ContinuousTestRunner": (proxyquire as any).noCallThru()(
+          "../../../../src/features/testing/ContinuousTestRunner",
+          { vscode: vscodeMock },
+        ),
+        "./TestEventConsumer": (proxyquire as any).noCallThru()(
+          "../../../../src/features/testing/TestEventConsumer",
+          { vscode: vscodeMock },
+        ),
+        "./TestReportLoader": { pickTestReports: pickTestReportsStub },
       },
     );
     GroovyTestController = module.GroovyTestController;
@@ -519,4 +548,455 @@ describe("GroovyTestController", () => {
       );
     });
   });
+
+  describe("multi-root discovery", () => {
+    it("should discover tests in every workspace folder", async () => {
+      vscodeMock.workspace.workspaceFolders = [
+        { uri: { toString: () => "file:///repo/service-a" }, name: "a" },
+        { uri: { toString: () => "file:///repo/service-b" }, name: "b" },
+      ];
+      testServiceMock.discoverTestsInWorkspace
+        .withArgs("file:///repo/service-a")
+        .resolves([
+          {
+            uri: "file:///repo/service-a/ASpec.groovy",
+            suite: "a.ASpec",
+            tests: [{ test: "works", line: 5 }],
+          },
+        ]);
+      testServiceMock.discoverTestsInWorkspace
+        .withArgs("file:///repo/service-b")
+        .resolves([
+          {
+            uri: "file:///repo/service-b/BSpec.groovy",
+            suite: "b.BSpec",
+            tests: [{ test: "works too", line: 7 }],
+          },
+        ]);
+
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+      await testControllerMock.resolveHandler(undefined);
+
+      assert.ok(testControllerMock.items.get("a.ASpec"));
+      assert.ok(testControllerMock.items.get("b.BSpec"));
+    });
+
+    it("should keep a class that exists in several folders once per folder", async () => {
+      vscodeMock.workspace.workspaceFolders = [
+        { uri: { toString: () => "file:///repo/service-a" }, name: "a" },
+        { uri: { toString: () => "file:///repo/service-b" }, name: "b" },
+      ];
+      const specA = "file:///repo/service-a/HealthSpec.groovy";
+      const specB = "file:///repo/service-b/HealthSpec.groovy";
+      testServiceMock.discoverTestsInWorkspace
+        .withArgs("file:///repo/service-a")
+        .resolves([
+          {
+            uri: specA,
+            suite: "app.HealthSpec",
+            tests: [{ test: "up", line: 5 }],
+          },
+        ]);
+      testServiceMock.discoverTestsInWorkspace
+        .withArgs("file:///repo/service-b")
+        .resolves([
+          {
+            uri: specB,
+            suite: "app.HealthSpec",
+            tests: [{ test: "up", line: 5 }],
+          },
+        ]);
+
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+      await testControllerMock.resolveHandler(undefined);
+
+      const suiteB = testControllerMock.items.get(`${specB}::app.HealthSpec`);
+      assert.ok(testControllerMock.items.get(`${specA}::app.HealthSpec`));
+      assert.ok(suiteB);
+      assert.ok(suiteB.children.get(`${specB}::app.HealthSpec.up`));
+
+      // CodeLens runs pick the copy in the file they were shown in
+      vscodeMock.workspace.getWorkspaceFolder.returns({ name: "b" });
+      const runCommand = vscodeMock.commands.registerCommand.args.find(
+        (args: any[]) => args[0] === "groovy.test.run",
+      );
+      await runCommand[1]({ suite: "app.HealthSpec", test: "*", uri: specB });
+      const request = executionServiceMock.runTests.firstCall.args[0];
+      assert.strictEqual(request.include[0], suiteB);
+    });
+
+    it("should keep tests from other folders when one folder fails", async () => {
+      vscodeMock.workspace.workspaceFolders = [
+        { uri: { toString: () => "file:///repo/broken" }, name: "broken" },
+        { uri: { toString: () => "file:///repo/ok" }, name: "ok" },
+      ];
+      testServiceMock.discoverTestsInWorkspace
+        .withArgs("file:///repo/broken")
+        .rejects(new Error("boom"));
+      testServiceMock.discoverTestsInWorkspace
+        .withArgs("file:///repo/ok")
+        .resolves([
+          {
+            uri: "file:///repo/ok/OkSpec.groovy",
+            suite: "ok.OkSpec",
+            tests: [{ test: "works", line: 5 }],
+          },
+        ]);
+      const consoleError = sandbox.stub(console, "error");
+
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+      await testControllerMock.resolveHandler(undefined);
+
+      assert.ok(testControllerMock.items.get("ok.OkSpec"));
+      assert.ok(consoleError.calledOnce);
+    });
+  });
+
+  describe("annotations", () => {
+    const source = [
+      "@Stepwise",
+      "class MathSpec extends Specification {",
+      '  @Tag("slow")',
+      '  @Tag("pending")',
+      '  def "adds"() {',
+      "  }",
+      "",
+      "  @Ignore",
+      '  def "divides"() {',
+      "  }",
+      "",
+      "  @PendingFeature",
+      '  def "integrates"() {',
+      "  }",
+      "}",
+    ].join("\n");
+
+    beforeEach(async () => {
+      vscodeMock.workspace.textDocuments = [
+        {
+          uri: { toString: () => "file:///workspace/MathSpec.groovy" },
+          getText: () => source,
+        },
+      ];
+      testServiceMock.discoverTestsInWorkspace.resolves([
+        {
+          uri: "file:///workspace/MathSpec.groovy",
+          suite: "com.example.MathSpec",
+          tests: [
+            { test: "adds", line: 5 },
+            { test: "divides", line: 9 },
+            { test: "integrates", line: 13 },
+          ],
+        },
+      ]);
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+      await testControllerMock.resolveHandler(undefined);
+    });
+
+    const feature = (name: string) =>
+      testControllerMock.items
+        .get("com.example.MathSpec")
+        .children.get(`com.example.MathSpec.${name}`);
+    const tagIds = (item: any) => item.tags.map((tag: any) => tag.id);
+
+    it("should tag tests with their annotations", () => {
+      assert.deepStrictEqual(tagIds(feature("adds")), [
+        "runnable",
+        "tag:slow",
+        "tag:pending",
+        "stepwise",
+      ]);
+      assert.deepStrictEqual(
+        tagIds(testControllerMock.items.get("com.example.MathSpec")),
+        ["runnable", "tag:slow", "tag:pending", "stepwise"],
+      );
+    });
+
+    it("should keep user tags apart from the built-in tags", () => {
+      assert.ok(!tagIds(feature("adds")).includes("pending"));
+      assert.strictEqual(feature("adds").description, undefined);
+      const profile = testControllerMock.createRunProfile
+        .getCalls()
+        .find((c: any) => c.args[0] === "Run only @pending");
+      assert.strictEqual(profile.args[4].id, "tag:pending");
+    });
+
+    it("should mark ignored and pending features", () => {
+      assert.deepStrictEqual(tagIds(feature("divides")), [
+        "runnable",
+        "ignored",
+        "stepwise",
+      ]);
+      assert.strictEqual(feature("divides").label, "$(circle-slash) divides");
+      assert.strictEqual(feature("divides").description, "@Ignore");
+      assert.strictEqual(feature("integrates").description, "@PendingFeature");
+    });
+
+    it("should offer a profile that runs only the tagged tests", async () => {
+      const profile = testControllerMock.createRunProfile
+        .getCalls()
+        .find((c: any) => c.args[0] === "Run only @slow");
+      assert.strictEqual(profile.args[4].id, "tag:slow");
+
+      await profile.args[2]({ include: undefined }, {});
+
+      const request = executionServiceMock.runTests.firstCall.args[0];
+      assert.deepStrictEqual(
+        request.include.map((item: any) => item.id),
+        ["com.example.MathSpec.adds"],
+      );
+    });
+  });
+
+  describe("run profiles", () => {
+    it("should let the Run profile run continuously", async () => {
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+
+      const runProfile = testControllerMock.createRunProfile
+        .getCalls()
+        .find((c: any) => c.args[0] === "Run");
+      assert.strictEqual(runProfile.args[5], true);
+
+      const token = {
+        isCancellationRequested: true,
+        onCancellationRequested: sandbox.stub(),
+      };
+      await runProfile.args[2]({ continuous: true }, token);
+      assert.ok(executionServiceMock.runTests.notCalled);
+
+      await runProfile.args[2]({ continuous: false }, token);
+      assert.ok(executionServiceMock.runTests.calledOnce);
+    });
+
+    it("should add Run and Debug profiles for each configured profile", async () => {
+      const profile = { name: "Integration", jvmArgs: ["-Xmx2g"] };
+      vscodeMock.workspace.getConfiguration.returns({
+        get: () => [profile, { jvmArgs: ["-ea"] }],
+      });
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+
+      const calls = testControllerMock.createRunProfile
+        .getCalls()
+        .filter((c: any) => c.args[0] === "Integration");
+      assert.deepStrictEqual(
+        calls.map((c: any) => c.args[1]),
+        [
+          vscodeMock.TestRunProfileKind.Run,
+          vscodeMock.TestRunProfileKind.Debug,
+        ],
+      );
+
+      const request = {};
+      const token = {};
+      await calls[1].args[2](request, token);
+      assert.ok(
+        executionServiceMock.debugTests.calledWith(
+          request,
+          token,
+          testControllerMock,
+          sinon.match({ name: "Integration", jvmArgs: ["-Xmx2g"] }),
+        ),
+      );
+    });
+  });
+
+  describe("rerunFailed", () => {
+    const getCommand = (name: string) =>
+      vscodeMock.commands.registerCommand
+        .getCalls()
+        .find((c: any) => c.args[0] === name).args[1];
+
+    beforeEach(() => {
+      vscodeMock.window.showInformationMessage = sandbox.stub();
+      testServiceMock.discoverTestsInWorkspace.resolves([
+        {
+          uri: "file:///workspace/FooSpec.groovy",
+          suite: "com.example.FooSpec",
+          tests: [
+            { test: "works", line: 5 },
+            { test: "fails", line: 9 },
+          ],
+        },
+        {
+          uri: "file:///workspace/BarSpec.groovy",
+          suite: "com.example.BarSpec",
+          tests: [{ test: "breaks", line: 3 }],
+        },
+      ]);
+    });
+
+    it("should rerun the tests whose last run failed", async () => {
+      const historyMock = {
+        getFailingTests: sandbox.stub().returns([
+          { id: "com.example.FooSpec.fails" },
+          // An @Unroll iteration that no longer exists falls back to its feature
+          {
+            id: "com.example.BarSpec.breaks [x: 1, #0]",
+            parentId: "com.example.BarSpec.breaks",
+          },
+          { id: "com.example.GoneSpec.removed" },
+        ]),
+      };
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+        undefined,
+        historyMock,
+      );
+      await getCommand("groovy.test.rerunFailed")();
+
+      assert.ok(executionServiceMock.runTests.calledOnce);
+      const request = executionServiceMock.runTests.getCall(0).args[0];
+      assert.deepStrictEqual(
+        request.include.map((item: any) => item.id),
+        ["com.example.FooSpec.fails", "com.example.BarSpec.breaks"],
+      );
+    });
+
+    it("should say so when nothing failed", async () => {
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+        undefined,
+        { getFailingTests: sandbox.stub().returns([]) },
+      );
+
+      await getCommand("groovy.test.rerunFailed")();
+
+      assert.ok(executionServiceMock.runTests.notCalled);
+      assert.ok(
+        vscodeMock.window.showInformationMessage.calledWith(
+          "No failed tests to rerun",
+        ),
+      );
+    });
+  });
+
+  describe("loadReports", () => {
+    let runMock: any;
+
+    const getCommand = (name: string) =>
+      vscodeMock.commands.registerCommand
+        .getCalls()
+        .find((c: any) => c.args[0] === name).args[1];
+
+    beforeEach(() => {
+      vscodeMock.window.showInformationMessage = sandbox.stub();
+      runMock = {
+        passed: sandbox.stub(),
+        failed: sandbox.stub(),
+        skipped: sandbox.stub(),
+        errored: sandbox.stub(),
+        appendOutput: sandbox.stub(),
+        end: sandbox.stub(),
+      };
+      testControllerMock.createTestRun = sandbox.stub().returns(runMock);
+      testServiceMock.discoverTestsInWorkspace.resolves([
+        {
+          uri: "file:///workspace/FooSpec.groovy",
+          suite: "com.example.FooSpec",
+          tests: [
+            { test: "works", line: 5 },
+            { test: "fails", line: 9 },
+          ],
+        },
+      ]);
+    });
+
+    it("should apply reported results without running tests", async () => {
+      pickTestReportsStub.resolves([
+        {
+          testId: "com.example.FooSpec.works",
+          name: "works",
+          className: "com.example.FooSpec",
+          status: "SUCCESS",
+          durationMs: 12,
+        },
+        {
+          testId: "com.example.FooSpec.fails [x: 1, #0]",
+          name: "fails [x: 1, #0]",
+          className: "com.example.FooSpec",
+          status: "FAILURE",
+          durationMs: 3,
+          failureMessage: "Condition not satisfied:",
+        },
+        {
+          testId: "com.example.GoneSpec.removed",
+          name: "removed",
+          className: "com.example.GoneSpec",
+          status: "SUCCESS",
+          durationMs: 1,
+        },
+      ]);
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+
+      await getCommand("groovy.test.loadReports")();
+
+      assert.ok(executionServiceMock.runTests.notCalled);
+      assert.strictEqual(
+        runMock.passed.getCall(0).args[0].id,
+        "com.example.FooSpec.works",
+      );
+      const [failedItem, message] = runMock.failed.getCall(0).args;
+      assert.strictEqual(failedItem.id, "com.example.FooSpec.fails");
+      assert.strictEqual(
+        message.message,
+        "fails [x: 1, #0]: Condition not satisfied:",
+      );
+      assert.ok(runMock.end.calledOnce);
+      assert.ok(
+        vscodeMock.window.showInformationMessage.calledWith(
+          "Loaded results for 2 tests from 3 reported test cases",
+        ),
+      );
+    });
+
+    it("should warn when the reports contain no results", async () => {
+      pickTestReportsStub.resolves([]);
+      controller = new GroovyTestController(
+        contextMock,
+        executionServiceMock,
+        testServiceMock,
+      );
+
+      await getCommand("groovy.test.loadReports")();
+
+      assert.ok(testControllerMock.createTestRun.notCalled);
+      assert.ok(
+        vscodeMock.window.showWarningMessage.calledWith(
+          "No test results found in the selected reports",
+        ),
+      );
+    });
+  });
 });
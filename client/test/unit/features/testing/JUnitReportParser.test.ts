@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import {
+  matchReportResults,
+  parseJUnitReport,
+} from "../../../../src/features/testing/JUnitReportParser";
+
+describe("JUnitReportParser", () => {
+  describe("parseJUnitReport", () => {
+    const report = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuite name="com.example.MathSpec" tests="4" failures="1" errors="1" skipped="1">
+  <testcase name="adds &amp; subtracts" classname="com.example.MathSpec" time="0.125">
+    <system-out><![CDATA[computing <1 + 1>]]></system-out>
+  </testcase>
+  <testcase name="a &gt; b" classname="com.example.MathSpec" time="0.002">
+    <failure message="Condition not satisfied:&#10;&#10;a &gt; b" type="org.spockframework.runtime.SpockComparisonFailure">Condition not satisfied:
+	at com.example.MathSpec.a &gt; b(MathSpec.groovy:12)</failure>
+  </testcase>
+  <testcase name='divides' classname='com.example.MathSpec' time='0'>
+    <error type="java.lang.ArithmeticException"/>
+  </testcase>
+  <testcase name="later" classname="com.example.MathSpec" time="0">
+    <skipped/>
+  </testcase>
+</testsuite>`;
+
+    it("should read each test case with its status", () => {
+      const results = parseJUnitReport(report);
+      assert.deepStrictEqual(
+        results.map((r) => [r.testId, r.status, r.durationMs]),
+        [
+          ["com.example.MathSpec.adds & subtracts", "SUCCESS", 125],
+          ["com.example.MathSpec.a > b", "FAILURE", 2],
+          ["com.example.MathSpec.divides", "ERROR", 0],
+          ["com.example.MathSpec.later", "SKIPPED", 0],
+        ],
+      );
+    });
+
+    it("should read failure messages, stack traces and output", () => {
+      const [passed, failed, errored] = parseJUnitReport(report);
+      assert.strictEqual(passed.output, "computing <1 + 1>");
+      assert.strictEqual(
+        failed.failureMessage,
+        "Condition not satisfied:\n\na > b",
+      );
+      assert.strictEqual(
+        failed.stackTrace,
+        "Condition not satisfied:\n\tat com.example.MathSpec.a > b(MathSpec.groovy:12)",
+      );
+      assert.strictEqual(
+        errored.failureMessage,
+        "java.lang.ArithmeticException",
+      );
+    });
+
+    it("should return nothing for other XML files", () => {
+      assert.deepStrictEqual(parseJUnitReport("<project></project>"), []);
+    });
+  });
+
+  describe("matchReportResults", () => {
+    const result = (name: string, status: any, failureMessage?: string) => ({
+      testId: `com.example.MathSpec.${name}`,
+      name,
+      className: "com.example.MathSpec",
+      status,
+      durationMs: 5,
+      failureMessage,
+    });
+
+    it("should match results by test ID", () => {
+      const matched = matchReportResults(
+        [result("adds", "SUCCESS"), result("unknown", "SUCCESS")],
+        ["com.example.MathSpec", "com.example.MathSpec.adds"],
+      );
+      assert.deepStrictEqual(
+        [...matched.keys()],
+        ["com.example.MathSpec.adds"],
+      );
+    });
+
+    it("should roll iterations up into their feature", () => {
+      const matched = matchReportResults(
+        [
+          result("max [a: 1, #0]", "SUCCESS"),
+          result("max [a: 2, #1]", "FAILURE", "boom"),
+          result("max [a: 3, #2]", "SUCCESS"),
+          result("maximum(int)[1]", "SUCCESS"),
+        ],
+        ["com.example.MathSpec.max", "com.example.MathSpec.maximum"],
+      );
+      const max = matched.get("com.example.MathSpec.max");
+      assert.strictEqual(max?.status, "FAILURE");
+      assert.strictEqual(max?.failureMessage, "max [a: 2, #1]: boom");
+      assert.strictEqual(max?.durationMs, 15);
+      assert.strictEqual(
+        matched.get("com.example.MathSpec.maximum")?.status,
+        "SUCCESS",
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import {
+  lineCoveragePercent,
+  lineStatus,
+  matchSourceFiles,
+  parseJacocoReport,
+} from "../../../../src/features/testing/JacocoReportParser";
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<!DOCTYPE report PUBLIC "-//JACOCO//DTD Report 1.1//EN" "report.dtd">
+<report name="app">
+  <sessioninfo id="host-1" start="1700000000000" dump="1700000001000"/>
+  <package name="com/example">
+    <class name="com/example/OrderService" sourcefilename="OrderService.groovy">
+      <method name="place" desc="()V" line="5">
+        <counter type="LINE" missed="1" covered="2"/>
+      </method>
+    </class>
+    <sourcefile name="OrderService.groovy">
+      <line nr="5" mi="0" ci="3" mb="0" cb="0"/>
+      <line nr="6" mi="0" ci="4" mb="1" cb="1"/>
+      <line nr="8" mi="2" ci="0" mb="0" cb="0"/>
+      <counter type="LINE" missed="1" covered="2"/>
+    </sourcefile>
+  </package>
+  <package name="">
+    <sourcefile name="Script.groovy">
+      <line nr="1" mi="0" ci="1" mb="0" cb="0"/>
+    </sourcefile>
+  </package>
+</report>`;
+
+describe("JacocoReportParser", () => {
+  describe("parseJacocoReport", () => {
+    it("reads line and branch coverage per source file", () => {
+      const files = parseJacocoReport(REPORT);
+
+      assert.deepStrictEqual(
+        files.map((f) => f.path),
+        ["com/example/OrderService.groovy", "Script.groovy"],
+      );
+      assert.deepStrictEqual(files[0].lines, [
+        { line: 5, covered: true, branchInfo: undefined },
+        { line: 6, covered: true, branchInfo: { covered: 1, total: 2 } },
+        { line: 8, covered: false, branchInfo: undefined },
+      ]);
+      assert.deepStrictEqual(files[0].summary, {
+        linesCovered: 2,
+        linesTotal: 3,
+        branchesCovered: 1,
+        branchesTotal: 2,
+      });
+    });
+
+    it("reads packages inside groups of aggregated reports", () => {
+      const files = parseJacocoReport(
+        `<report name="all"><group name="app"><package name="a/b"><sourcefile name="C.java"><line nr="1" mi="1" ci="0" mb="0" cb="0"/></sourcefile></package></group></report>`,
+      );
+      assert.strictEqual(files.length, 1);
+      assert.strictEqual(files[0].path, "a/b/C.java");
+    });
+
+    it("returns nothing for other XML", () => {
+      assert.deepStrictEqual(parseJacocoReport("<testsuite/>"), []);
+    });
+  });
+
+  describe("lineStatus", () => {
+    it("marks lines with missed branches as partial", () => {
+      const [covered, partial, missed] = parseJacocoReport(REPORT)[0].lines;
+      assert.strictEqual(lineStatus(covered), "covered");
+      assert.strictEqual(lineStatus(partial), "partial");
+      assert.strictEqual(lineStatus(missed), "missed");
+    });
+  });
+
+  describe("lineCoveragePercent", () => {
+    it("treats files without lines as covered", () => {
+      const summary = {
+        linesCovered: 0,
+        linesTotal: 0,
+        branchesCovered: 0,
+        branchesTotal: 0,
+      };
+      assert.strictEqual(lineCoveragePercent(summary), 100);
+      assert.strictEqual(
+        lineCoveragePercent({ ...summary, linesCovered: 1, linesTotal: 4 }),
+        25,
+      );
+    });
+  });
+
+  describe("matchSourceFiles", () => {
+    it("matches report paths to the workspace file at that package", () => {
+      const matches = matchSourceFiles(
+        ["com/example/OrderService.groovy", "com/other/Missing.groovy"],
+        [
+          "/ws/app/build/generated/com/example/OrderService.groovy",
+          "/ws/app/src/main/groovy/com/example/OrderService.groovy",
+          "/ws/app/src/main/groovy/org/example/OrderService.groovy",
+        ],
+      );
+      assert.deepStrictEqual(
+        [...matches],
+        [
+          [
+            "com/example/OrderService.groovy",
+            "/ws/app/src/main/groovy/com/example/OrderService.groovy",
+          ],
+        ],
+      );
+    });
+
+    it("matches files of the default package by name", () => {
+      const matches = matchSourceFiles(
+        ["Script.groovy"],
+        ["/ws/src/main/groovy/Script.groovy"],
+      );
+      assert.strictEqual(
+        matches.get("Script.groovy"),
+        "/ws/src/main/groovy/Script.groovy",
+      );
+    });
+  });
+});
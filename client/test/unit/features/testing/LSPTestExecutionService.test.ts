@@ -14,6 +14,8 @@ describe("LSPTestExecutionService", () => {
   let fsMock: any;
   let readlineMock: any;
   let pathMock: any;
+  let testDebuggerModule: any;
+  let reportWatchers: any[];
 
   beforeEach(() => {
     sandbox = sinon.createSandbox();
@@ -76,7 +78,21 @@ describe("LSPTestExecutionService", () => {
         ) {}
       },
       TestRunProfileKind: { Run: 1, Coverage: 3 },
+      extensions: {
+        getExtension: sandbox
+          .stub()
+          .returns({ id: "vscjava.vscode-java-debug" }),
+      },
+      debug: {
+        startDebugging: sandbox.stub().resolves(true),
+      },
+      commands: {
+        executeCommand: sandbox.stub(),
+      },
     };
+    vscodeMock.workspace.getWorkspaceFolder = sandbox
+      .stub()
+      .returns(vscodeMock.workspace.workspaceFolders[0]);
 
     // Mock child_process
     cpMock = {
@@ -119,6 +135,28 @@ describe("LSPTestExecutionService", () => {
       delimiter: ":",
     };
 
+    testDebuggerModule = (proxyquire as any).noCallThru()(
+      "../../../../src/features/testing/TestDebugger",
+      { vscode: vscodeMock },
+    );
+
+    // Maven report watchers created by the service; tests feed them reports
+    reportWatchers = [];
+    const surefireModule = {
+      parseRunningClass: (line: string) =>
+        /^\[INFO\] Running (\S+)$/.exec(line)?.[1],
+      SurefireReportWatcher: class {
+        start = sandbox.stub().resolves();
+        stop = sandbox.stub().resolves();
+        constructor(
+          public projectDir: string,
+          public onReport: (results: any[]) => void,
+        ) {
+          reportWatchers.push(this);
+        }
+      },
+    };
+
     const module = (proxyquire as any).noCallThru()(
       "../../../../src/features/testing/LSPTestExecutionService",
       {
@@ -131,6 +169,8 @@ describe("LSPTestExecutionService", () => {
           "../../../../src/features/testing/TestEventConsumer",
           { vscode: vscodeMock },
         ),
+        "./TestDebugger": testDebuggerModule,
+        "./SurefireReportWatcher": surefireModule,
       },
     );
     LSPTestExecutionService = module.LSPTestExecutionService;
@@ -197,7 +237,7 @@ describe("LSPTestExecutionService", () => {
       const testItem = {
         id: "com.example.MySpec",
         uri: { toString: () => "file:///test.groovy" },
-        children: { size: 0 },
+        children: { size: 0, forEach: () => {} },
       };
 
       const request = { include: [testItem] };
@@ -230,7 +270,7 @@ describe("LSPTestExecutionService", () => {
       const testItem = {
         id: "com.example.MyTest",
         uri: { toString: () => "file:///test.groovy" },
-        children: { size: 0 },
+        children: { size: 0, forEach: () => {} },
       };
 
       const request = { include: [testItem] };
@@ -265,7 +305,7 @@ describe("LSPTestExecutionService", () => {
       const testItem = {
         id: "com.example.MySpec",
         uri: { toString: () => "file:///test.groovy" },
-        children: { size: 0 },
+        children: { size: 0, forEach: () => {} },
       };
 
       const request = { include: [testItem] };
@@ -298,11 +338,119 @@ describe("LSPTestExecutionService", () => {
       );
     });
 
+    it("should fetch results and coverage from each test's own workspace folder", async () => {
+      const folderA = { uri: { toString: () => "file:///repo/a" } };
+      const folderB = { uri: { toString: () => "file:///repo/b" } };
+      vscodeMock.workspace.workspaceFolders = [folderA, folderB];
+      vscodeMock.workspace.getWorkspaceFolder.callsFake((uri: any) =>
+        uri.toString().startsWith("file:///repo/b/") ? folderB : folderA,
+      );
+
+      const itemA = {
+        id: "com.example.ATest",
+        uri: { toString: () => "file:///repo/a/ATest.groovy" },
+        children: { size: 0, forEach: () => {} },
+      };
+      const itemB = {
+        id: "com.example.BTest",
+        uri: { toString: () => "file:///repo/b/BTest.groovy" },
+        children: { size: 0, forEach: () => {} },
+      };
+
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/mvnw",
+        args: ["test"],
+        cwd: "/repo",
+        env: {},
+      });
+      testServiceMock.getTestResults.resolves({ results: [] });
+
+      await service.runTestsWithCoverage(
+        { include: [itemA, itemB] },
+        tokenMock,
+        testControllerMock,
+        coverageServiceMock,
+      );
+
+      assert.deepStrictEqual(
+        testServiceMock.getTestResults.getCalls().map((c: any) => c.args[0]),
+        ["file:///repo/a", "file:///repo/b"],
+      );
+      assert.deepStrictEqual(
+        coverageServiceMock.addCoverageToRun
+          .getCalls()
+          .map((c: any) => c.args[1]),
+        ["file:///repo/a", "file:///repo/b"],
+      );
+    });
+
+    it("should run tests from the same project in one invocation", async () => {
+      const items = ["com.example.ASpec", "com.example.BSpec"].map((id) => ({
+        id,
+        uri: { toString: () => `file:///${id}.groovy` },
+        children: { size: 0, forEach: () => {} },
+      }));
+      testServiceMock.getTestCommand.callsFake(
+        async (_uri: string, suite: string, test?: string) => ({
+          executable: "/path/to/gradlew",
+          args: ["test", "--tests", `${suite}.${test}`],
+          cwd: "/workspace",
+          env: {},
+        }),
+      );
+
+      await service.runTestsWithCoverage(
+        { include: items },
+        tokenMock,
+        testControllerMock,
+        coverageServiceMock,
+      );
+
+      assert.ok(testServiceMock.getTestCommand.calledTwice);
+      assert.ok(cpMock.spawn.calledOnce);
+      const args: string[] = cpMock.spawn.getCall(0).args[1];
+      assert.deepStrictEqual(
+        args.filter((_a, i) => args[i - 1] === "--tests"),
+        ["com.example.ASpec", "com.example.BSpec"],
+      );
+      assert.strictEqual(
+        args.filter((a) => a === "jacocoTestReport").length,
+        1,
+      );
+      assert.ok(coverageServiceMock.addCoverageToRun.calledOnce);
+    });
+
+    it("should run a scoped suite by its class name", async () => {
+      const testItem = {
+        id: "file:///repo/a/MySpec.groovy::MySpec",
+        uri: { toString: () => "file:///repo/a/MySpec.groovy" },
+        children: { size: 0, forEach: () => {} },
+      };
+
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/gradlew",
+        args: ["test"],
+        cwd: "/workspace",
+        env: {},
+      });
+
+      await service.runTestsWithCoverage(
+        { include: [testItem] },
+        tokenMock,
+        testControllerMock,
+        coverageServiceMock,
+      );
+
+      const callArgs = testServiceMock.getTestCommand.getCall(0).args;
+      assert.strictEqual(callArgs[1], "MySpec");
+      assert.strictEqual(callArgs[2], undefined);
+    });
+
     it("should handle suite-level execution (dot in ID from package)", async () => {
       const testItem = {
         id: "com.example.MySpec",
         uri: { toString: () => "file:///test.groovy" },
-        children: { size: 0 },
+        children: { size: 0, forEach: () => {} },
       };
 
       const request = { include: [testItem] };
@@ -342,7 +490,7 @@ describe("LSPTestExecutionService", () => {
       const testItem = {
         id: "com.example.MySpec.testMethod",
         uri: { toString: () => "file:///test.groovy" },
-        children: { size: 0 },
+        children: { size: 0, forEach: () => {} },
       };
 
       const request = { include: [testItem] };
@@ -376,7 +524,7 @@ describe("LSPTestExecutionService", () => {
       const testItem = {
         id: "com.example.MySpec",
         uri: { toString: () => "file:///test.groovy" },
-        children: { size: 0 },
+        children: { size: 0, forEach: () => {} },
       };
 
       const request = { include: [testItem] };
@@ -425,7 +573,7 @@ describe("LSPTestExecutionService", () => {
         const testItem = {
           id: "com.example.Test",
           uri: { toString: () => "file:///test.groovy" },
-          children: { size: 0 },
+          children: { size: 0, forEach: () => {} },
         };
 
         const request = { include: [testItem] };
@@ -513,7 +661,7 @@ describe("LSPTestExecutionService", () => {
       const testItem = {
         id: "com.example.MySpec",
         uri: { toString: () => "file:///test.groovy" },
-        children: { size: 0 },
+        children: { size: 0, forEach: () => {} },
       };
 
       const request = { include: [testItem] };
@@ -540,6 +688,326 @@ describe("LSPTestExecutionService", () => {
         "Should not append jacoco:report for regular test run",
       );
     });
+
+    it("should record reported results in the test history", async () => {
+      const historyMock = { recordRun: sandbox.stub().resolves() };
+      service = new LSPTestExecutionService(
+        testServiceMock,
+        loggerMock,
+        "/extension/path",
+        historyMock,
+      );
+      const feature = {
+        id: "com.example.MySpec.works",
+        label: "works",
+        uri: { toString: () => "file:///MySpec.groovy" },
+        children: { size: 0, forEach: () => {} },
+      };
+      const suite = {
+        id: "com.example.MySpec",
+        label: "MySpec",
+        uri: { toString: () => "file:///MySpec.groovy" },
+        children: { size: 1, forEach: (cb: any) => cb(feature) },
+      };
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/mvnw",
+        args: ["test", "-Dtest=com.example.MySpec"],
+        cwd: "/workspace",
+      });
+      testServiceMock.getTestResults.resolves({
+        results: [
+          {
+            testId: "com.example.MySpec.works",
+            name: "works",
+            status: "FAILURE",
+            durationMs: 12,
+            failureMessage: "Condition not satisfied",
+          },
+        ],
+      });
+
+      await service.runTests(
+        { include: [suite] },
+        tokenMock,
+        testControllerMock,
+      );
+
+      assert.ok(historyMock.recordRun.calledOnce);
+      const [results] = historyMock.recordRun.getCall(0).args;
+      assert.deepStrictEqual(
+        results.map((r: any) => [r.id, r.status, r.durationMs, r.message]),
+        [["com.example.MySpec.works", "failed", 12, "Condition not satisfied"]],
+      );
+    });
+
+    it("should stream Maven results from Surefire reports while running", async () => {
+      testRunMock.started = sandbox.stub();
+      const feature = {
+        id: "com.example.MySpec.works",
+        label: "works",
+        uri: { toString: () => "file:///MySpec.groovy" },
+        children: { size: 0, forEach: () => {} },
+      };
+      const suite = {
+        id: "com.example.MySpec",
+        label: "MySpec",
+        uri: { toString: () => "file:///MySpec.groovy" },
+        children: { size: 1, forEach: (cb: any) => cb(feature) },
+      };
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/mvnw",
+        args: ["test", "-Dtest=com.example.MySpec"],
+        cwd: "/workspace",
+      });
+      // The final LSP results repeat what the reports already showed
+      testServiceMock.getTestResults.resolves({
+        results: [
+          {
+            testId: "com.example.MySpec.works",
+            name: "works",
+            status: "FAILURE",
+            durationMs: 12,
+          },
+        ],
+      });
+      let lineHandler: ((line: string) => void) | undefined;
+      readlineMock.createInterface.returns({
+        on: (event: string, handler: any) => {
+          if (event === "line") {
+            lineHandler = handler;
+          }
+        },
+        close: sandbox.stub(),
+      });
+      cpMock.spawn.returns({
+        stdout: { on: sandbox.stub() },
+        stderr: { on: sandbox.stub() },
+        on: (event: string, callback: any) => {
+          if (event === "close") {
+            setTimeout(() => {
+              lineHandler!("[INFO] Running com.example.MySpec");
+              reportWatchers[0].onReport([
+                {
+                  testId: "com.example.MySpec.works",
+                  name: "works",
+                  className: "com.example.MySpec",
+                  status: "FAILURE",
+                  durationMs: 12,
+                  failureMessage: "Condition not satisfied",
+                },
+              ]);
+              assert.ok(testRunMock.started.calledWith(suite));
+              assert.ok(testRunMock.started.calledWith(feature));
+              assert.ok(testRunMock.failed.calledOnceWith(feature));
+              callback(1);
+            }, 0);
+          }
+        },
+        kill: sandbox.stub(),
+      });
+
+      await service.runTests(
+        { include: [suite] },
+        tokenMock,
+        testControllerMock,
+      );
+
+      assert.strictEqual(reportWatchers.length, 1);
+      assert.strictEqual(reportWatchers[0].projectDir, "/workspace");
+      assert.ok(reportWatchers[0].start.calledOnce);
+      assert.ok(reportWatchers[0].stop.calledOnce);
+      assert.ok(testRunMock.failed.calledOnce, "Results are applied once");
+    });
+  });
+
+  describe("debugTests", () => {
+    let testControllerMock: any;
+    let testRunMock: any;
+    let tokenMock: any;
+    let lineHandler: ((line: string) => void) | undefined;
+    let closeHandler: ((code: number) => void) | undefined;
+
+    const testItem = {
+      id: "com.example.MySpec.feature",
+      uri: { toString: () => "file:///workspace/MySpec.groovy" },
+      children: { size: 0, forEach: () => {} },
+    };
+
+    beforeEach(() => {
+      testRunMock = {
+        enqueued: sandbox.stub(),
+        started: sandbox.stub(),
+        passed: sandbox.stub(),
+        failed: sandbox.stub(),
+        skipped: sandbox.stub(),
+        errored: sandbox.stub(),
+        appendOutput: sandbox.stub(),
+        end: sandbox.stub(),
+      };
+      testControllerMock = {
+        createTestRun: sandbox.stub().returns(testRunMock),
+      };
+      tokenMock = {
+        isCancellationRequested: false,
+        onCancellationRequested: sandbox
+          .stub()
+          .returns({ dispose: sandbox.stub() }),
+      };
+
+      lineHandler = undefined;
+      closeHandler = undefined;
+      readlineMock.createInterface.returns({
+        on: (event: string, cb: any) => {
+          if (event === "line") lineHandler = cb;
+        },
+        close: sandbox.stub(),
+      });
+      cpMock.spawn.returns({
+        stdout: { on: sandbox.stub() },
+        stderr: { on: sandbox.stub() },
+        on: (event: string, cb: any) => {
+          if (event === "close") closeHandler = cb;
+        },
+        kill: sandbox.stub(),
+      });
+
+      sandbox.stub(testDebuggerModule, "findFreePort").resolves(5123);
+    });
+
+    const waitForSpawn = async () => {
+      for (let i = 0; i < 50 && !closeHandler; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      assert.ok(closeHandler, "process should have been spawned");
+    };
+
+    it("should pass the debug port to the Gradle init script", async () => {
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/gradlew",
+        args: ["test", "--tests", "com.example.MySpec.feature"],
+        cwd: "/workspace",
+      });
+
+      const done = service.debugTests(
+        { include: [testItem] },
+        tokenMock,
+        testControllerMock,
+      );
+      await waitForSpawn();
+      closeHandler!(0);
+      await done;
+
+      const args = cpMock.spawn.getCall(0).args[1];
+      assert.ok(args.includes("-PgroovyTestDebugPort=5123"));
+    });
+
+    it("should attach a Java debug session once the JDWP agent is listening", async () => {
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/gradlew",
+        args: ["test"],
+        cwd: "/workspace",
+      });
+
+      const done = service.debugTests(
+        { include: [testItem] },
+        tokenMock,
+        testControllerMock,
+      );
+      await waitForSpawn();
+
+      assert.ok(vscodeMock.debug.startDebugging.notCalled);
+      lineHandler!("Listening for transport dt_socket at address: 5123");
+      lineHandler!("Listening for transport dt_socket at address: 5123");
+      closeHandler!(0);
+      await done;
+
+      assert.ok(vscodeMock.debug.startDebugging.calledOnce);
+      const config = vscodeMock.debug.startDebugging.getCall(0).args[1];
+      assert.strictEqual(config.type, "java");
+      assert.strictEqual(config.request, "attach");
+      assert.strictEqual(config.port, 5123);
+    });
+
+    it("should still report results through the event consumer", async () => {
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/gradlew",
+        args: ["test"],
+        cwd: "/workspace",
+      });
+
+      const done = service.debugTests(
+        { include: [testItem] },
+        tokenMock,
+        testControllerMock,
+      );
+      await waitForSpawn();
+      lineHandler!(
+        JSON.stringify({
+          event: "testFinished",
+          id: "com.example.MySpec.feature",
+          name: "feature",
+          result: "SUCCESS",
+          duration: 5,
+        }),
+      );
+      closeHandler!(0);
+      await done;
+
+      assert.ok(testRunMock.passed.calledWith(testItem, 5));
+    });
+
+    it("should use surefire debug options and keep output verbose for Maven", async () => {
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/mvnw",
+        args: ["test", "-Dtest=com.example.MySpec#feature"],
+        cwd: "/workspace",
+      });
+      testServiceMock.getTestResults.resolves({ results: [] });
+
+      const done = service.debugTests(
+        { include: [testItem] },
+        tokenMock,
+        testControllerMock,
+      );
+      await waitForSpawn();
+      closeHandler!(0);
+      await done;
+
+      const args: string[] = cpMock.spawn.getCall(0).args[1];
+      assert.ok(!args.includes("-q"), "Quiet mode hides the JDWP banner");
+      assert.ok(
+        args.some((a) =>
+          a.startsWith(
+            "-Dmaven.surefire.debug=-agentlib:jdwp=transport=dt_socket,server=y,suspend=y,address=localhost:5123",
+          ),
+        ),
+      );
+    });
+
+    it("should not attach when the Java debugger extension is missing", async () => {
+      vscodeMock.extensions.getExtension.returns(undefined);
+      vscodeMock.window.showWarningMessage.resolves(undefined);
+      testServiceMock.getTestCommand.resolves({
+        executable: "/path/to/gradlew",
+        args: ["test"],
+        cwd: "/workspace",
+      });
+
+      const done = service.debugTests(
+        { include: [testItem] },
+        tokenMock,
+        testControllerMock,
+      );
+      await waitForSpawn();
+      lineHandler!("Listening for transport dt_socket at address: 5123");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      closeHandler!(1);
+      await done;
+
+      assert.ok(vscodeMock.debug.startDebugging.notCalled);
+      assert.ok(vscodeMock.window.showWarningMessage.calledOnce);
+      assert.ok(cpMock.spawn.getCall(0).returnValue.kill.calledOnce);
+    });
   });
 
   describe("JAVA_HOME validation security", () => {
@@ -52,4 +52,101 @@ describe("SpockGenerator", () => {
     assert.ok(content.includes('def "should test save"'));
     assert.ok(content.includes('def "should test delete"'));
   });
+
+  it("resolveTestPath: configurable suffix", () => {
+    const inputPath = ["project", "src", "main", "groovy", "Foo.groovy"].join(
+      path.sep,
+    );
+    const result = generator.resolveTestPath(inputPath, "Test");
+    assert.ok(
+      result?.endsWith(`test${path.sep}groovy${path.sep}FooTest.groovy`),
+    );
+  });
+
+  it("generateSpec: JUnit 5 template", () => {
+    const content = generator.generateSpec(
+      "UserService",
+      [{ name: "save" }],
+      "com.example",
+      { template: "junit5" },
+    );
+
+    assert.ok(content.includes("import org.junit.jupiter.api.Test"));
+    assert.ok(content.includes("class UserServiceTest {"));
+    assert.ok(content.includes("    @Test\n    void testSave() {"));
+  });
+
+  it("generateSpec: Spock template with mocked collaborators", () => {
+    const parameters = generator.parseConstructorParameters(
+      `class UserService {
+    UserService(final UserRepository repository,
+                Map<String, List<Long>> cache, int retries = 3) {}
+    UserService() { this(null, [:], 0) }
+}`,
+      "UserService",
+    );
+    assert.deepStrictEqual(parameters, [
+      { name: "repository", type: "UserRepository" },
+      { name: "cache", type: "Map<String, List<Long>>" },
+      { name: "retries", type: "int" },
+    ]);
+
+    const content = generator.generateSpec("UserService", [], "", {
+      template: "spock-mocks",
+      suffix: "SpockTest",
+      constructorParameters: parameters,
+    });
+    assert.ok(
+      content.includes("class UserServiceSpockTest extends Specification"),
+    );
+    assert.ok(content.includes("    UserRepository repository = Mock()"));
+    assert.ok(content.includes("    Map<String, List<Long>> cache = Mock()"));
+    assert.ok(
+      content.includes(
+        "UserService subject = new UserService(repository, cache, 0)",
+      ),
+    );
+  });
+
+  it("mergeIntoExisting: adds stubs only for methods without a test", () => {
+    const existing = `class UserServiceSpec extends Specification {
+
+    def "saves the user"() {
+        expect: true
+    }
+
+    def "testFindByName"() {
+        expect: true
+    }
+}
+`;
+    const merge = generator.mergeIntoExisting(existing, "UserService", [
+      { name: "save" },
+      { name: "findByName" },
+      { name: "delete" },
+    ]);
+
+    assert.deepStrictEqual(merge?.added, ["delete"]);
+    const merged =
+      existing.slice(0, merge!.offset) +
+      merge!.text +
+      existing.slice(merge!.offset);
+    assert.ok(
+      merged.includes(
+        '        expect: true\n    }\n\n    def "should test delete"() {',
+      ),
+    );
+    assert.ok(merged.endsWith("        true\n    }\n}\n"));
+  });
+
+  it("mergeIntoExisting: returns nothing when every method has a test", () => {
+    const existing = `class UserServiceTest {
+    @Test
+    void testSave() {}
+}`;
+    assert.strictEqual(
+      generator.mergeIntoExisting(existing, "UserService", [{ name: "save" }]),
+      undefined,
+    );
+  });
 });
@@ -0,0 +1,101 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  parseRunningClass,
+  SurefireReportWatcher,
+} from "../../../../src/features/testing/SurefireReportWatcher";
+
+describe("SurefireReportWatcher", () => {
+  let projectDir: string;
+  let watcher: SurefireReportWatcher | undefined;
+
+  const report = (className: string, body = "") =>
+    `<testsuite name="${className}">` +
+    `<testcase name="works" classname="${className}" time="0.1">${body}</testcase>` +
+    `</testsuite>`;
+
+  const writeReport = (module: string, className: string, xml: string) => {
+    const dir = path.join(projectDir, module, "target", "surefire-reports");
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `TEST-${className}.xml`), xml);
+  };
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "surefire-watcher-"));
+    fs.writeFileSync(path.join(projectDir, "pom.xml"), "<project/>");
+    fs.mkdirSync(path.join(projectDir, "core"));
+    fs.writeFileSync(path.join(projectDir, "core", "pom.xml"), "<project/>");
+  });
+
+  afterEach(async () => {
+    await watcher?.stop();
+    watcher = undefined;
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("should report results of reports written after the start", async () => {
+    writeReport("", "com.example.StaleSpec", report("com.example.StaleSpec"));
+    const reported: string[] = [];
+    watcher = new SurefireReportWatcher(
+      projectDir,
+      (results) => reported.push(...results.map((r) => r.testId)),
+      60_000,
+    );
+    await watcher.start();
+
+    writeReport("core", "com.example.CoreSpec", report("com.example.CoreSpec"));
+    await watcher.poll();
+    await watcher.poll();
+
+    assert.deepStrictEqual(reported, ["com.example.CoreSpec.works"]);
+  });
+
+  it("should not read a report twice when polls overlap", async () => {
+    const reported: string[] = [];
+    watcher = new SurefireReportWatcher(
+      projectDir,
+      (results) => reported.push(...results.map((r) => r.testId)),
+      60_000,
+    );
+    await watcher.start();
+
+    writeReport("", "com.example.FooSpec", report("com.example.FooSpec"));
+    await Promise.all([watcher.poll(), watcher.poll(), watcher.stop()]);
+
+    assert.deepStrictEqual(reported, ["com.example.FooSpec.works"]);
+  });
+
+  it("should wait for reports that are still being written", async () => {
+    const reported: string[] = [];
+    watcher = new SurefireReportWatcher(
+      projectDir,
+      (results) => reported.push(...results.map((r) => r.status)),
+      60_000,
+    );
+    await watcher.start();
+
+    const complete = report("com.example.FooSpec", "<failure message='x'/>");
+    writeReport("", "com.example.FooSpec", complete.slice(0, -5));
+    await watcher.poll();
+    assert.deepStrictEqual(reported, []);
+
+    writeReport("", "com.example.FooSpec", complete);
+    await watcher.stop();
+    assert.deepStrictEqual(reported, ["FAILURE"]);
+  });
+
+  describe("parseRunningClass", () => {
+    it("should read the class Surefire starts", () => {
+      assert.strictEqual(
+        parseRunningClass("[INFO] Running com.example.FooSpec"),
+        "com.example.FooSpec",
+      );
+      assert.strictEqual(
+        parseRunningClass("[INFO] Tests run: 1, Failures: 0"),
+        undefined,
+      );
+    });
+  });
+});
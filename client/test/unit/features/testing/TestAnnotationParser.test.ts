@@ -0,0 +1,71 @@
+import * as assert from "assert";
+import {
+  findClassDeclaration,
+  readAnnotations,
+} from "../../../../src/features/testing/TestAnnotationParser";
+
+describe("TestAnnotationParser", () => {
+  describe("readAnnotations", () => {
+    it("should read tags from @Tag, @Tags and @Category", () => {
+      const source = [
+        "  @Tags([@Tag('db'), @Tag(\"slow\")])",
+        "  @Category([Integration, com.example.Nightly.class])",
+        '  def "saves"() {',
+      ].join("\n");
+      assert.deepStrictEqual(readAnnotations(source, 2), {
+        tags: ["db", "slow", "Integration", "Nightly"],
+        stepwise: false,
+      });
+    });
+
+    it("should read skip annotations with multi-line arguments", () => {
+      const source = [
+        "  }",
+        "",
+        "  /** Only on CI */",
+        "  @IgnoreIf({",
+        "    !env.CI // (local runs)",
+        "  })",
+        '  @Tag("slow") def "deploys"() {',
+      ].join("\n");
+      assert.deepStrictEqual(readAnnotations(source, 6), {
+        tags: ["slow"],
+        stepwise: false,
+        skip: { kind: "conditional", annotation: "@IgnoreIf" },
+      });
+    });
+
+    it("should stop at the previous member", () => {
+      const source = [
+        "  @Ignore",
+        '  def "first"() {',
+        "  }",
+        '  def "second"() {',
+      ].join("\n");
+      assert.deepStrictEqual(readAnnotations(source, 3), {
+        tags: [],
+        stepwise: false,
+      });
+      assert.strictEqual(readAnnotations(source, 1).skip?.kind, "ignored");
+    });
+
+    it("should not read annotations from the feature name", () => {
+      const source = 'def "handles @Ignore in names"() {';
+      assert.strictEqual(readAnnotations(source, 0).skip, undefined);
+    });
+  });
+
+  describe("findClassDeclaration", () => {
+    it("should find the line declaring the class", () => {
+      const source = [
+        "package com.example",
+        "// class MathSpec is below",
+        "@Stepwise",
+        "class MathSpec extends Specification {",
+      ].join("\n");
+      assert.strictEqual(findClassDeclaration(source, "MathSpec"), 3);
+      assert.strictEqual(readAnnotations(source, 3).stepwise, true);
+      assert.strictEqual(findClassDeclaration(source, "Math"), undefined);
+    });
+  });
+});
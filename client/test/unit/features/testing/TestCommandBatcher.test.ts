@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import { batchTestCommands } from "../../../../src/features/testing/TestCommandBatcher";
+
+describe("TestCommandBatcher", () => {
+  const gradle = (...args: string[]) => ({
+    executable: "/repo/gradlew",
+    args,
+    cwd: "/repo",
+  });
+  const maven = (...args: string[]) => ({
+    executable: "/repo/mvnw",
+    args,
+    cwd: "/repo",
+  });
+
+  it("should merge Gradle filters into one invocation", () => {
+    const batches = batchTestCommands([
+      { item: "a", command: gradle("test", "--tests", "com.A"), scope: "s" },
+      { item: "b", command: gradle("test", "--tests", "com.B"), scope: "s" },
+      { item: "c", command: gradle("test", "--tests=com.C.m"), scope: "s" },
+    ]);
+
+    assert.strictEqual(batches.length, 1);
+    assert.deepStrictEqual(batches[0].items, ["a", "b", "c"]);
+    assert.deepStrictEqual(batches[0].command.args, [
+      "test",
+      "--tests",
+      "com.A",
+      "--tests",
+      "com.B",
+      "--tests",
+      "com.C.m",
+    ]);
+  });
+
+  it("should keep filters after the task they belong to", () => {
+    const batches = batchTestCommands([
+      {
+        item: "a",
+        command: gradle(":app:test", "--tests", "com.A", "--continue"),
+        scope: "s",
+      },
+      {
+        item: "b",
+        command: gradle(":app:test", "--tests", "com.B", "--continue"),
+        scope: "s",
+      },
+    ]);
+
+    assert.deepStrictEqual(batches[0].command.args, [
+      ":app:test",
+      "--tests",
+      "com.A",
+      "--tests",
+      "com.B",
+      "--continue",
+    ]);
+  });
+
+  it("should merge Maven filters into one -Dtest list", () => {
+    const batches = batchTestCommands([
+      { item: "a", command: maven("test", "-Dtest=com.A"), scope: "s" },
+      { item: "b", command: maven("test", "-Dtest=com.B#m"), scope: "s" },
+      { item: "c", command: maven("test", "-Dtest=com.A"), scope: "s" },
+    ]);
+
+    assert.strictEqual(batches.length, 1);
+    assert.deepStrictEqual(batches[0].items, ["a", "b", "c"]);
+    assert.deepStrictEqual(batches[0].command.args, [
+      "test",
+      "-Dtest=com.A,com.B#m",
+    ]);
+  });
+
+  it("should not merge across projects, build tools or scopes", () => {
+    const batches = batchTestCommands([
+      { item: "a", command: gradle("test", "--tests", "com.A"), scope: "s" },
+      {
+        item: "b",
+        command: { ...gradle("test", "--tests", "com.B"), cwd: "/other" },
+        scope: "s",
+      },
+      { item: "c", command: maven("test", "-Dtest=com.C"), scope: "s" },
+      { item: "d", command: gradle("test", "--tests", "com.D"), scope: "t" },
+      {
+        item: "e",
+        command: { ...gradle("test", "--tests", "com.E"), env: { A: "1" } },
+        scope: "s",
+      },
+    ]);
+
+    assert.deepStrictEqual(
+      batches.map((b) => b.items),
+      [["a"], ["b"], ["c"], ["d"], ["e"]],
+    );
+  });
+
+  it("should only merge unfiltered commands that are identical", () => {
+    const batches = batchTestCommands([
+      { item: "a", command: gradle("test"), scope: "s" },
+      { item: "b", command: gradle("test"), scope: "s" },
+      { item: "c", command: gradle("test", "--tests", "com.C"), scope: "s" },
+      { item: "d", command: gradle("integrationTest"), scope: "s" },
+    ]);
+
+    assert.deepStrictEqual(
+      batches.map((b) => [b.items, b.command.args]),
+      [
+        [["a", "b"], ["test"]],
+        [["c"], ["test", "--tests", "com.C"]],
+        [["d"], ["integrationTest"]],
+      ],
+    );
+  });
+
+  it("should not mutate the original commands", () => {
+    const command = gradle("test", "--tests", "com.A");
+    batchTestCommands([
+      { item: "a", command, scope: "s" },
+      { item: "b", command: gradle("test", "--tests", "com.B"), scope: "s" },
+    ]);
+
+    assert.deepStrictEqual(command.args, ["test", "--tests", "com.A"]);
+  });
+});
@@ -17,7 +17,30 @@ describe("TestEventConsumer", () => {
     // Mock VS Code API
     vscodeMock = {
       TestMessage: class TestMessage {
+        expectedOutput?: string;
+        actualOutput?: string;
+        location?: any;
+        stackTrace?: any[];
         constructor(public message: string) {}
+        static diff(message: string, expected: string, actual: string) {
+          const testMessage = new this(message);
+          testMessage.expectedOutput = expected;
+          testMessage.actualOutput = actual;
+          return testMessage;
+        }
+      },
+      Location: class Location {
+        constructor(
+          public uri: any,
+          public range: any,
+        ) {}
+      },
+      TestMessageStackFrame: class TestMessageStackFrame {
+        constructor(
+          public label: string,
+          public uri?: any,
+          public position?: any,
+        ) {}
       },
     };
 
@@ -29,6 +52,7 @@ describe("TestEventConsumer", () => {
       skipped: sandbox.stub(),
       errored: sandbox.stub(),
       enqueued: sandbox.stub(),
+      appendOutput: sandbox.stub(),
     };
 
     // Mock Logger
@@ -408,6 +432,285 @@ describe("TestEventConsumer", () => {
     });
   });
 
+  describe("result listener", () => {
+    it("should report each result with its outcome", () => {
+      const onResult = sandbox.stub();
+      consumer = new TestEventConsumer(
+        runMock,
+        loggerMock,
+        testControllerMock,
+        onResult,
+      );
+      const passing = { id: "test.Class.passes", label: "passes" };
+      const failing = { id: "test.Class.fails", label: "fails" };
+      consumer.registerTestItem(passing.id, passing);
+      consumer.registerTestItem(failing.id, failing);
+
+      for (const [item, result] of [
+        [passing, "SUCCESS"],
+        [failing, "FAILURE"],
+      ] as const) {
+        consumer.processLine(
+          JSON.stringify({
+            event: "testFinished",
+            id: item.id,
+            name: item.label,
+            result,
+            duration: 7,
+            message: result === "FAILURE" ? "expected 1" : undefined,
+          }),
+        );
+      }
+      consumer.markFailed(passing, "late failure");
+
+      assert.deepStrictEqual(onResult.args, [
+        [passing, "passed", 7],
+        [failing, "failed", 7, "expected 1"],
+        [passing, "failed", undefined, "late failure"],
+      ]);
+    });
+  });
+
+  describe("test output", () => {
+    const output = (extra: Record<string, unknown>) =>
+      consumer.processLine(
+        JSON.stringify({
+          event: "testOutput",
+          id: "test.Class.prints",
+          name: "prints",
+          parent: "test.Class",
+          ...extra,
+        }),
+      );
+
+    it("should attach output to the test that printed it", () => {
+      consumer = new TestEventConsumer(runMock, loggerMock, testControllerMock);
+      const item = {
+        id: "test.Class.prints",
+        label: "prints",
+        uri: "file:///Class.groovy",
+        range: { start: { line: 4 } },
+      };
+      consumer.registerTestItem(item.id, item);
+
+      output({ stream: "StdOut", output: "hello\nworld\n" });
+      output({ stream: "StdErr", output: "oops\n" });
+
+      const [[text, location, target], [errorText]] = runMock.appendOutput.args;
+      assert.strictEqual(text, "hello\r\nworld\r\n");
+      assert.deepStrictEqual(
+        [location.uri, location.range],
+        [item.uri, item.range],
+      );
+      assert.strictEqual(target, item);
+      assert.strictEqual(errorText, "\x1b[31moops\r\n\x1b[0m");
+    });
+
+    it("should not create items for output of unknown tests", () => {
+      consumer = new TestEventConsumer(runMock, loggerMock, testControllerMock);
+      consumer.registerTestItem("test.Class", {
+        id: "test.Class",
+        label: "Class",
+        children: { add: sandbox.stub() },
+      });
+
+      output({ id: "test.Class.gone", name: "gone", output: "hi\n" });
+
+      assert.ok(testControllerMock.createTestItem.notCalled);
+      assert.ok(
+        runMock.appendOutput.calledOnceWith("hi\r\n", undefined, undefined),
+      );
+    });
+  });
+
+  describe("data-driven iterations", () => {
+    let tracker: any;
+    let featureItem: any;
+
+    const iteration = (
+      event: string,
+      name: string,
+      extra: Record<string, unknown> = {},
+    ) =>
+      consumer.processLine(
+        JSON.stringify({
+          event,
+          id: `test.MathSpec.${name}`,
+          name,
+          parent: "test.MathSpec",
+          feature: "maximum",
+          ...extra,
+        }),
+      );
+
+    beforeEach(() => {
+      tracker = {
+        locate: sandbox
+          .stub()
+          .callsFake((_feature: any, name: string, ordinal: number) =>
+            name.endsWith("#2]")
+              ? undefined
+              : { start: { line: 10 + ordinal } },
+          ),
+        report: sandbox.stub(),
+      };
+      featureItem = {
+        id: "test.MathSpec.maximum",
+        label: "maximum",
+        uri: "file:///MathSpec.groovy",
+        children: { add: sandbox.stub() },
+      };
+      const suiteItem = {
+        id: "test.MathSpec",
+        label: "MathSpec",
+        uri: "file:///MathSpec.groovy",
+        children: {
+          add: sandbox.stub(),
+          get: (id: string) =>
+            id === featureItem.id ? featureItem : undefined,
+        },
+      };
+      consumer = new TestEventConsumer(
+        runMock,
+        loggerMock,
+        testControllerMock,
+        undefined,
+        undefined,
+        tracker,
+      );
+      consumer.registerTestItem(suiteItem.id, suiteItem);
+    });
+
+    it("should place iterations under their feature at the located row", () => {
+      iteration("testStarted", "max [a: 1, #0]");
+      iteration("testStarted", "max [a: 7, #1]");
+      iteration("testStarted", "max [a: 9, #2]");
+
+      assert.strictEqual(featureItem.children.add.callCount, 3);
+      assert.deepStrictEqual(
+        tracker.locate.args.map((args: any[]) => [args[0], args[1], args[2]]),
+        [
+          [featureItem, "max [a: 1, #0]", 0],
+          [featureItem, "max [a: 7, #1]", 1],
+          [featureItem, "max [a: 9, #2]", 2],
+        ],
+      );
+      assert.deepStrictEqual(
+        testControllerMock.createTestItem.returnValues.map(
+          (item: any) => item.range,
+        ),
+        [{ start: { line: 10 } }, { start: { line: 11 } }, undefined],
+      );
+    });
+
+    it("should report results of located iterations to the tracker", () => {
+      iteration("testStarted", "max [a: 1, #0]");
+      iteration("testStarted", "max [a: 9, #2]");
+      iteration("testStarted", "max [a: 7, #1]");
+      iteration("testFinished", "max [a: 1, #0]", {
+        result: "FAILURE",
+        message: "boom",
+      });
+      iteration("testFinished", "max [a: 9, #2]", { result: "FAILURE" });
+      iteration("testFinished", "max [a: 7, #1]", { result: "SUCCESS" });
+
+      const [first, , third] = testControllerMock.createTestItem.returnValues;
+      assert.deepStrictEqual(tracker.report.args, [
+        [first, "failed", "boom"],
+        [third, "passed", undefined],
+      ]);
+    });
+  });
+
+  describe("failure messages", () => {
+    const finishFailed = (extra: Record<string, unknown>) =>
+      consumer.processLine(
+        JSON.stringify({
+          event: "testFinished",
+          id: "com.example.CalcSpec.adds",
+          name: "adds",
+          result: "FAILURE",
+          ...extra,
+        }),
+      );
+
+    beforeEach(() => {
+      const resolver = {
+        resolve: (frame: any) =>
+          frame.className.startsWith("com.example")
+            ? {
+                uri: `file:///${frame.fileName}`,
+                range: { start: { line: frame.line - 1 } },
+              }
+            : undefined,
+      };
+      consumer = new TestEventConsumer(
+        runMock,
+        loggerMock,
+        testControllerMock,
+        undefined,
+        resolver,
+      );
+      consumer.registerTestItem("com.example.CalcSpec.adds", {
+        id: "com.example.CalcSpec.adds",
+        label: "adds",
+      });
+    });
+
+    it("should show a diff for values reported by the init script", () => {
+      finishFailed({
+        message: "Condition not satisfied",
+        expected: "3",
+        actual: "4",
+      });
+
+      const message = runMock.failed.getCall(0).args[1];
+      assert.strictEqual(message.expectedOutput, "3");
+      assert.strictEqual(message.actualOutput, "4");
+    });
+
+    it("should parse expected and actual values from the message", () => {
+      finishFailed({ message: "expected:<3> but was:<4>" });
+
+      const message = runMock.failed.getCall(0).args[1];
+      assert.strictEqual(message.expectedOutput, "3");
+      assert.strictEqual(message.actualOutput, "4");
+    });
+
+    it("should link stack frames to workspace sources", () => {
+      finishFailed({
+        message: "boom",
+        stackTrace: [
+          "java.util.ArrayList.get(ArrayList.java:427)",
+          "com.example.Calculator.add(Calculator.groovy:7)",
+          "com.example.CalcSpec.adds(CalcSpec.groovy:12)",
+        ].join("\n"),
+      });
+
+      const message = runMock.failed.getCall(0).args[1];
+      assert.strictEqual(message.message, "boom");
+      assert.strictEqual(message.expectedOutput, undefined);
+      assert.deepStrictEqual(
+        message.stackTrace.map((f: any) => [f.label, f.uri, f.position?.line]),
+        [
+          ["java.util.ArrayList.get", undefined, undefined],
+          ["com.example.Calculator.add", "file:///Calculator.groovy", 6],
+          ["com.example.CalcSpec.adds", "file:///CalcSpec.groovy", 11],
+        ],
+      );
+      // The failure is shown at the innermost workspace frame
+      assert.strictEqual(message.location.uri, "file:///Calculator.groovy");
+    });
+
+    it("should keep a stack trace without frames in the message", () => {
+      finishFailed({ message: "boom", stackTrace: "no frames here" });
+
+      const message = runMock.failed.getCall(0).args[1];
+      assert.strictEqual(message.message, "boom\n\nno frames here");
+      assert.strictEqual(message.stackTrace, undefined);
+    });
+  });
+
   describe("findItemByName disambiguation", () => {
     it("should prefer item with matching parent", () => {
       consumer = new TestEventConsumer(runMock, loggerMock, testControllerMock);
@@ -0,0 +1,167 @@
+import * as assert from "assert";
+import {
+  addRunResults,
+  currentStreak,
+  describeHistory,
+  formatTimeline,
+  isFailing,
+  isFlaky,
+  MAX_ENTRIES_PER_TEST,
+  TestHistoryRecord,
+  TestOutcome,
+  TestRunResult,
+  toTestRunResult,
+} from "../../../../src/features/testing/TestHistory";
+
+describe("TestHistory", () => {
+  const result = (
+    id: string,
+    status: TestOutcome,
+    extra: Partial<TestRunResult> = {},
+  ): TestRunResult => ({ id, label: id, status, ...extra });
+
+  const recordOf = (
+    statuses: TestOutcome[],
+    codeVersions: number[] = statuses.map(() => 0),
+  ): TestHistoryRecord => ({
+    id: "com.example.FooSpec.works",
+    label: "works",
+    entries: statuses.map((status, i) => ({
+      status,
+      timestamp: i,
+      codeVersion: codeVersions[i],
+    })),
+  });
+
+  describe("addRunResults", () => {
+    it("should append entries and keep only the first message line", () => {
+      let records = addRunResults([], [result("a", "passed")], 1, 0);
+      records = addRunResults(
+        records,
+        [
+          result("a", "failed", {
+            message: "Condition not satisfied:\n\nx == 1",
+          }),
+        ],
+        2,
+        0,
+      );
+
+      assert.strictEqual(records.length, 1);
+      assert.deepStrictEqual(
+        records[0].entries.map((e) => [e.status, e.timestamp, e.message]),
+        [
+          ["passed", 1, undefined],
+          ["failed", 2, "Condition not satisfied:"],
+        ],
+      );
+    });
+
+    it("should cap entries per test", () => {
+      let records: TestHistoryRecord[] = [];
+      for (let i = 0; i < MAX_ENTRIES_PER_TEST + 5; i++) {
+        records = addRunResults(records, [result("a", "passed")], i, 0);
+      }
+      assert.strictEqual(records[0].entries.length, MAX_ENTRIES_PER_TEST);
+      assert.strictEqual(records[0].entries[0].timestamp, 5);
+    });
+
+    it("should order tests by last run and keep known locations", () => {
+      let records = addRunResults(
+        [],
+        [
+          result("a", "passed", { uri: "file:///A.groovy", line: 3 }),
+          result("b", "passed"),
+        ],
+        1,
+        0,
+      );
+      records = addRunResults(records, [result("a", "failed")], 2, 0);
+
+      assert.deepStrictEqual(
+        records.map((r) => r.id),
+        ["b", "a"],
+      );
+      assert.strictEqual(records[1].uri, "file:///A.groovy");
+      assert.strictEqual(records[1].line, 3);
+    });
+
+    it("should not mutate the previous history", () => {
+      const records = addRunResults([], [result("a", "passed")], 1, 0);
+      addRunResults(records, [result("a", "failed")], 2, 0);
+      assert.strictEqual(records[0].entries.length, 1);
+    });
+  });
+
+  describe("isFlaky", () => {
+    it("should flag tests that flip status at the same code version", () => {
+      assert.ok(isFlaky(recordOf(["passed", "failed", "passed"])));
+    });
+
+    it("should not flag status changes after a code change", () => {
+      assert.ok(!isFlaky(recordOf(["passed", "failed", "passed"], [0, 1, 2])));
+    });
+
+    it("should ignore skipped runs", () => {
+      assert.ok(!isFlaky(recordOf(["passed", "skipped", "passed"])));
+    });
+
+    it("should treat errors as failures", () => {
+      assert.ok(!isFlaky(recordOf(["failed", "errored"])));
+      assert.ok(isFlaky(recordOf(["errored", "passed"])));
+    });
+  });
+
+  describe("streaks", () => {
+    it("should count the latest run of equal outcomes", () => {
+      const record = recordOf(["passed", "failed", "failed"], [0, 1, 1]);
+      assert.deepStrictEqual(currentStreak(record), {
+        status: "failed",
+        count: 2,
+      });
+      assert.ok(isFailing(record));
+      assert.strictEqual(describeHistory(record), "failed 2×");
+      assert.strictEqual(formatTimeline(record), "✓✗✗");
+    });
+
+    it("should mention flakiness in the description", () => {
+      assert.strictEqual(
+        describeHistory(recordOf(["failed", "passed"])),
+        "passed 1× · flaky",
+      );
+    });
+
+    it("should have no streak without runs", () => {
+      assert.strictEqual(currentStreak(recordOf([])), undefined);
+      assert.strictEqual(describeHistory(recordOf([])), "");
+      assert.ok(!isFailing(recordOf([])));
+    });
+  });
+
+  describe("toTestRunResult", () => {
+    it("should snapshot the item without its codicon", () => {
+      const parent = { id: "com.example.FooSpec" };
+      const item = {
+        id: "com.example.FooSpec.works",
+        label: "$(symbol-method) works",
+        uri: { toString: () => "file:///FooSpec.groovy" },
+        range: { start: { line: 4 } },
+        parent,
+      };
+
+      assert.deepStrictEqual(
+        toTestRunResult(item as any, "failed", 12, "boom"),
+        {
+          id: "com.example.FooSpec.works",
+          label: "works",
+          parentId: "com.example.FooSpec",
+          uri: "file:///FooSpec.groovy",
+          line: 4,
+          status: "failed",
+          durationMs: 12,
+          message: "boom",
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import * as assert from "assert";
+import {
+  computeTestInsights,
+  formatDuration,
+  insightsToCsv,
+  moduleFromPath,
+} from "../../../../src/features/testing/TestInsights";
+import type { TestHistoryRecord } from "../../../../src/features/testing/TestHistory";
+
+describe("TestInsights", () => {
+  const record = (
+    id: string,
+    label: string,
+    parentId: string,
+    durations: number[],
+    uri = "file:///repo/core/src/test/groovy/MathSpec.groovy",
+  ): TestHistoryRecord => ({
+    id,
+    label,
+    parentId,
+    uri,
+    entries: durations.map((durationMs, index) => ({
+      status: "passed",
+      durationMs,
+      timestamp: 1000 + index,
+      codeVersion: 0,
+    })),
+  });
+
+  const records = [
+    record(
+      "com.example.MathSpec.adds",
+      "adds",
+      "com.example.MathSpec",
+      [100, 300],
+    ),
+    record(
+      "com.example.MathSpec.max [a: 1, #0]",
+      "max [a: 1, #0]",
+      "com.example.MathSpec.max",
+      [50, 50],
+    ),
+    record(
+      "com.example.MathSpec.max [a: 2, #1]",
+      "max [a: 2, #1]",
+      "com.example.MathSpec.max",
+      [70, 70],
+    ),
+    record(
+      "com.example.ApiSpec.calls",
+      "calls",
+      "com.example.ApiSpec",
+      [2000],
+      "file:///repo/src/test/groovy/ApiSpec.groovy",
+    ),
+  ];
+  const moduleOf = (uri: string | undefined) =>
+    moduleFromPath(uri?.replace("file:///repo/", "") ?? "");
+
+  it("should rank specs and features by their last duration", () => {
+    const insights = computeTestInsights(
+      records,
+      { limit: 10, runs: 10, moduleOf },
+      0,
+    );
+    assert.deepStrictEqual(
+      insights.slowestSpecs.map((s) => [s.label, s.lastMs, s.averageMs]),
+      [
+        ["ApiSpec", 2000, 2000],
+        ["MathSpec", 420, 320],
+      ],
+    );
+    assert.deepStrictEqual(
+      insights.slowestFeatures.map((f) => [f.id, f.label, f.lastMs]),
+      [
+        ["com.example.ApiSpec.calls", "calls", 2000],
+        ["com.example.MathSpec.adds", "adds", 300],
+        ["com.example.MathSpec.max", "max", 120],
+      ],
+    );
+  });
+
+  it("should total the runs and modules", () => {
+    const insights = computeTestInsights(
+      records,
+      { limit: 1, runs: 1, moduleOf },
+      0,
+    );
+    assert.deepStrictEqual(insights.runs, [
+      { timestamp: 1001, durationMs: 420, tests: 3 },
+    ]);
+    assert.deepStrictEqual(insights.modules, [
+      { module: "(root)", durationMs: 2000, tests: 1 },
+      { module: "core", durationMs: 420, tests: 3 },
+    ]);
+    assert.strictEqual(insights.slowestSpecs.length, 1);
+  });
+
+  it("should export one CSV row per entry", () => {
+    const insights = computeTestInsights(
+      [record("com.example.A.b, c", "b, c", "com.example.A", [5])],
+      { limit: 10, runs: 10, moduleOf },
+      0,
+    );
+    assert.deepStrictEqual(insightsToCsv(insights).trimEnd().split("\n"), [
+      "type,name,module,lastMs,averageMs,runs",
+      "spec,com.example.A,core,5,5,1",
+      'feature,"com.example.A.b, c",core,5,5,1',
+      "module,core,core,5,,",
+      "run,1970-01-01T00:00:01.000Z,,5,,",
+    ]);
+  });
+
+  it("should format durations", () => {
+    assert.strictEqual(formatDuration(850), "850 ms");
+    assert.strictEqual(formatDuration(12_440), "12.4 s");
+    assert.strictEqual(formatDuration(185_000), "3 min 05 s");
+  });
+});
@@ -0,0 +1,34 @@
+import * as assert from "assert";
+import {
+  suiteItemId,
+  unscopedTestId,
+} from "../../../../src/features/testing/TestItemId";
+
+describe("TestItemId", () => {
+  it("should use the class name when no scope is given", () => {
+    assert.strictEqual(suiteItemId("com.example.MySpec"), "com.example.MySpec");
+  });
+
+  it("should scope a class by its spec file", () => {
+    assert.strictEqual(
+      suiteItemId("com.example.MySpec", "file:///repo/a/MySpec.groovy"),
+      "file:///repo/a/MySpec.groovy::com.example.MySpec",
+    );
+  });
+
+  it("should strip the scope of suites and features", () => {
+    const suiteId = suiteItemId("com.example.MySpec", "file:///repo/a/Spec");
+    assert.strictEqual(unscopedTestId(suiteId), "com.example.MySpec");
+    assert.strictEqual(
+      unscopedTestId(`${suiteId}.adds numbers`),
+      "com.example.MySpec.adds numbers",
+    );
+  });
+
+  it("should keep ids without a scope, even if a feature contains '::'", () => {
+    assert.strictEqual(
+      unscopedTestId("com.example.MySpec.calls Foo::bar"),
+      "com.example.MySpec.calls Foo::bar",
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import * as assert from "assert";
+import {
+  findDeclaredClass,
+  findSubjectClasses,
+  isTestSource,
+  subjectClassName,
+  testClassNames,
+} from "../../../../src/features/testing/TestNavigation";
+
+describe("TestNavigation", () => {
+  describe("testClassNames", () => {
+    it("lists the conventional test class names", () => {
+      const names = testClassNames("UserService");
+      assert.ok(names.includes("UserServiceSpec"));
+      assert.ok(names.includes("UserServiceTest"));
+      assert.ok(names.includes("UserServiceIT"));
+    });
+
+    it("puts the configured suffix first", () => {
+      const names = testClassNames("UserService", "Test");
+      assert.strictEqual(names[0], "UserServiceTest");
+      assert.strictEqual(
+        names.filter((n) => n === "UserServiceTest").length,
+        1,
+      );
+    });
+  });
+
+  describe("subjectClassName", () => {
+    it("strips the longest matching suffix", () => {
+      assert.strictEqual(subjectClassName("UserServiceSpec"), "UserService");
+      assert.strictEqual(
+        subjectClassName("UserServiceIntegrationSpec"),
+        "UserService",
+      );
+      assert.strictEqual(subjectClassName("UserServiceTests"), "UserService");
+    });
+
+    it("honours a custom suffix", () => {
+      assert.strictEqual(
+        subjectClassName("UserServiceCheck", "Check"),
+        "UserService",
+      );
+    });
+
+    it("returns undefined for names without a test suffix", () => {
+      assert.strictEqual(subjectClassName("UserService"), undefined);
+      assert.strictEqual(subjectClassName("Spec"), undefined);
+    });
+  });
+
+  describe("findSubjectClasses", () => {
+    it("reads the type of @Subject fields", () => {
+      const source = `class OrderSpec extends Specification {
+    @Subject
+    OrderService service = new OrderService(repository)
+}`;
+      assert.deepStrictEqual(findSubjectClasses(source), ["OrderService"]);
+    });
+
+    it("reads the instantiated class of an untyped @Subject field", () => {
+      const source = `    @Subject def service = new com.example.OrderService()`;
+      assert.deepStrictEqual(findSubjectClasses(source), ["OrderService"]);
+    });
+
+    it("reads classes listed in a class-level @Subject", () => {
+      const source = `@Subject([OrderService, Invoice])
+class OrderSpec extends Specification {}`;
+      assert.deepStrictEqual(findSubjectClasses(source), [
+        "OrderService",
+        "Invoice",
+      ]);
+    });
+
+    it("reads the class instantiated for subject", () => {
+      const source = `    def "places an order"() {
+        given:
+        def subject = new OrderService(repository)
+    }`;
+      assert.deepStrictEqual(findSubjectClasses(source), ["OrderService"]);
+    });
+
+    it("reads both the declared and the instantiated type", () => {
+      const source = `    OrderService subject = new DefaultOrderService()`;
+      assert.deepStrictEqual(findSubjectClasses(source), [
+        "DefaultOrderService",
+        "OrderService",
+      ]);
+    });
+
+    it("returns nothing for specs without a subject", () => {
+      assert.deepStrictEqual(
+        findSubjectClasses(`def result = new OrderService()`),
+        [],
+      );
+    });
+  });
+
+  describe("findDeclaredClass", () => {
+    it("finds the class and whether it holds tests", () => {
+      const source = `package com.example
+
+import spock.lang.Specification
+
+@Stepwise
+class OrderSpec extends Specification {
+}`;
+      assert.deepStrictEqual(findDeclaredClass(source), {
+        name: "OrderSpec",
+        line: 5,
+        isTest: true,
+      });
+    });
+
+    it("finds production classes", () => {
+      const source = `package com.example
+
+public abstract class OrderService {
+}`;
+      assert.deepStrictEqual(findDeclaredClass(source), {
+        name: "OrderService",
+        line: 2,
+        isTest: false,
+      });
+    });
+
+    it("returns undefined for scripts", () => {
+      assert.strictEqual(findDeclaredClass(`println "hello"`), undefined);
+    });
+  });
+
+  describe("isTestSource", () => {
+    it("recognizes JUnit tests", () => {
+      assert.ok(
+        isTestSource(`class OrderTest {
+    @Test
+    void places() {}
+}`),
+      );
+      assert.ok(!isTestSource(`class Order { void test() {} }`));
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import {
+  applyTestProfile,
+  readTestProfiles,
+} from "../../../../src/features/testing/TestProfiles";
+
+describe("TestProfiles", () => {
+  describe("readTestProfiles", () => {
+    it("should skip unnamed and duplicate profiles", () => {
+      const profiles = readTestProfiles([
+        { name: "Integration", jvmArgs: ["-Xmx2g", 42] },
+        { name: "Integration" },
+        { jvmArgs: ["-Xmx1g"] },
+        "Debug",
+        { name: " Slow ", systemProperties: { retries: 3, skip: null } },
+      ]);
+      assert.deepStrictEqual(
+        profiles.map((p) => p.name),
+        ["Integration", "Slow"],
+      );
+      assert.deepStrictEqual(profiles[0].jvmArgs, ["-Xmx2g"]);
+      assert.deepStrictEqual(profiles[1].systemProperties, { retries: "3" });
+    });
+
+    it("should return nothing when the setting is not a list", () => {
+      assert.deepStrictEqual(readTestProfiles(undefined), []);
+      assert.deepStrictEqual(readTestProfiles({ name: "Integration" }), []);
+    });
+  });
+
+  describe("applyTestProfile", () => {
+    const command = {
+      executable: "./gradlew",
+      args: ["test"],
+      cwd: "/project",
+      env: { JAVA_HOME: "/jdk" },
+    };
+    const profile = {
+      name: "Integration",
+      jvmArgs: ["-Xmx2g", "-ea"],
+      systemProperties: { "spring.profiles.active": "it" },
+      env: { DB_URL: "jdbc:h2:mem:" },
+      gradleArgs: ["--info"],
+      mavenArgs: ["-Pintegration"],
+    };
+
+    it("should pass the JVM options to the Gradle init script", () => {
+      const result = applyTestProfile(command, profile, "gradle");
+      const [property, ...rest] = result.args.slice(1);
+      assert.ok(property.startsWith("-PgroovyTestProfile="));
+      assert.deepStrictEqual(
+        JSON.parse(
+          Buffer.from(property.split("=")[1], "base64").toString("utf8"),
+        ),
+        {
+          jvmArgs: ["-Xmx2g", "-ea"],
+          systemProperties: { "spring.profiles.active": "it" },
+          env: { DB_URL: "jdbc:h2:mem:" },
+        },
+      );
+      assert.deepStrictEqual(rest, ["--info"]);
+    });
+
+    it("should pass system properties and argLine to Maven", () => {
+      const result = applyTestProfile(
+        { ...command, executable: "mvn" },
+        profile,
+        "maven",
+      );
+      assert.deepStrictEqual(result.args, [
+        "test",
+        "-Dspring.profiles.active=it",
+        "-DargLine=-Xmx2g -ea",
+        "-Pintegration",
+      ]);
+    });
+
+    it("should merge the environment without changing the command", () => {
+      const result = applyTestProfile(command, profile, "maven");
+      assert.deepStrictEqual(result.env, {
+        JAVA_HOME: "/jdk",
+        DB_URL: "jdbc:h2:mem:",
+      });
+      assert.deepStrictEqual(command.args, ["test"]);
+      assert.deepStrictEqual(command.env, { JAVA_HOME: "/jdk" });
+    });
+  });
+});
@@ -70,4 +70,18 @@ describe("TestService", () => {
 
     expect(suites).to.be.an("array").that.is.empty;
   });
+
+  it("should send a getSourceSets request to the LSP for a workspace", async () => {
+    const workspaceUri = "file:///path/to/workspace";
+    mockLanguageClient.sendRequest.resolves(null);
+
+    const sourceSets = await testService.getSourceSets(workspaceUri);
+
+    const args = mockLanguageClient.sendRequest.firstCall.args;
+    expect((args[0] as RequestType<any, any, any>).method).to.equal(
+      "groovy/getSourceSets",
+    );
+    expect(args[1]).to.deep.equal({ workspaceUri });
+    expect(sourceSets).to.be.an("array").that.is.empty;
+  });
 });
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  findModuleDir,
+  findSourceRoot,
+  mapToSourceSet,
+  scanSourceSets,
+} from "../../../../src/features/testing/TestSourceSets";
+
+describe("TestSourceSets", () => {
+  let projectDir: string;
+
+  const mkdir = (...segments: string[]) =>
+    fs.mkdirSync(path.join(projectDir, ...segments), { recursive: true });
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "source-sets-"));
+    fs.writeFileSync(path.join(projectDir, "settings.gradle"), "");
+    mkdir("app");
+    fs.writeFileSync(path.join(projectDir, "app", "build.gradle"), "");
+    mkdir("app", "src", "main", "groovy", "com", "example");
+    mkdir("app", "src", "test", "groovy");
+    mkdir("app", "src", "integrationTest", "groovy");
+    mkdir("app", "src", "integrationTest", "resources");
+    mkdir("app", "grails-app", "services", "com", "example");
+    mkdir("app", "grails-app", "conf");
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("should find the module of a file", () => {
+    const file = path.join(
+      projectDir,
+      "app",
+      "src",
+      "main",
+      "groovy",
+      "com",
+      "example",
+      "Foo.groovy",
+    );
+    assert.strictEqual(findModuleDir(file), path.join(projectDir, "app"));
+  });
+
+  it("should scan the source sets of a module", () => {
+    const app = path.join(projectDir, "app");
+    const sourceSets = scanSourceSets(app);
+    assert.deepStrictEqual(
+      sourceSets.map((s) => [s.name, s.isTest, s.roots]),
+      [
+        [
+          "integrationTest",
+          true,
+          [path.join(app, "src", "integrationTest", "groovy")],
+        ],
+        [
+          "main",
+          false,
+          [
+            path.join(app, "src", "main", "groovy"),
+            path.join(app, "grails-app", "services"),
+          ],
+        ],
+        ["test", true, [path.join(app, "src", "test", "groovy")]],
+      ],
+    );
+  });
+
+  it("should map a source file into a test source set", () => {
+    const app = path.join(projectDir, "app");
+    const sourceSets = scanSourceSets(app);
+    const file = path.join(
+      app,
+      "grails-app",
+      "services",
+      "com",
+      "example",
+      "FooService.groovy",
+    );
+
+    const source = findSourceRoot(file, sourceSets);
+    assert.strictEqual(source?.sourceSet.name, "main");
+
+    const integrationTest = sourceSets.find(
+      (s) => s.name === "integrationTest",
+    )!;
+    assert.strictEqual(
+      mapToSourceSet(
+        file,
+        source!.root,
+        integrationTest,
+        "FooServiceSpec.groovy",
+      ),
+      path.join(
+        app,
+        "src",
+        "integrationTest",
+        "groovy",
+        "com",
+        "example",
+        "FooServiceSpec.groovy",
+      ),
+    );
+  });
+});
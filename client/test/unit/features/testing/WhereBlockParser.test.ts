@@ -0,0 +1,85 @@
+import * as assert from "assert";
+import {
+  findWhereRows,
+  iterationIndex,
+} from "../../../../src/features/testing/WhereBlockParser";
+
+describe("WhereBlockParser", () => {
+  describe("iterationIndex", () => {
+    it("should read Spock 2 and Spock 1 iteration indexes", () => {
+      assert.strictEqual(iterationIndex("max [a: 1, b: 3, #2]"), 2);
+      assert.strictEqual(iterationIndex("max[4]"), 4);
+    });
+
+    it("should return undefined for custom iteration names", () => {
+      assert.strictEqual(iterationIndex("maximum of 1 and 3 is 3"), undefined);
+    });
+  });
+
+  describe("findWhereRows", () => {
+    const spec = [
+      "class MathSpec extends Specification {", // 0
+      '  def "maximum of two numbers"() {', // 1
+      "    expect:", // 2
+      "    Math.max(a, b) == c", // 3
+      "", // 4
+      "    where:", // 5
+      "    a | b || c", // 6
+      "    1 | 3 || 3 // smaller first", // 7
+      "", // 8
+      "    7 | 4 || 7", // 9
+      "    c2 = c * 2", // 10
+      "  }", // 11
+      "", // 12
+      '  def "length of names"() {', // 13
+      "    expect:", // 14
+      "    name.size() == 5", // 15
+      "", // 16
+      "    where:", // 17
+      '    name << ["Alice", "Bobby",', // 18
+      '             "Carol, Jr"]', // 19
+      "  }", // 20
+      "", // 21
+      '  def "no data"() {', // 22
+      "    expect: true", // 23
+      "  }", // 24
+      "}", // 25
+    ].join("\n");
+
+    it("should return the data rows of a where: table", () => {
+      assert.deepStrictEqual(findWhereRows(spec, 1), [
+        { line: 7, startCharacter: 4, endCharacter: 14 },
+        { line: 9, startCharacter: 4, endCharacter: 14 },
+      ]);
+    });
+
+    it("should return the elements of a data pipe list", () => {
+      assert.deepStrictEqual(findWhereRows(spec, 13), [
+        { line: 18, startCharacter: 13, endCharacter: 20 },
+        { line: 18, startCharacter: 22, endCharacter: 29 },
+        { line: 19, startCharacter: 13, endCharacter: 24 },
+      ]);
+    });
+
+    it("should not read the where block of the next feature", () => {
+      assert.deepStrictEqual(findWhereRows(spec, 22), []);
+      assert.deepStrictEqual(
+        findWhereRows(spec.replace("    where:\n    name", "    name"), 13),
+        [],
+      );
+    });
+
+    it("should accept a table header on the label line", () => {
+      const source = [
+        'def "sum"() {',
+        "  expect: a + b == c",
+        "  where: a | b | c",
+        "         1 | 2 | 3",
+        "}",
+      ].join("\n");
+      assert.deepStrictEqual(findWhereRows(source, 0), [
+        { line: 3, startCharacter: 9, endCharacter: 18 },
+      ]);
+    });
+  });
+});
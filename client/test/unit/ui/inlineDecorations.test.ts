@@ -0,0 +1,52 @@
+import { expect } from "chai";
+import {
+  keepUnedited,
+  MAX_INLINE_LENGTH,
+  truncateInline,
+} from "../../../src/ui/inlineDecorations";
+
+function range(startLine: number, endLine = startLine): any {
+  return {
+    start: { line: startLine, character: 0 },
+    end: { line: endLine, character: 0 },
+  };
+}
+
+describe("inlineDecorations", () => {
+  describe("truncateInline", () => {
+    it("should keep short text", () => {
+      expect(truncateInline("=> 42")).to.equal("=> 42");
+    });
+
+    it("should cut long text with an ellipsis", () => {
+      const inline = truncateInline("x".repeat(200));
+      expect(inline).to.have.length(MAX_INLINE_LENGTH);
+      expect(inline.endsWith("…")).to.equal(true);
+    });
+  });
+
+  describe("keepUnedited", () => {
+    const decorations = [{ range: range(5) }, { range: range(10, 12) }];
+
+    it("should drop a decoration whose lines are edited", () => {
+      const kept = keepUnedited(decorations, [
+        { range: range(11), text: "x" } as any,
+      ]);
+      expect(kept).to.deep.equal([decorations[0]]);
+    });
+
+    it("should drop decorations below inserted lines", () => {
+      const kept = keepUnedited(decorations, [
+        { range: range(7), text: "a\nb" } as any,
+      ]);
+      expect(kept).to.deep.equal([decorations[0]]);
+    });
+
+    it("should keep decorations when a line above is edited in place", () => {
+      const kept = keepUnedited(decorations, [
+        { range: range(2), text: "x" } as any,
+      ]);
+      expect(kept).to.deep.equal(decorations);
+    });
+  });
+});